@@ -13,20 +13,130 @@
 // Furthermore, the library explicitly exports types.
 
 // import types
+import type { AbiItem, AbiParameter } from "./types/AbiItem";
+import type {
+  Codec,
+  CodecValue,
+  ResultValue,
+  StructSchema,
+  StructValue,
+  TupleValue,
+  UnionValue,
+} from "./types/Codec";
+import type {
+  Bech32Result,
+  Bech32Variant,
+  SegwitAddress,
+} from "./types/Bech32Result";
+import type { DecodedEvent, EventLog, TopicFilter } from "./types/EventLog";
+import type { HashAlgorithm, HashFunction } from "./types/HashFunction";
+import type {
+  MerkleMultiProof,
+  MerkleProof,
+  MerkleProofNode,
+} from "./types/MerkleProof";
+import type {
+  MerkleStrategy,
+  MerkleTreeOptions,
+  MerkleTreeTags,
+} from "./types/MerkleTreeOptions";
 import type { Parameters } from "./types/Parameters";
+import type { RlpInput, RlpValue } from "./types/RlpInput";
 import type { TemplateField } from "./types/TemplateField";
+import type { TemplateFieldSchema } from "./types/TemplateFieldSchema";
 
 // import classes
 import { Block } from "./abstract/Block";
 import { Transaction } from "./abstract/Transaction";
 import { Wallet } from "./abstract/Wallet";
+import { BitReader } from "./buffer/BitReader";
+import { BitWriter } from "./buffer/BitWriter";
+import { Codecs } from "./buffer/Codecs";
 import { Reader } from "./buffer/Reader";
+import { SizeWriter } from "./buffer/SizeWriter";
+import { StreamReader } from "./buffer/StreamReader";
+import { Struct } from "./buffer/Struct";
 import { Template } from "./buffer/Template";
 import { Writer } from "./buffer/Writer";
+import { Abi } from "./encoding/Abi";
+import { Base58 } from "./encoding/Base58";
+import { Bech32 } from "./encoding/Bech32";
+import { Borsh } from "./encoding/Borsh";
+import { Rlp } from "./encoding/Rlp";
+import { Scale } from "./encoding/Scale";
+import { Hashes } from "./hashes/Hashes";
 import { MerkleTree } from "./struct/MerkleTree";
 
+// import errors
+import { BufferOverflowError } from "./errors/BufferOverflowError";
+import { BufferUnderflowError } from "./errors/BufferUnderflowError";
+import { ChecksumError } from "./errors/ChecksumError";
+import { IntegerOverflowError } from "./errors/IntegerOverflowError";
+import { InvalidEncodingError } from "./errors/InvalidEncodingError";
+import { NonCanonicalEncodingError } from "./errors/NonCanonicalEncodingError";
+
 // export named modules as default
-export { Block, MerkleTree, Reader, Template, Transaction, Wallet, Writer };
+export {
+  Abi,
+  Base58,
+  Bech32,
+  BitReader,
+  BitWriter,
+  Block,
+  Borsh,
+  Codecs,
+  Hashes,
+  MerkleTree,
+  Reader,
+  Rlp,
+  Scale,
+  SizeWriter,
+  StreamReader,
+  Struct,
+  Template,
+  Transaction,
+  Wallet,
+  Writer,
+};
+
+// export errors
+export {
+  BufferOverflowError,
+  BufferUnderflowError,
+  ChecksumError,
+  IntegerOverflowError,
+  InvalidEncodingError,
+  NonCanonicalEncodingError,
+};
 
 // export *types* explicitly
-export type { Parameters, TemplateField };
+export type {
+  AbiItem,
+  AbiParameter,
+  Bech32Result,
+  Bech32Variant,
+  Codec,
+  CodecValue,
+  DecodedEvent,
+  EventLog,
+  HashAlgorithm,
+  HashFunction,
+  MerkleMultiProof,
+  MerkleProof,
+  MerkleProofNode,
+  MerkleStrategy,
+  MerkleTreeOptions,
+  MerkleTreeTags,
+  Parameters,
+  ResultValue,
+  RlpInput,
+  RlpValue,
+  SegwitAddress,
+  StructSchema,
+  StructValue,
+  TemplateField,
+  TemplateFieldSchema,
+  TopicFilter,
+  TupleValue,
+  UnionValue,
+};
@@ -136,6 +136,9 @@ export abstract class Block {
    * network.
    * <br /><br />
    * Implementations for this method may vary from one network to the other.
+   * <br /><br />
+   * Implementations should use a *strict* {@link Reader} (the default) such
+   * that truncated binary data is rejected with a {@link BufferUnderflowError}.
    *
    * @abstract
    * @access public
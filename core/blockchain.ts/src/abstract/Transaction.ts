@@ -10,6 +10,8 @@
  */
 // internal dependencies
 import { Reader } from "../buffer/Reader";
+import type { Abi } from "../encoding/Abi";
+import type { DecodedEvent, EventLog } from "../types/EventLog";
 
 /**
  * @abstract
@@ -87,6 +89,34 @@ export abstract class Transaction {
     return this.buffer;
   }
 
+  /**
+   * Get the event logs that were emitted during the execution of a
+   * transaction, e.g. the `logs` of an Ethereum transaction receipt.
+   * <br /><br />
+   * This method returns an empty list by default and should be
+   * overloaded in child classes of networks that support event logs.
+   *
+   * @access public
+   * @returns {EventLog[]}
+   */
+  public getLogs(): EventLog[] {
+    return [];
+  }
+
+  /**
+   * Decodes the event logs of a transaction using a contract {@link abi},
+   * i.e. the logs as returned by {@link getLogs}. Logs of events that
+   * are not part of the ABI are skipped.
+   *
+   * @access public
+   * @param   {Abi}     abi       The contract ABI.
+   * @param   {string}  address   (Optional) Only decode logs emitted by this contract address.
+   * @returns {DecodedEvent[]}  The decoded events, in order.
+   */
+  public decodeLogs(abi: Abi, address?: string): DecodedEvent[] {
+    return abi.decodeEventLogs(this.getLogs(), address);
+  }
+
   /**
    * Get the cryptographic hash of a transaction, which serves as the primary
    * identifier of a transaction - the transaction hash.
@@ -116,6 +146,9 @@ export abstract class Transaction {
    * network.
    * <br /><br />
    * Implementations for this method may vary from one network to the other.
+   * <br /><br />
+   * Implementations should use a *strict* {@link Reader} (the default) such
+   * that truncated binary data is rejected with a {@link BufferUnderflowError}.
    *
    * @abstract
    * @access public
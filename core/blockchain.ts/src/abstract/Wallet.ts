@@ -79,7 +79,9 @@ export abstract class Wallet {
   /**
    * Get the address representation of a {@link publicKey}.
    * <br /><br />
-   * Implementations for this method may vary from one network to the other.
+   * Implementations for this method may vary from one network to the other,
+   * e.g. legacy Bitcoin addresses are encoded with {@link Base58.encodeCheck}
+   * and native segwit addresses with {@link Bech32.encodeSegwit}.
    *
    * @abstract
    * @access public
@@ -0,0 +1,208 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { BufferUnderflowError } from "../errors/BufferUnderflowError";
+
+/**
+ * @class BitReader
+ * @description This class serves as a *bit-level* buffer reader, e.g. to
+ * read Golomb-coded sets (BIP158), the flag bits of partial merkle trees
+ * or packed bitfields. Contrary to {@link Reader}, the cursor is moved by
+ * single bits and its' {@link offset} is expressed in *bits*.
+ * <br /><br />
+ * Bits are read starting with the *most significant* bit of every byte
+ * by default (MSB-first), as used in BIP158. Use `msbFirst = false` to
+ * read the *least significant* bit first (LSB-first), as used in the
+ * flag bits of partial merkle trees (BIP37).
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link BitReader} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `buffer` | `Uint8Array` | **Required** | Contains the buffer being read by this reader instance. |
+ * | `msbFirst` | `boolean` | **Optional** | Contains whether the most significant bit of bytes is read first, defaults to `true`. |
+ *
+ * <br /><br />
+ * @example Using the `BitReader` class
+ * ```ts
+ * const reader = new BitReader(Buffer.from("b4", "hex")); // 10110100
+ * reader.readBits(3); // 5n (101)
+ * reader.readBit(); // 1
+ * reader.alignToByte().isEOF(); // true
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link BitWriter}, {@link Reader}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class BitReader {
+  /**
+   * Contains the size of the buffer, in *bits*.
+   *
+   * @access public
+   * @var {number}
+   */
+  public size: number;
+
+  /**
+   * Contains the offset (position) of the cursor, in *bits*.
+   *
+   * @access public
+   * @var {number}
+   */
+  public offset: number = 0;
+
+  /**
+   * Constructs a bit reader object around a {@link buffer}.
+   *
+   * @access public
+   * @param   {Uint8Array}  buffer      The buffer (binary data).
+   * @param   {boolean}     msbFirst    (Optional) Whether the most significant bit is read first.
+   */
+  public constructor(
+    /**
+     * Contains the buffer that is being read by this reader.
+     *
+     * @access public
+     * @var {Uint8Array}
+     */
+    public buffer: Uint8Array,
+
+    /**
+     * Contains whether the most significant bit of every byte is read
+     * first (MSB-first) or the least significant bit (LSB-first).
+     *
+     * @access public
+     * @var {boolean}
+     */
+    public msbFirst: boolean = true,
+  ) {
+    this.size = buffer.byteLength * 8;
+  }
+
+  /**
+   * Reads exactly one (1) bit and returns its' number value, i.e. `0`
+   * or `1`.
+   *
+   * @access public
+   * @returns {number}  The value of the bit at the current offset.
+   * @throws  {BufferUnderflowError}  Given no remaining bits.
+   */
+  public readBit(): number {
+    return Number(this.readBits(1));
+  }
+
+  /**
+   * Reads exactly {@link n} bits and returns their bigint value. Up to
+   * 64 bits can be read at once.
+   * <br /><br />
+   * In MSB-first mode, the first bit read is the *most* significant bit
+   * of the value, whereas in LSB-first mode, the first bit read is the
+   * *least* significant bit of the value.
+   *
+   * @access public
+   * @param   {number}  n     The number of bits to read (0-64).
+   * @returns {bigint}  The unsigned value of the bits at the current offset.
+   * @throws  {RangeError}  Given a number of bits that is not between 0 and 64.
+   * @throws  {BufferUnderflowError}  Given fewer than {@link n} remaining bits.
+   */
+  public readBits(n: number): bigint {
+    if (!Number.isInteger(n) || n < 0 || n > 64) {
+      throw new RangeError(`Cannot read ${n} bits, must be between 0 and 64.`);
+    }
+
+    if (this.offset + n > this.size) {
+      throw new BufferUnderflowError(
+        `Cannot read ${n} bits at bit offset ${this.offset}, only ${this.remaining()} bits available.`,
+        this.offset,
+        n,
+        this.remaining(),
+      );
+    }
+
+    let value = 0n,
+      shift = 0n;
+    while (n > 0) {
+      const byte = this.buffer[this.offset >> 3],
+        position = this.offset & 7,
+        count = Math.min(8 - position, n),
+        mask = (1 << count) - 1;
+
+      if (this.msbFirst) {
+        const bits = (byte >> (8 - position - count)) & mask;
+        value = (value << BigInt(count)) | BigInt(bits);
+      } else {
+        const bits = (byte >> position) & mask;
+        value |= BigInt(bits) << shift;
+        shift += BigInt(count);
+      }
+
+      this.offset += count;
+      n -= count;
+    }
+
+    return value;
+  }
+
+  /**
+   * Moves the cursor to the start of the next byte, unless it is already
+   * aligned to a byte boundary. The skipped (padding) bits are ignored.
+   *
+   * @access public
+   * @returns {BitReader}  The reader instance.
+   */
+  public alignToByte(): BitReader {
+    this.offset = Math.min(this.size, Math.ceil(this.offset / 8) * 8);
+    return this;
+  }
+
+  /**
+   * Returns whether the cursor is aligned to a byte boundary.
+   *
+   * @access public
+   * @returns {boolean}  True if the offset is a multiple of 8 bits.
+   */
+  public isAligned(): boolean {
+    return this.offset % 8 === 0;
+  }
+
+  /**
+   * Returns the offset (position) of the *byte* that contains the bit
+   * at the current offset.
+   *
+   * @access public
+   * @returns {number}  The current offset, in bytes (rounded down).
+   */
+  public byteOffset(): number {
+    return this.offset >> 3;
+  }
+
+  /**
+   * Returns the number of bits that remain to be read.
+   *
+   * @access public
+   * @returns {number}  The number of remaining bits.
+   */
+  public remaining(): number {
+    return Math.max(0, this.size - this.offset);
+  }
+
+  /**
+   * Returns whether the end of the buffer has been reached.
+   *
+   * @access public
+   * @returns {boolean}  True if no bits remain to be read.
+   */
+  public isEOF(): boolean {
+    return this.offset >= this.size;
+  }
+}
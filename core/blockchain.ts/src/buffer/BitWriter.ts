@@ -0,0 +1,198 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { IntegerOverflowError } from "../errors/IntegerOverflowError";
+import { Writer } from "./Writer";
+
+/**
+ * @class BitWriter
+ * @description This class serves as a *bit-level* buffer writer, e.g. to
+ * write Golomb-coded sets (BIP158), the flag bits of partial merkle trees
+ * or packed bitfields. The buffer is grown automatically and the cursor
+ * {@link offset} is expressed in *bits*.
+ * <br /><br />
+ * Bits are written starting with the *most significant* bit of every
+ * byte by default (MSB-first). Use `msbFirst = false` to write the
+ * *least significant* bit first (LSB-first). Any incomplete last byte
+ * is padded with zero bits by {@link finish}.
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link BitWriter} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `msbFirst` | `boolean` | **Optional** | Contains whether the most significant bit of bytes is written first, defaults to `true`. |
+ *
+ * <br /><br />
+ * @example Using the `BitWriter` class
+ * ```ts
+ * const data = new BitWriter()
+ *   .writeBits(5, 3) // 101
+ *   .writeBit(1)
+ *   .finish();
+ *
+ * data.toString("hex"); // b0 (10110000)
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link BitReader}, {@link Writer}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class BitWriter {
+  /**
+   * Contains the buffer that is being written to, which is replaced
+   * by a bigger buffer when it is full.
+   *
+   * @access public
+   * @var {Buffer}
+   */
+  public buffer: Buffer = Buffer.alloc(Writer.DEFAULT_CAPACITY);
+
+  /**
+   * Contains the offset (position) of the cursor, in *bits*.
+   *
+   * @access public
+   * @var {number}
+   */
+  public offset: number = 0;
+
+  /**
+   * Constructs an empty bit writer object.
+   *
+   * @access public
+   * @param   {boolean}   msbFirst    (Optional) Whether the most significant bit is written first.
+   */
+  public constructor(
+    /**
+     * Contains whether the most significant bit of every byte is written
+     * first (MSB-first) or the least significant bit (LSB-first).
+     *
+     * @access public
+     * @var {boolean}
+     */
+    public msbFirst: boolean = true,
+  ) {}
+
+  /**
+   * Writes exactly one (1) bit, i.e. `0` or `1`.
+   *
+   * @access public
+   * @param   {number | boolean}  v     The value of the bit.
+   * @returns {BitWriter}  The writer instance to permit chaining of method calls.
+   */
+  public writeBit(v: number | boolean): BitWriter {
+    return this.writeBits(v ? 1n : 0n, 1);
+  }
+
+  /**
+   * Writes the {@link n} least significant bits of {@link v}. Up to 64
+   * bits can be written at once.
+   * <br /><br />
+   * In MSB-first mode, the *most* significant bit of the value is written
+   * first, whereas in LSB-first mode, the *least* significant bit of the
+   * value is written first.
+   *
+   * @access public
+   * @param   {number | bigint}   v     The unsigned value to write.
+   * @param   {number}            n     The number of bits to write (0-64).
+   * @returns {BitWriter}  The writer instance to permit chaining of method calls.
+   * @throws  {RangeError}  Given a number of bits that is not between 0 and 64, or a negative value.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link n} bits.
+   */
+  public writeBits(v: number | bigint, n: number): BitWriter {
+    if (!Number.isInteger(n) || n < 0 || n > 64) {
+      throw new RangeError(`Cannot write ${n} bits, must be between 0 and 64.`);
+    }
+
+    let value = BigInt(v);
+    if (value < 0n) {
+      throw new RangeError(`Bit value ${value} must not be negative.`);
+    } else if (value >> BigInt(n) !== 0n) {
+      throw new IntegerOverflowError(
+        `Bit value ${value} does not fit in ${n} bits.`,
+        n,
+      );
+    }
+
+    this.reserve(n);
+    while (n > 0) {
+      const index = this.offset >> 3,
+        position = this.offset & 7,
+        count = Math.min(8 - position, n),
+        mask = (1n << BigInt(count)) - 1n;
+
+      if (this.msbFirst) {
+        const bits = Number((value >> BigInt(n - count)) & mask);
+        this.buffer[index] |= bits << (8 - position - count);
+      } else {
+        const bits = Number(value & mask);
+        this.buffer[index] |= bits << position;
+        value >>= BigInt(count);
+      }
+
+      this.offset += count;
+      n -= count;
+    }
+
+    return this;
+  }
+
+  /**
+   * Moves the cursor to the start of the next byte, unless it is already
+   * aligned to a byte boundary. The skipped (padding) bits are zeros.
+   *
+   * @access public
+   * @returns {BitWriter}  The writer instance to permit chaining of method calls.
+   */
+  public alignToByte(): BitWriter {
+    const padding = (8 - (this.offset % 8)) % 8;
+    return this.writeBits(0n, padding);
+  }
+
+  /**
+   * Returns whether the cursor is aligned to a byte boundary.
+   *
+   * @access public
+   * @returns {boolean}  True if the offset is a multiple of 8 bits.
+   */
+  public isAligned(): boolean {
+    return this.offset % 8 === 0;
+  }
+
+  /**
+   * Returns the bytes that have been written, where any incomplete last
+   * byte is padded with zero bits.
+   *
+   * @access public
+   * @returns {Buffer}  The written bytes.
+   */
+  public finish(): Buffer {
+    return this.buffer.subarray(0, Math.ceil(this.offset / 8));
+  }
+
+  /**
+   * Grows (doubles) the buffer if fewer than {@link bits} bits remain
+   * available after the current offset. Because new buffers are filled
+   * with zeros, bits can be written by setting them.
+   *
+   * @access protected
+   * @param   {number}  bits    The number of bits to be written.
+   * @returns {void}
+   */
+  protected reserve(bits: number): void {
+    const minimum = Math.ceil((this.offset + bits) / 8);
+    if (minimum > this.buffer.length) {
+      const buffer = Buffer.alloc(Math.max(minimum, this.buffer.length * 2));
+      buffer.set(this.buffer);
+      this.buffer = buffer;
+    }
+  }
+}
@@ -0,0 +1,679 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { BufferUnderflowError } from "../errors/BufferUnderflowError";
+import { InvalidEncodingError } from "../errors/InvalidEncodingError";
+import type { Codec, CodecValue, UnionValue } from "../types/Codec";
+import type { Reader } from "./Reader";
+
+/**
+ * @class Codecs
+ * @description This class contains the *primitive* codecs that are used
+ * to describe typed schemas with {@link Template.struct}.
+ * <br /><br />
+ * Multi-byte integers use a *little-endian* byte order, unless the
+ * name of the codec ends with `be` (big-endian). Integers of up to
+ * 32 bits are represented as numbers, wider integers as bigints.
+ * <br /><br />
+ * *Composite* codecs, e.g. {@link vector}, {@link when} or {@link union},
+ * are created from other codecs, and {@link Struct} instances can be
+ * used as codecs of nested objects.
+ * <br /><br />
+ * @example Using the `Codecs` class
+ * ```ts
+ * const Header = Template.struct({
+ *   version: Codecs.u32,
+ *   prevHash: Codecs.bytes(32),
+ *   count: Codecs.varint,
+ * });
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Struct}, {@link Template}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Codecs {
+  /**
+   * Codec for an unsigned 8-bit integer.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static u8: Codec<number> = {
+    encode: (writer, value) => writer.writeUint8(value),
+    decode: (reader) => reader.readUint8(),
+  };
+
+  /**
+   * Codec for a signed 8-bit integer.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static i8: Codec<number> = {
+    encode: (writer, value) => writer.writeInt8(value),
+    decode: (reader) => reader.readInt8(),
+  };
+
+  /**
+   * Codec for an unsigned 16-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static u16: Codec<number> = {
+    encode: (writer, value) => writer.writeUint16(value, true),
+    decode: (reader) => reader.readUint16(true),
+  };
+
+  /**
+   * Codec for an unsigned 16-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static u16be: Codec<number> = {
+    encode: (writer, value) => writer.writeUint16(value, false),
+    decode: (reader) => reader.readUint16(false),
+  };
+
+  /**
+   * Codec for a signed 16-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static i16: Codec<number> = {
+    encode: (writer, value) => writer.writeInt16(value, true),
+    decode: (reader) => reader.readInt16(true),
+  };
+
+  /**
+   * Codec for a signed 16-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static i16be: Codec<number> = {
+    encode: (writer, value) => writer.writeInt16(value, false),
+    decode: (reader) => reader.readInt16(false),
+  };
+
+  /**
+   * Codec for an unsigned 32-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static u32: Codec<number> = {
+    encode: (writer, value) => writer.writeUint32(value, true),
+    decode: (reader) => reader.readUint32(true),
+  };
+
+  /**
+   * Codec for an unsigned 32-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static u32be: Codec<number> = {
+    encode: (writer, value) => writer.writeUint32(value, false),
+    decode: (reader) => reader.readUint32(false),
+  };
+
+  /**
+   * Codec for a signed 32-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static i32: Codec<number> = {
+    encode: (writer, value) => writer.writeInt32(value, true),
+    decode: (reader) => reader.readInt32(true),
+  };
+
+  /**
+   * Codec for a signed 32-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static i32be: Codec<number> = {
+    encode: (writer, value) => writer.writeInt32(value, false),
+    decode: (reader) => reader.readInt32(false),
+  };
+
+  /**
+   * Codec for an unsigned 64-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static u64: Codec<bigint> = {
+    encode: (writer, value) => writer.writeUint64(value, true),
+    decode: (reader) => reader.readUint64(true),
+  };
+
+  /**
+   * Codec for an unsigned 64-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static u64be: Codec<bigint> = {
+    encode: (writer, value) => writer.writeUint64(value, false),
+    decode: (reader) => reader.readUint64(false),
+  };
+
+  /**
+   * Codec for a signed 64-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static i64: Codec<bigint> = {
+    encode: (writer, value) => writer.writeInt64(value, true),
+    decode: (reader) => reader.readInt64(true),
+  };
+
+  /**
+   * Codec for a signed 64-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static i64be: Codec<bigint> = {
+    encode: (writer, value) => writer.writeInt64(value, false),
+    decode: (reader) => reader.readInt64(false),
+  };
+
+  /**
+   * Codec for an unsigned 128-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static u128: Codec<bigint> = {
+    encode: (writer, value) => writer.writeUint128(value, true),
+    decode: (reader) => reader.readUint128(true),
+  };
+
+  /**
+   * Codec for an unsigned 128-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static u128be: Codec<bigint> = {
+    encode: (writer, value) => writer.writeUint128(value, false),
+    decode: (reader) => reader.readUint128(false),
+  };
+
+  /**
+   * Codec for a signed 128-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static i128: Codec<bigint> = {
+    encode: (writer, value) => writer.writeInt128(value, true),
+    decode: (reader) => reader.readInt128(true),
+  };
+
+  /**
+   * Codec for a signed 128-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static i128be: Codec<bigint> = {
+    encode: (writer, value) => writer.writeInt128(value, false),
+    decode: (reader) => reader.readInt128(false),
+  };
+
+  /**
+   * Codec for an unsigned 256-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static u256: Codec<bigint> = {
+    encode: (writer, value) => writer.writeUint256(value, true),
+    decode: (reader) => reader.readUint256(true),
+  };
+
+  /**
+   * Codec for an unsigned 256-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static u256be: Codec<bigint> = {
+    encode: (writer, value) => writer.writeUint256(value, false),
+    decode: (reader) => reader.readUint256(false),
+  };
+
+  /**
+   * Codec for a signed 256-bit integer, in little-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static i256: Codec<bigint> = {
+    encode: (writer, value) => writer.writeInt256(value, true),
+    decode: (reader) => reader.readInt256(true),
+  };
+
+  /**
+   * Codec for a signed 256-bit integer, in big-endian byte order.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static i256be: Codec<bigint> = {
+    encode: (writer, value) => writer.writeInt256(value, false),
+    decode: (reader) => reader.readInt256(false),
+  };
+
+  /**
+   * Codec for a boolean, encoded as one (1) byte with value `0` or `1`.
+   *
+   * @static
+   * @access public
+   * @var {Codec<boolean>}
+   * @throws  {InvalidEncodingError}  Given a byte that is neither `0` nor `1` when decoding.
+   */
+  public static bool: Codec<boolean> = {
+    encode: (writer, value) => writer.writeUint8(value ? 1 : 0),
+    decode: (reader) => {
+      const offset = reader.offset;
+      const value = reader.readUint8();
+      if (value > 1) {
+        throw new InvalidEncodingError(
+          `Boolean at offset ${offset} must be 0 or 1, got ${value}.`,
+          offset,
+        );
+      }
+
+      return value === 1;
+    },
+  };
+
+  /**
+   * Codec for the *unit* type `()`, which is encoded without bytes, e.g.
+   * for variants of a {@link union} without value.
+   *
+   * @static
+   * @access public
+   * @var {Codec<null>}
+   */
+  public static unit: Codec<null> = {
+    encode: () => undefined,
+    decode: () => null,
+  };
+
+  /**
+   * Codec for a *CompactSize* variable-length integer, as a number.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   */
+  public static varint: Codec<number> = {
+    encode: (writer, value) => writer.writeVarInt(value),
+    decode: (reader) => reader.readVarInt(),
+  };
+
+  /**
+   * Codec for a *CompactSize* variable-length integer, as a bigint.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   */
+  public static bigVarint: Codec<bigint> = {
+    encode: (writer, value) => writer.writeVarInt(value),
+    decode: (reader) => reader.readBigVarInt(),
+  };
+
+  /**
+   * Codec for a buffer that is prefixed with its' *CompactSize* length.
+   *
+   * @static
+   * @access public
+   * @var {Codec<Uint8Array>}
+   */
+  public static varbytes: Codec<Uint8Array> = {
+    encode: (writer, value) => writer.writeVarBytes(value),
+    decode: (reader) => reader.readVarBytes(),
+  };
+
+  /**
+   * Creates a codec for a buffer of *exactly* {@link length} bytes, e.g.
+   * `bytes(32)` for a hash.
+   *
+   * @static
+   * @access public
+   * @param   {number}  length    The number of bytes of the buffer.
+   * @returns {Codec<Uint8Array>}  A codec for buffers of {@link length} bytes.
+   * @throws  {RangeError}  Given a buffer of a different length when encoding.
+   */
+  public static bytes(length: number): Codec<Uint8Array> {
+    return {
+      encode: (writer, value) => {
+        if (value.byteLength !== length) {
+          throw new RangeError(
+            `Buffer of ${value.byteLength} bytes must contain exactly ${length} bytes.`,
+          );
+        }
+
+        writer.writeBuffer(value);
+      },
+      decode: (reader) => reader.readBuffer(length),
+    };
+  }
+
+  /**
+   * Creates a codec for an array of values that is prefixed with its'
+   * *CompactSize* number of items, e.g. the inputs of a transaction.
+   * <br /><br />
+   * Unless a {@link maxLength} is given, items must consume at least one
+   * (1) byte each, which bounds the number of items by the input size.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}  codec       The codec of the items.
+   * @param   {number}    maxLength   (Optional) The maximum number of items, required for items without bytes.
+   * @returns {Codec<T[]>}  A codec for length-prefixed arrays.
+   * @throws  {InvalidEncodingError}  Given more than {@link maxLength} items when decoding.
+   * @throws  {BufferUnderflowError}  Given more items than remaining bytes when decoding.
+   */
+  public static vector<T>(codec: Codec<T>, maxLength?: number): Codec<T[]> {
+    return {
+      encode: (writer, value) => {
+        writer.writeVarInt(value.length);
+        value.forEach((item) => codec.encode(writer, item));
+      },
+      decode: (reader) =>
+        Codecs.decodeItems(reader, codec, reader.readVarInt(), maxLength),
+    };
+  }
+
+  /**
+   * Creates a codec for an array of a *fixed* number of values, without
+   * prefix. The number of items can be a constant or can be computed from
+   * the parent object, e.g. one witness per transaction input.
+   *
+   * <br /><br />
+   * Unless a {@link maxLength} is given, items must consume at least one
+   * (1) byte each, which bounds the number of items by the input size.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}  codec   The codec of the items.
+   * @param   {number | ((parent: Record<string, any>) => number)}  count   The number of items.
+   * @param   {number}    maxLength   (Optional) The maximum number of items, required for items without bytes.
+   * @returns {Codec<T[]>}  A codec for fixed-count arrays.
+   * @throws  {RangeError}  Given an array with a different number of items when encoding.
+   * @throws  {InvalidEncodingError}  Given more than {@link maxLength} items when decoding.
+   * @throws  {BufferUnderflowError}  Given more items than remaining bytes when decoding.
+   */
+  public static array<T>(
+    codec: Codec<T>,
+    count: number | ((parent: Record<string, any>) => number),
+    maxLength?: number,
+  ): Codec<T[]> {
+    const getCount = (parent: Record<string, any> = {}) =>
+      typeof count === "number" ? count : count(parent);
+
+    return {
+      encode: (writer, value, parent) => {
+        const expected = getCount(parent);
+        if (value.length !== expected) {
+          throw new RangeError(
+            `Array of ${value.length} items must contain exactly ${expected} items.`,
+          );
+        }
+
+        value.forEach((item) => codec.encode(writer, item));
+      },
+      decode: (reader, parent) =>
+        Codecs.decodeItems(reader, codec, getCount(parent), maxLength),
+    };
+  }
+
+  /**
+   * Creates a codec for an *optional* value that is prefixed with one (1)
+   * presence byte, i.e. `0` if the value is `undefined`, `1` otherwise.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}  codec   The codec of the value.
+   * @returns {Codec<T | undefined>}  A codec for optional values.
+   * @throws  {InvalidEncodingError}  Given a presence byte that is neither `0` nor `1` when decoding.
+   */
+  public static optional<T>(codec: Codec<T>): Codec<T | undefined> {
+    return {
+      encode: (writer, value) => {
+        writer.writeUint8(value === undefined ? 0 : 1);
+        if (value !== undefined) {
+          codec.encode(writer, value);
+        }
+      },
+      decode: (reader) => {
+        const offset = reader.offset;
+        const prefix = reader.readUint8();
+        if (prefix > 1) {
+          throw new InvalidEncodingError(
+            `Option at offset ${offset} must be prefixed with 0 or 1, got ${prefix}.`,
+            offset,
+          );
+        }
+
+        return prefix === 1 ? codec.decode(reader) : undefined;
+      },
+    };
+  }
+
+  /**
+   * Creates a codec for an *optional* value that is present only if a
+   * {@link condition} on the parent object is met, e.g. the witnesses of
+   * a transaction that uses the segregated witness format. No bytes are
+   * read or written if the condition is not met.
+   *
+   * @static
+   * @access public
+   * @param   {(parent: Record<string, any>) => boolean}  condition   The condition on the parent object.
+   * @param   {Codec<T>}  codec   The codec of the value.
+   * @returns {Codec<T | undefined>}  A codec for conditional values.
+   * @throws  {RangeError}  Given a missing value when encoding and the condition is met.
+   */
+  public static when<T>(
+    condition: (parent: Record<string, any>) => boolean,
+    codec: Codec<T>,
+  ): Codec<T | undefined> {
+    return {
+      encode: (writer, value, parent) => {
+        if (!condition(parent ?? {})) {
+          return;
+        } else if (value === undefined) {
+          throw new RangeError(`Conditional value must be present.`);
+        }
+
+        codec.encode(writer, value, parent);
+      },
+      decode: (reader, parent) =>
+        condition(parent ?? {}) ? codec.decode(reader, parent) : undefined,
+    };
+  }
+
+  /**
+   * Creates a codec for a boolean *flag* that is represented by the
+   * presence of the {@link marker} bytes, e.g. the `0001` marker and
+   * flag bytes of segregated witness transactions. The marker bytes
+   * are consumed only if they are present.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  marker    The bytes that are present if the flag is set.
+   * @returns {Codec<boolean>}  A codec for marker flags.
+   */
+  public static flag(marker: Uint8Array): Codec<boolean> {
+    return {
+      encode: (writer, value) => {
+        if (value) {
+          writer.writeBuffer(marker);
+        }
+      },
+      decode: (reader) => {
+        if (
+          reader.remaining() < marker.byteLength ||
+          Buffer.compare(reader.peekBuffer(marker.byteLength), marker) !== 0
+        ) {
+          return false;
+        }
+
+        reader.skip(marker.byteLength);
+        return true;
+      },
+    };
+  }
+
+  /**
+   * Creates a codec for a *discriminated union*, i.e. a value that is
+   * prefixed with a {@link tag} that determines which of the codecs of
+   * {@link variants} is used. Values are objects with the `kind` (tag)
+   * and the `value` of the variant.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<number>}   tag         The codec of the tag, e.g. {@link u8}.
+   * @param   {V}               variants    The codecs of the variants, by tag.
+   * @returns {Codec<UnionValue<V>>}  A codec for discriminated unions.
+   * @throws  {RangeError}  Given an unknown tag when encoding.
+   * @throws  {InvalidEncodingError}  Given an unknown tag when decoding.
+   */
+  public static union<V extends Record<number, Codec<any>>>(
+    tag: Codec<number>,
+    variants: V,
+  ): Codec<UnionValue<V>> {
+    return {
+      encode: (writer, value) => {
+        const kind = Number(value.kind);
+        if (!Object.prototype.hasOwnProperty.call(variants, kind)) {
+          throw new RangeError(`Unknown union tag ${kind}.`);
+        }
+
+        const codec: Codec<CodecValue<V[keyof V]>> = variants[kind];
+        tag.encode(writer, kind);
+        codec.encode(writer, value.value);
+      },
+      decode: (reader) => {
+        const offset = reader.offset;
+        const kind = tag.decode(reader);
+        if (!Object.prototype.hasOwnProperty.call(variants, kind)) {
+          throw new InvalidEncodingError(
+            `Union tag ${kind} at offset ${offset} is unknown.`,
+            offset,
+          );
+        }
+
+        return { kind, value: variants[kind].decode(reader) } as UnionValue<V>;
+      },
+    };
+  }
+
+  /**
+   * Creates a codec for an *enum*, i.e. a {@link union} that is prefixed
+   * with the one-byte index of its' variant, as used by SCALE and Borsh.
+   * Use {@link unit} for variants without value.
+   *
+   * @static
+   * @access public
+   * @param   {V}   variants    The codecs of the variants, by index.
+   * @returns {Codec<UnionValue<V>>}  A codec for enums.
+   * @throws  {RangeError}  Given an unknown variant index when encoding.
+   * @throws  {InvalidEncodingError}  Given an unknown variant index when decoding.
+   */
+  public static enumeration<V extends Record<number, Codec<any>>>(
+    variants: V,
+  ): Codec<UnionValue<V>> {
+    return Codecs.union(Codecs.u8, variants);
+  }
+
+  /**
+   * Decodes {@link count} items with a {@link codec}, where the number of
+   * items is read from untrusted input. Without {@link maxLength}, every
+   * item must consume at least one (1) byte, such that the number of items
+   * cannot exceed the number of remaining bytes.
+   *
+   * @static
+   * @access protected
+   * @param   {Reader}    reader      The reader instance.
+   * @param   {Codec<T>}  codec       The codec of the items.
+   * @param   {number}    count       The number of items.
+   * @param   {number}    maxLength   (Optional) The maximum number of items, e.g. for items without bytes.
+   * @returns {T[]}  The decoded items.
+   * @throws  {InvalidEncodingError}  Given more than {@link maxLength} items.
+   * @throws  {BufferUnderflowError}  Given more items than remaining bytes, without {@link maxLength}.
+   */
+  protected static decodeItems<T>(
+    reader: Reader,
+    codec: Codec<T>,
+    count: number,
+    maxLength?: number,
+  ): T[] {
+    const offset = reader.offset;
+    if (maxLength !== undefined && count > maxLength) {
+      throw new InvalidEncodingError(
+        `Array of ${count} items at offset ${offset} exceeds the maximum of ${maxLength} items.`,
+        offset,
+      );
+    } else if (maxLength === undefined && count > reader.remaining()) {
+      throw new BufferUnderflowError(
+        `Cannot read ${count} items at offset ${offset}, only ${reader.remaining()} bytes available.`,
+        offset,
+        count,
+        reader.remaining(),
+      );
+    }
+
+    const items: T[] = [];
+    for (let i = 0; i < count; i++) {
+      items.push(codec.decode(reader));
+    }
+
+    return items;
+  }
+}
@@ -9,6 +9,11 @@
  * @license     LGPL-3.0
  */
 
+// internal dependencies
+import { BufferUnderflowError } from "../errors/BufferUnderflowError";
+import { IntegerOverflowError } from "../errors/IntegerOverflowError";
+import { NonCanonicalEncodingError } from "../errors/NonCanonicalEncodingError";
+
 /**
  * @class Reader
  * @description This class serves as a base for buffer readers of any
@@ -22,6 +27,8 @@
  * | --- | --- | --- | --- |
  * | `buffer` | `Buffer` | **Required** | Contains the buffer being read by this reader instance. |
  * | `offset` | `number` | **Optional** | Contains the offset (position) at which this reader instance must start reading from the buffer. |
+ * | `littleEndian` | `boolean` | **Optional** | Contains the default byte order of multi-byte integers, defaults to little-endian (`true`). |
+ * | `strict` | `boolean` | **Optional** | Contains whether reading past the end of the buffer throws a {@link BufferUnderflowError}, defaults to `true`. |
  *
  * <br /><br />
  * @example Using the `Reader` class
@@ -29,6 +36,10 @@
  * const reader = new Reader(Buffer.from("0001", "hex"));
  * const fst_byte = reader.readUint8(); // 0
  * const snd_byte = reader.readUint8(); // 1
+ *
+ * // reading big-endian integers
+ * const be_reader = new Reader(Buffer.from("0001", "hex"), 0, false);
+ * const be_value = be_reader.readUint16(); // 1
  * ```
  * <br /><br />
  * #### Other links
@@ -55,13 +66,25 @@ export class Reader {
    */
   public data: DataView;
 
+  /**
+   * Contains the offset (position) that was saved with {@link mark}
+   * and to which the cursor is moved back with {@link reset}.
+   *
+   * @access protected
+   * @var {number}
+   */
+  protected marked: number = 0;
+
   /**
    * Constructs a reader object around a {@link buffer}, starting to read
    * at {@link offset}.
    *
    * @access public
-   * @param   {Buffer}   buffer  The buffer (binary data).
-   * @param   {number}   offset  The offset at which to start reading.
+   * @param   {Buffer}    buffer          The buffer (binary data).
+   * @param   {number}    offset          The offset at which to start reading.
+   * @param   {boolean}   littleEndian    The default byte order of multi-byte integers.
+   * @param   {boolean}   strict          Whether reading past the end of the buffer throws.
+   * @throws  {BufferUnderflowError}  Given a strict reader and an {@link offset} outside of the buffer.
    */
   public constructor(
     /**
@@ -76,12 +99,39 @@ export class Reader {
     /**
      * Contains the offset (position) at which this reader instance
      * must start reading from the buffer. In case the offset is too
-     * big or too small (negative), it will be automatically set to 0.
+     * big or too small (negative), a {@link BufferUnderflowError} is
+     * thrown, unless {@link strict} is disabled, in which case it will
+     * be automatically set to 0.
      *
      * @access public
      * @var {number}
      */
     public offset: number = 0,
+
+    /**
+     * Contains the default byte order that is used to read multi-byte
+     * integers, i.e. little-endian (`true`) or big-endian (`false`).
+     * <br /><br />
+     * Note that the byte order can also be specified with every call
+     * to read methods, e.g. using {@link readUint32BE}.
+     *
+     * @access public
+     * @var {boolean}
+     */
+    public littleEndian: boolean = true,
+
+    /**
+     * Contains whether this reader instance is *strict*, i.e. whether
+     * reading past the end of the buffer throws a {@link BufferUnderflowError}.
+     * <br /><br />
+     * When disabled, reading past the end of the buffer returns `undefined`
+     * bytes or *shortened* subarrays, which is discouraged when reading
+     * untrusted data, e.g. blocks received from peers.
+     *
+     * @access public
+     * @var {boolean}
+     */
+    public strict: boolean = true,
   ) {
     this.size = buffer.byteLength;
     this.data = new DataView(
@@ -91,7 +141,14 @@ export class Reader {
     );
 
     // do not allow position overflow
-    if (this.offset < 0 || this.offset >= buffer.length) {
+    if (this.strict && (this.offset < 0 || this.offset > this.size)) {
+      throw new BufferUnderflowError(
+        `Offset ${this.offset} is out of bounds of a ${this.size} bytes buffer.`,
+        this.offset,
+        0,
+        0,
+      );
+    } else if (!this.strict && (this.offset < 0 || this.offset >= this.size)) {
       this.offset = 0;
     }
   }
@@ -106,7 +163,7 @@ export class Reader {
    * @returns {number}  The value of the byte at the current offset.
    */
   public readUint8(): number {
-    return this.buffer[this.offset++];
+    return this.buffer[this.consume(1)];
   }
 
   /**
@@ -115,15 +172,39 @@ export class Reader {
    * <br /><br />
    * This method can be used to read numbers from 0 to 65_535.
    * <br /><br />
-   * Caution: this method expects the bytes to be aligned with a
-   * little-endian notation.
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
    *
    * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
    * @returns {number}  The value of the bytes starting at the current offset.
    */
-  public readUint16(): number {
-    this.offset += 2;
-    return this.data.getUint16(this.offset - 2, true); // true=littleEndian
+  public readUint16(littleEndian: boolean = this.littleEndian): number {
+    return this.data.getUint16(this.consume(2), littleEndian);
+  }
+
+  /**
+   * Reads exactly two (2) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value, using
+   * a *big-endian* byte order (see {@link readUint16}).
+   *
+   * @access public
+   * @returns {number}  The value of the bytes starting at the current offset.
+   */
+  public readUint16BE(): number {
+    return this.readUint16(false);
+  }
+
+  /**
+   * Reads exactly two (2) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value, using
+   * a *little-endian* byte order (see {@link readUint16}).
+   *
+   * @access public
+   * @returns {number}  The value of the bytes starting at the current offset.
+   */
+  public readUint16LE(): number {
+    return this.readUint16(true);
   }
 
   /**
@@ -132,15 +213,39 @@ export class Reader {
    * <br /><br />
    * This method can be used to read numbers from 0 to 4_294_967_295.
    * <br /><br />
-   * Caution: this method expects the bytes to be aligned with a
-   * little-endian notation.
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {number}  The value of the bytes starting at the current offset.
+   */
+  public readUint32(littleEndian: boolean = this.littleEndian): number {
+    return this.data.getUint32(this.consume(4), littleEndian);
+  }
+
+  /**
+   * Reads exactly four (4) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value, using
+   * a *big-endian* byte order (see {@link readUint32}).
    *
    * @access public
    * @returns {number}  The value of the bytes starting at the current offset.
    */
-  public readUint32(): number {
-    this.offset += 4;
-    return this.data.getUint32(this.offset - 4, true); // true=littleEndian
+  public readUint32BE(): number {
+    return this.readUint32(false);
+  }
+
+  /**
+   * Reads exactly four (4) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value, using
+   * a *little-endian* byte order (see {@link readUint32}).
+   *
+   * @access public
+   * @returns {number}  The value of the bytes starting at the current offset.
+   */
+  public readUint32LE(): number {
+    return this.readUint32(true);
   }
 
   /**
@@ -149,15 +254,175 @@ export class Reader {
    * <br /><br />
    * This method can be used to read numbers from 0 to 18_446_744_073_709_551_615.
    * <br /><br />
-   * Caution: this method expects the bytes to be aligned with a
-   * little-endian notation.
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {bigint}  The value of the bytes starting at the current offset.
+   */
+  public readUint64(littleEndian: boolean = this.littleEndian): bigint {
+    return this.data.getBigUint64(this.consume(8), littleEndian);
+  }
+
+  /**
+   * Reads exactly eight (8) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value, using
+   * a *big-endian* byte order (see {@link readUint64}).
+   *
+   * @access public
+   * @returns {bigint}  The value of the bytes starting at the current offset.
+   */
+  public readUint64BE(): bigint {
+    return this.readUint64(false);
+  }
+
+  /**
+   * Reads exactly eight (8) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value, using
+   * a *little-endian* byte order (see {@link readUint64}).
+   *
+   * @access public
+   * @returns {bigint}  The value of the bytes starting at the current offset.
+   */
+  public readUint64LE(): bigint {
+    return this.readUint64(true);
+  }
+
+  /**
+   * Reads exactly one (1) byte from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' signed number value.
+   * <br /><br />
+   * This method can be used to read numbers from -128 to 127.
+   *
+   * @access public
+   * @returns {number}  The value of the byte at the current offset.
+   */
+  public readInt8(): number {
+    return this.data.getInt8(this.consume(1));
+  }
+
+  /**
+   * Reads exactly two (2) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' signed number value.
+   * <br /><br />
+   * This method can be used to read numbers from -32_768 to 32_767.
+   * <br /><br />
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {number}  The value of the bytes starting at the current offset.
+   */
+  public readInt16(littleEndian: boolean = this.littleEndian): number {
+    return this.data.getInt16(this.consume(2), littleEndian);
+  }
+
+  /**
+   * Reads exactly four (4) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' signed number value.
+   * <br /><br />
+   * This method can be used to read numbers from -2_147_483_648 to 2_147_483_647.
+   * <br /><br />
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {number}  The value of the bytes starting at the current offset.
+   */
+  public readInt32(littleEndian: boolean = this.littleEndian): number {
+    return this.data.getInt32(this.consume(4), littleEndian);
+  }
+
+  /**
+   * Reads exactly eight (8) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' signed number value.
+   * <br /><br />
+   * This method can be used to read numbers from -9_223_372_036_854_775_808
+   * to 9_223_372_036_854_775_807.
+   * <br /><br />
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {bigint}  The value of the bytes starting at the current offset.
+   */
+  public readInt64(littleEndian: boolean = this.littleEndian): bigint {
+    return this.data.getBigInt64(this.consume(8), littleEndian);
+  }
+
+  /**
+   * Reads exactly sixteen (16) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' bigint value.
+   * <br /><br />
+   * This method can be used to read numbers from 0 to 2^128-1.
+   * <br /><br />
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {bigint}  The value of the bytes starting at the current offset.
+   */
+  public readUint128(littleEndian: boolean = this.littleEndian): bigint {
+    return this.readBigUint(16, littleEndian);
+  }
+
+  /**
+   * Reads exactly sixteen (16) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' signed bigint value.
+   * <br /><br />
+   * This method can be used to read numbers from -2^127 to 2^127-1, as
+   * encoded in two's complement notation.
+   * <br /><br />
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {bigint}  The value of the bytes starting at the current offset.
+   */
+  public readInt128(littleEndian: boolean = this.littleEndian): bigint {
+    return BigInt.asIntN(128, this.readBigUint(16, littleEndian));
+  }
+
+  /**
+   * Reads exactly thirty-two (32) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' bigint value.
+   * <br /><br />
+   * This method can be used to read numbers from 0 to 2^256-1, e.g. token
+   * balances on Ethereum or proof-of-work targets.
+   * <br /><br />
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
    *
    * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
    * @returns {bigint}  The value of the bytes starting at the current offset.
    */
-  public readUint64(): bigint {
-    this.offset += 8;
-    return this.data.getBigUint64(this.offset - 8, true); // true=littleEndian
+  public readUint256(littleEndian: boolean = this.littleEndian): bigint {
+    return this.readBigUint(32, littleEndian);
+  }
+
+  /**
+   * Reads exactly thirty-two (32) bytes from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' signed bigint value.
+   * <br /><br />
+   * This method can be used to read numbers from -2^255 to 2^255-1, as
+   * encoded in two's complement notation.
+   * <br /><br />
+   * Caution: this method expects the bytes to be aligned with the
+   * byte order of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {bigint}  The value of the bytes starting at the current offset.
+   */
+  public readInt256(littleEndian: boolean = this.littleEndian): bigint {
+    return BigInt.asIntN(256, this.readBigUint(32, littleEndian));
   }
 
   /**
@@ -169,10 +434,520 @@ export class Reader {
    * This method does not change the endianness of the buffer.
    *
    * @access public
+   * @param   {number}  size    The number of bytes to read.
    * @returns {Uint8Array}  A subarray of {@link buffer} with given {@link size} starting at the current offset.
    */
   public readBuffer(size: number): Uint8Array {
+    const offset = this.consume(size);
+    return this.buffer.subarray(offset, offset + size);
+  }
+
+  /**
+   * Reads exactly one (1) byte from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value, *without*
+   * moving the cursor.
+   * <br /><br />
+   * This method can be used to look ahead, e.g. to detect the segwit
+   * marker of a Bitcoin transaction.
+   *
+   * @access public
+   * @returns {number}  The value of the byte at the current offset.
+   */
+  public peekUint8(): number {
+    const offset = this.offset;
+    const value = this.readUint8();
+    this.offset = offset;
+    return value;
+  }
+
+  /**
+   * Reads a given {@link size} number of bytes from {@link buffer} with
+   * the cursor positioned at {@link offset} and returns a subarray,
+   * *without* moving the cursor.
+   *
+   * @access public
+   * @param   {number}  size    The number of bytes to read.
+   * @returns {Uint8Array}  A subarray of {@link buffer} with given {@link size} starting at the current offset.
+   */
+  public peekBuffer(size: number): Uint8Array {
+    const offset = this.offset;
+    const value = this.readBuffer(size);
+    this.offset = offset;
+    return value;
+  }
+
+  /**
+   * Moves the cursor to the *absolute* position {@link offset} in
+   * {@link buffer}.
+   *
+   * @access public
+   * @param   {number}  offset    The offset (position) to move the cursor to.
+   * @returns {Reader}  The reader instance to permit chaining of method calls.
+   * @throws  {BufferUnderflowError}  Given a strict reader and an {@link offset} outside of the buffer.
+   */
+  public seek(offset: number): Reader {
+    if (this.strict && (offset < 0 || offset > this.size)) {
+      throw new BufferUnderflowError(
+        `Offset ${offset} is out of bounds of a ${this.size} bytes buffer.`,
+        offset,
+        0,
+        0,
+      );
+    }
+
+    this.offset = offset;
+    return this;
+  }
+
+  /**
+   * Moves the cursor forward by {@link size} bytes, *without* reading
+   * the bytes in between.
+   *
+   * @access public
+   * @param   {number}  size    The number of bytes to skip.
+   * @returns {Reader}  The reader instance to permit chaining of method calls.
+   * @throws  {BufferUnderflowError}  Given a strict reader and less than {@link size} bytes available.
+   */
+  public skip(size: number): Reader {
+    this.consume(size);
+    return this;
+  }
+
+  /**
+   * Saves the current position of the cursor, such that it can be moved
+   * back to this position with {@link reset}.
+   * <br /><br />
+   * This method can be used to backtrack when parsing optional fields.
+   * Note that only the last marked position is saved.
+   *
+   * @access public
+   * @returns {Reader}  The reader instance to permit chaining of method calls.
+   */
+  public mark(): Reader {
+    this.marked = this.offset;
+    return this;
+  }
+
+  /**
+   * Moves the cursor back to the position that was saved with {@link mark},
+   * or to the start of the buffer if no position was saved.
+   *
+   * @access public
+   * @returns {Reader}  The reader instance to permit chaining of method calls.
+   */
+  public reset(): Reader {
+    this.offset = this.marked;
+    return this;
+  }
+
+  /**
+   * Returns the number of bytes that remain to be read from {@link buffer},
+   * starting at the current {@link offset}.
+   *
+   * @access public
+   * @returns {number}  The number of bytes remaining.
+   */
+  public remaining(): number {
+    return Math.max(0, this.size - this.offset);
+  }
+
+  /**
+   * Returns whether the cursor has reached the end of {@link buffer},
+   * i.e. whether there are no more bytes to be read.
+   *
+   * @access public
+   * @returns {boolean}  True if no bytes remain to be read.
+   */
+  public isEOF(): boolean {
+    return this.offset >= this.size;
+  }
+
+  /**
+   * Creates a *bounded* child reader around the next {@link length}
+   * bytes of {@link buffer} and moves the cursor of this reader past
+   * these bytes.
+   * <br /><br />
+   * The child reader shares the memory of {@link buffer} and uses the
+   * same byte order and strictness, but cannot read past its' bounds.
+   * This method can be used to parse nested structures of known size.
+   *
+   * @access public
+   * @param   {number}  length    The number of bytes of the child reader.
+   * @returns {Reader}  A reader around the next {@link length} bytes.
+   * @throws  {BufferUnderflowError}  Given a strict reader and less than {@link length} bytes available.
+   */
+  public subReader(length: number): Reader {
+    const offset = this.consume(length);
+    return new Reader(
+      this.buffer.subarray(offset, offset + length),
+      0,
+      this.littleEndian,
+      this.strict,
+    );
+  }
+
+  /**
+   * Reads a variable-length integer from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value.
+   * <br /><br />
+   * The integer must be encoded using the *CompactSize* format as used
+   * in Bitcoin, i.e. values below `0xFD` use one (1) byte and greater
+   * values are prefixed with `0xFD` (uint16), `0xFE` (uint32) or `0xFF`
+   * (uint64), followed by the little-endian value. The byte order of
+   * {@link littleEndian} does not apply to variable-length integers.
+   * <br /><br />
+   * This method can be used to read numbers from 0 to 9_007_199_254_740_991,
+   * use {@link readBigVarInt} to read bigger numbers.
+   *
+   * @access public
+   * @returns {number}  The value of the variable-length integer starting at the current offset.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is not encoded with the minimal number of bytes.
+   * @throws  {IntegerOverflowError}  Given a value that is bigger than `Number.MAX_SAFE_INTEGER`.
+   */
+  public readVarInt(): number {
+    return this.toSafeNumber(this.readBigVarInt());
+  }
+
+  /**
+   * Reads a variable-length integer from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' bigint value.
+   * <br /><br />
+   * The integer must be encoded using the *CompactSize* format, as
+   * described in {@link readVarInt}. Encodings that do not use the
+   * minimal number of bytes are rejected.
+   * <br /><br />
+   * This method can be used to read numbers from 0 to 18_446_744_073_709_551_615.
+   *
+   * @access public
+   * @returns {bigint}  The value of the variable-length integer starting at the current offset.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is not encoded with the minimal number of bytes.
+   */
+  public readBigVarInt(): bigint {
+    const offset = this.offset;
+    const prefix = this.readUint8();
+
+    // the prefix determines the width of the integer
+    // and the minimum value that requires that width
+    let value: bigint, minimum: bigint;
+    switch (prefix) {
+      case 0xfd:
+        value = BigInt(this.readUint16LE());
+        minimum = 0xfdn;
+        break;
+      case 0xfe:
+        value = BigInt(this.readUint32LE());
+        minimum = 0x10000n;
+        break;
+      case 0xff:
+        value = this.readUint64LE();
+        minimum = 0x100000000n;
+        break;
+      default:
+        return BigInt(prefix);
+    }
+
+    // do not allow non-canonical (non-minimal) encodings
+    if (value < minimum) {
+      throw new NonCanonicalEncodingError(
+        `Variable-length integer ${value} is not encoded canonically.`,
+        offset,
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Reads a variable-length buffer from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns a subarray.
+   * <br /><br />
+   * The buffer must be prefixed with its' byte-length, encoded as a
+   * variable-length integer (see {@link readVarInt}).
+   * <br /><br />
+   * This method does not change the endianness of the buffer.
+   *
+   * @access public
+   * @returns {Uint8Array}  A subarray of {@link buffer} with the length-prefixed bytes.
+   */
+  public readVarBytes(): Uint8Array {
+    return this.readBuffer(this.readVarInt());
+  }
+
+  /**
+   * Reads an unsigned LEB128 integer from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value.
+   * <br /><br />
+   * LEB128 integers are encoded in groups of seven (7) bits, starting
+   * with the least significant group, where the most significant bit
+   * of each byte is set if more bytes follow. This format is used for
+   * protobuf *varints* and in WebAssembly binaries.
+   * <br /><br />
+   * This method can be used to read numbers from 0 to 9_007_199_254_740_991,
+   * use {@link readBigUleb128} to read bigger numbers.
+   *
+   * @access public
+   * @returns {number}  The value of the LEB128 integer starting at the current offset.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is encoded with trailing zero-groups.
+   * @throws  {IntegerOverflowError}  Given a value that is bigger than `Number.MAX_SAFE_INTEGER`.
+   */
+  public readUleb128(): number {
+    return this.toSafeNumber(this.readBigUleb128(53));
+  }
+
+  /**
+   * Reads an unsigned LEB128 integer from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' bigint value.
+   * <br /><br />
+   * The integer must be encoded as described in {@link readUleb128} and
+   * must fit in {@link bits} bits, e.g. protobuf's `uint64` fields use a
+   * maximum of 64 bits.
+   *
+   * @access public
+   * @param   {number}  bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {bigint}  The value of the LEB128 integer starting at the current offset.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is encoded with trailing zero-groups.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link bits} bits.
+   */
+  public readBigUleb128(bits: number = 64): bigint {
+    const offset = this.offset;
+    const value = this.readLeb128Groups(bits);
+    const last = this.buffer[this.offset - 1];
+
+    // do not allow trailing zero-groups (over-long encodings)
+    if (this.offset - offset > 1 && last === 0x00) {
+      throw new NonCanonicalEncodingError(
+        `LEB128 integer ${value} is not encoded canonically.`,
+        offset,
+      );
+    }
+
+    if (value >> BigInt(bits) !== 0n) {
+      throw new IntegerOverflowError(
+        `LEB128 integer ${value} does not fit in ${bits} bits.`,
+        bits,
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Reads a signed LEB128 integer from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' number value.
+   * <br /><br />
+   * Signed LEB128 integers are encoded in two's complement notation, as
+   * groups of seven (7) bits where the highest bit of the last group is
+   * sign-extended. This format is used for signed integers in WebAssembly
+   * binaries and in DWARF debugging information.
+   * <br /><br />
+   * This method can be used to read numbers from -9_007_199_254_740_991 to
+   * 9_007_199_254_740_991, use {@link readBigSleb128} to read bigger numbers.
+   *
+   * @access public
+   * @returns {number}  The value of the signed LEB128 integer starting at the current offset.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is encoded with redundant sign-extension groups.
+   * @throws  {IntegerOverflowError}  Given a value that is not a safe integer.
+   */
+  public readSleb128(): number {
+    return this.toSafeNumber(this.readBigSleb128(54));
+  }
+
+  /**
+   * Reads a signed LEB128 integer from {@link buffer} with the cursor
+   * positioned at {@link offset} and returns its' bigint value.
+   * <br /><br />
+   * The integer must be encoded as described in {@link readSleb128} and
+   * must fit in {@link bits} bits (two's complement), e.g. WebAssembly's
+   * `i64` values use a maximum of 64 bits.
+   *
+   * @access public
+   * @param   {number}  bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {bigint}  The value of the signed LEB128 integer starting at the current offset.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is encoded with redundant sign-extension groups.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link bits} bits.
+   */
+  public readBigSleb128(bits: number = 64): bigint {
+    const offset = this.offset;
+    let value = this.readLeb128Groups(bits);
+    const length = this.offset - offset;
+    const last = this.buffer[this.offset - 1];
+
+    // sign-extend using the highest bit of the last group
+    if (last & 0x40) {
+      value -= 1n << BigInt(7 * length);
+    }
+
+    // do not allow groups that only repeat the sign bit
+    if (length > 1) {
+      const previous = this.buffer[this.offset - 2];
+      if (
+        (last === 0x00 && !(previous & 0x40)) ||
+        (last === 0x7f && previous & 0x40)
+      ) {
+        throw new NonCanonicalEncodingError(
+          `Signed LEB128 integer ${value} is not encoded canonically.`,
+          offset,
+        );
+      }
+    }
+
+    const limit = 1n << BigInt(bits - 1);
+    if (value < -limit || value >= limit) {
+      throw new IntegerOverflowError(
+        `Signed LEB128 integer ${value} does not fit in ${bits} bits.`,
+        bits,
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Reads a zig-zag encoded LEB128 integer from {@link buffer} with the
+   * cursor positioned at {@link offset} and returns its' number value.
+   * <br /><br />
+   * Zig-zag encoding maps signed integers to unsigned integers such that
+   * numbers with a small absolute value use few bytes: 0 => 0, -1 => 1,
+   * 1 => 2, -2 => 3, etc. This format is used for protobuf's `sint32` and
+   * `sint64` fields.
+   * <br /><br />
+   * This method can be used to read numbers from -9_007_199_254_740_991 to
+   * 9_007_199_254_740_991, use {@link readBigZigZagLeb128} to read bigger
+   * numbers.
+   *
+   * @access public
+   * @returns {number}  The value of the zig-zag encoded integer starting at the current offset.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is encoded with trailing zero-groups.
+   * @throws  {IntegerOverflowError}  Given a value that is not a safe integer.
+   */
+  public readZigZagLeb128(): number {
+    return this.toSafeNumber(this.readBigZigZagLeb128(54));
+  }
+
+  /**
+   * Reads a zig-zag encoded LEB128 integer from {@link buffer} with the
+   * cursor positioned at {@link offset} and returns its' bigint value.
+   * <br /><br />
+   * The integer must be encoded as described in {@link readZigZagLeb128}
+   * and must fit in {@link bits} bits (two's complement).
+   *
+   * @access public
+   * @param   {number}  bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {bigint}  The value of the zig-zag encoded integer starting at the current offset.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is encoded with trailing zero-groups.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link bits} bits.
+   */
+  public readBigZigZagLeb128(bits: number = 64): bigint {
+    const value = this.readBigUleb128(bits);
+    return (value >> 1n) ^ -(value & 1n);
+  }
+
+  /**
+   * Moves the cursor forward by {@link size} bytes and returns the
+   * offset (position) at which the bytes start.
+   * <br /><br />
+   * This method is used by all read methods, such that a *strict* reader
+   * never reads past the end of {@link buffer}.
+   *
+   * @access protected
+   * @param   {number}  size    The number of bytes to be read.
+   * @returns {number}  The offset at which the bytes start.
+   * @throws  {BufferUnderflowError}  Given a strict reader and less than {@link size} bytes available.
+   */
+  protected consume(size: number): number {
+    const offset = this.offset;
+    if (this.strict && (size < 0 || offset + size > this.size)) {
+      const available = Math.max(0, this.size - offset);
+      throw new BufferUnderflowError(
+        `Cannot read ${size} bytes at offset ${offset}, only ${available} bytes available.`,
+        offset,
+        size,
+        available,
+      );
+    }
+
     this.offset += size;
-    return this.buffer.subarray(this.offset - size, this.offset);
+    return offset;
+  }
+
+  /**
+   * Reads the seven (7) bit groups of a LEB128 integer from {@link buffer}
+   * with the cursor positioned at {@link offset} and returns the unsigned
+   * value, without sign-extension.
+   * <br /><br />
+   * This method stops reading as soon as the number of groups exceeds
+   * what is necessary to represent {@link bits} bits.
+   *
+   * @access protected
+   * @param   {number}  bits    The maximum number of bits of the value.
+   * @returns {bigint}  The unsigned value of the groups starting at the current offset.
+   * @throws  {IntegerOverflowError}  Given more groups than necessary for {@link bits} bits.
+   */
+  protected readLeb128Groups(bits: number): bigint {
+    const maxLength = Math.ceil(bits / 7);
+    let value = 0n,
+      shift = 0n,
+      length = 0,
+      byte: number;
+
+    do {
+      if (++length > maxLength) {
+        throw new IntegerOverflowError(
+          `LEB128 integer uses more than ${maxLength} bytes.`,
+          bits,
+        );
+      }
+
+      byte = this.readUint8();
+      value |= BigInt(byte & 0x7f) << shift;
+      shift += 7n;
+    } while (byte & 0x80);
+
+    return value;
+  }
+
+  /**
+   * Reads a given {@link size} number of bytes from {@link buffer} with
+   * the cursor positioned at {@link offset} and returns the unsigned
+   * bigint value. The bytes are read in words of eight (8) bytes such
+   * that {@link size} must be a multiple of 8.
+   *
+   * @access protected
+   * @param   {number}   size            The number of bytes to read, e.g. 16 or 32.
+   * @param   {boolean}  littleEndian    The byte order of the bytes.
+   * @returns {bigint}  The value of the bytes starting at the current offset.
+   */
+  protected readBigUint(size: number, littleEndian: boolean): bigint {
+    let value = 0n;
+    for (let i = 0; i < size / 8; i++) {
+      const word = this.readUint64(littleEndian);
+      value = littleEndian
+        ? value | (word << BigInt(64 * i))
+        : (value << 64n) | word;
+    }
+
+    return value;
+  }
+
+  /**
+   * Converts a bigint {@link value} to a number, given that it is a safe
+   * integer, i.e. between `-Number.MAX_SAFE_INTEGER` and
+   * `Number.MAX_SAFE_INTEGER`.
+   *
+   * @access protected
+   * @param   {bigint}  value   The value to be converted.
+   * @returns {number}  The number value of {@link value}.
+   * @throws  {IntegerOverflowError}  Given a value that is not a safe integer.
+   */
+  protected toSafeNumber(value: bigint): number {
+    const max = BigInt(Number.MAX_SAFE_INTEGER);
+    if (value > max || value < -max) {
+      throw new IntegerOverflowError(
+        `Integer ${value} exceeds Number.MAX_SAFE_INTEGER.`,
+        53,
+      );
+    }
+
+    return Number(value);
   }
 }
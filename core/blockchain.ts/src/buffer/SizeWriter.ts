@@ -0,0 +1,124 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { Writer } from "./Writer";
+
+/**
+ * @class SizeWriter
+ * @description This class serves as a "dry run" writer that computes the
+ * exact number of bytes that a serialization would produce, *without*
+ * allocating a buffer.
+ * <br /><br />
+ * It shares the chaining API of {@link Writer} such that the same code
+ * can be used to compute the size of an entity and to serialize it. The
+ * computed size is available in {@link offset}. Note that values are
+ * validated as they would be with a {@link Writer}, e.g. negative values
+ * for variable-length integers still throw.
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link SizeWriter} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `littleEndian` | `boolean` | **Optional** | Contains the default byte order of multi-byte integers, defaults to little-endian (`true`). |
+ *
+ * <br /><br />
+ * @example Using the `SizeWriter` class
+ * ```ts
+ * const serialize = (w: Writer) => w.writeUint32(1).writeVarInt(300);
+ *
+ * const size = serialize(new SizeWriter()).offset; // 7
+ * const writer = serialize(new Writer(Buffer.allocUnsafe(size)));
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Writer}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class SizeWriter extends Writer {
+  /**
+   * Constructs a size-counting writer object, starting to count at zero.
+   *
+   * @access public
+   * @param   {boolean}   littleEndian    The default byte order of multi-byte integers.
+   */
+  public constructor(littleEndian: boolean = true) {
+    super(Buffer.alloc(0), 0, littleEndian, false, false);
+  }
+
+  /**
+   * Counts exactly one (1) byte.
+   *
+   * @access public
+   * @param   {number}  v     The value of the byte, which is not used.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint8(v: number): Writer;
+  public writeUint8(): Writer {
+    this.reserve(1);
+    return this;
+  }
+
+  /**
+   * Counts exactly two (2) bytes.
+   *
+   * @access public
+   * @param   {number}   v               The value of the bytes, which is not used.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, which is not used.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint16(v: number, littleEndian?: boolean): Writer;
+  public writeUint16(): Writer {
+    this.reserve(2);
+    return this;
+  }
+
+  /**
+   * Counts exactly four (4) bytes.
+   *
+   * @access public
+   * @param   {number}   v               The value of the bytes, which is not used.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, which is not used.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint32(v: number, littleEndian?: boolean): Writer;
+  public writeUint32(): Writer {
+    this.reserve(4);
+    return this;
+  }
+
+  /**
+   * Counts exactly eight (8) bytes.
+   *
+   * @access public
+   * @param   {bigint}   v               The value of the bytes, which is not used.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, which is not used.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint64(v: bigint, littleEndian?: boolean): Writer;
+  public writeUint64(): Writer {
+    this.reserve(8);
+    return this;
+  }
+
+  /**
+   * Counts the number of bytes of {@link buf}, starting at {@link index}.
+   *
+   * @access public
+   * @param   {Uint8Array}  buf     The buffer being counted.
+   * @param   {number}      index   (Optional) The offset (position) in {@link buf}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeBuffer(buf: Uint8Array, index: number = 0): Writer {
+    this.reserve(buf.subarray(index).byteLength);
+    return this;
+  }
+}
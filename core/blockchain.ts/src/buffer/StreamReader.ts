@@ -0,0 +1,755 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import type { Readable } from "stream";
+
+// internal dependencies
+import { BufferUnderflowError } from "../errors/BufferUnderflowError";
+import { Reader } from "./Reader";
+
+/**
+ * A strict {@link Reader} around the buffered bytes that keeps the last
+ * {@link BufferUnderflowError} thrown by its' own reads, such that the
+ * underflows of child readers, e.g. of {@link Reader.subReader}, can be
+ * told apart.
+ */
+class BufferedReader extends Reader {
+  /**
+   * Contains the last underflow of a read of this reader instance.
+   *
+   * @access public
+   * @var {BufferUnderflowError | undefined}
+   */
+  public underflow?: BufferUnderflowError;
+
+  /**
+   * Consumes {@link size} bytes, see {@link Reader.consume}, and keeps
+   * the underflow error that is thrown, if any.
+   *
+   * @access protected
+   * @param   {number}  size    The number of bytes to be read.
+   * @returns {number}  The offset at which the bytes start.
+   * @throws  {BufferUnderflowError}  Given less than {@link size} bytes available.
+   */
+  protected consume(size: number): number {
+    try {
+      return super.consume(size);
+    } catch (e) {
+      if (e instanceof BufferUnderflowError) {
+        this.underflow = e;
+      }
+
+      throw e;
+    }
+  }
+}
+
+/**
+ * @class StreamReader
+ * @description This class serves as an *asynchronous* buffer reader around
+ * a stream of binary data that arrives in chunks, e.g. a file stream or a
+ * socket. It exposes the same read methods as {@link Reader}, as async
+ * calls that resolve once enough bytes have been received.
+ * <br /><br />
+ * Only the bytes that have not been read yet are kept in memory, such that
+ * streams of gigabytes (e.g. Bitcoin's `blk*.dat` files) can be read with
+ * a small memory footprint.
+ * <br /><br />
+ * Internally, every read method uses a *strict* {@link Reader} around the
+ * bytes that are currently buffered and pulls more chunks from the stream
+ * whenever a {@link BufferUnderflowError} is thrown past the buffered
+ * bytes. Other underflows, e.g. of a bounded sub-reader, are thrown as is.
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link StreamReader} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `source` | `Readable \| AsyncIterable<Uint8Array>` | **Required** | Contains the stream of chunks being read by this reader instance. |
+ * | `littleEndian` | `boolean` | **Optional** | Contains the default byte order of multi-byte integers, defaults to little-endian (`true`). |
+ *
+ * <br /><br />
+ * @example Using the `StreamReader` class
+ * ```ts
+ * const stream = new StreamReader(fs.createReadStream("blk00000.dat"));
+ *
+ * // reads consecutive blocks, one after the other
+ * while (!(await stream.isEOF())) {
+ *   const magic = await stream.readUint32();
+ *   const size = await stream.readUint32();
+ *   const block = new MyBlock().fromBuffer(await stream.subReader(size));
+ * }
+ *
+ * // or using a decoder that reads from a Reader
+ * for await (const block of stream.iterate((r) => new MyBlock().fromBuffer(r))) {
+ *   // ...
+ * }
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Reader}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class StreamReader {
+  /**
+   * Contains the number of bytes that have been read from the stream,
+   * i.e. the *absolute* position of the cursor in the stream.
+   *
+   * @access public
+   * @var {number}
+   */
+  public offset: number = 0;
+
+  /**
+   * Contains the bytes that have been received but not read yet.
+   *
+   * @access protected
+   * @var {Buffer}
+   */
+  protected pending: Buffer = Buffer.alloc(0);
+
+  /**
+   * Contains whether the stream has ended, i.e. whether no more chunks
+   * will be received.
+   *
+   * @access protected
+   * @var {boolean}
+   */
+  protected done: boolean = false;
+
+  /**
+   * The iterator used to pull chunks from the stream.
+   *
+   * @access protected
+   * @var {AsyncIterator<Uint8Array | string>}
+   */
+  protected iterator: AsyncIterator<Uint8Array | string>;
+
+  /**
+   * Constructs a stream reader object around a {@link source} stream.
+   *
+   * @access public
+   * @param   {Readable | AsyncIterable<Uint8Array>}  source          The stream of chunks (binary data).
+   * @param   {boolean}                               littleEndian    The default byte order of multi-byte integers.
+   */
+  public constructor(
+    source: Readable | AsyncIterable<Uint8Array>,
+
+    /**
+     * Contains the default byte order that is used to read multi-byte
+     * integers, i.e. little-endian (`true`) or big-endian (`false`).
+     *
+     * @access public
+     * @var {boolean}
+     */
+    public littleEndian: boolean = true,
+  ) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Decodes a value from the stream using a {@link decoder} function that
+   * reads from a *strict* {@link Reader}, e.g. a `fromBuffer` implementation
+   * of a {@link Block} or {@link Transaction}.
+   * <br /><br />
+   * The decoder function is called again with more bytes every time that
+   * it throws a {@link BufferUnderflowError}, until the stream ends. As
+   * such, the decoder function must not have side-effects. Underflows of
+   * child readers and of reads that end within the buffered bytes are
+   * thrown immediately, given that more bytes would not help.
+   *
+   * @async
+   * @access public
+   * @param   {(reader: Reader) => T}   decoder   The function that reads a value from a reader.
+   * @returns {Promise<T>}  The value returned by the decoder function.
+   * @throws  {BufferUnderflowError}  Given a stream that ends before the value could be read.
+   */
+  public async decode<T>(decoder: (reader: Reader) => T): Promise<T> {
+    for (;;) {
+      const reader = new BufferedReader(
+        this.pending,
+        0,
+        this.littleEndian,
+        true,
+      );
+      try {
+        const value = decoder(reader);
+        this.advance(reader.offset);
+        return value;
+      } catch (e) {
+        // more bytes would not help with underflows of child readers
+        // or of reads that end within the buffered bytes, e.g. given a
+        // malformed length or a negative size
+        if (
+          !(e instanceof BufferUnderflowError) ||
+          e !== reader.underflow ||
+          e.offset + e.requested <= this.pending.length
+        ) {
+          throw e;
+        }
+
+        // pull at least the requested bytes, and grow geometrically
+        // to limit the number of times the decoder is called again
+        const buffered = this.pending.length;
+        const size = Math.max(e.offset + e.requested, buffered * 2);
+        await this.fill(size);
+
+        if (this.pending.length === buffered) {
+          const available = Math.max(0, buffered - e.offset);
+          throw new BufferUnderflowError(
+            `Cannot read ${e.requested} bytes at offset ${this.offset + e.offset}, stream ended with ${available} bytes available.`,
+            this.offset + e.offset,
+            e.requested,
+            available,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterates over consecutive values in the stream, decoded with a
+   * {@link decoder} function (see {@link decode}), until the stream
+   * ends.
+   * <br /><br />
+   * This method can be used to read consecutive blocks or transactions
+   * without loading the full stream in memory.
+   *
+   * @async
+   * @access public
+   * @param   {(reader: Reader) => T}   decoder   The function that reads a value from a reader.
+   * @returns {AsyncGenerator<T>}  An async generator of decoded values.
+   * @throws  {BufferUnderflowError}  Given a stream that ends in the middle of a value.
+   */
+  public async *iterate<T>(
+    decoder: (reader: Reader) => T,
+  ): AsyncGenerator<T, void, undefined> {
+    while (!(await this.isEOF())) {
+      yield await this.decode(decoder);
+    }
+  }
+
+  /**
+   * Returns whether the end of the stream has been reached, i.e. whether
+   * there are no more bytes to be read. This method may wait until the
+   * next chunk is received.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<boolean>}  True if no bytes remain to be read.
+   */
+  public async isEOF(): Promise<boolean> {
+    await this.fill(1);
+    return this.pending.length === 0;
+  }
+
+  /**
+   * Moves the cursor forward by {@link size} bytes, *without* reading
+   * the bytes in between. The skipped chunks are discarded as they are
+   * received.
+   *
+   * @async
+   * @access public
+   * @param   {number}  size    The number of bytes to skip.
+   * @returns {Promise<StreamReader>}  The reader instance.
+   * @throws  {BufferUnderflowError}  Given a stream that ends before {@link size} bytes were skipped.
+   */
+  public async skip(size: number): Promise<StreamReader> {
+    let remaining = size;
+    while (remaining > 0) {
+      if (!this.pending.length && !(await this.fill(1))) {
+        throw new BufferUnderflowError(
+          `Cannot skip ${size} bytes at offset ${this.offset - (size - remaining)}, stream ended.`,
+          this.offset - (size - remaining),
+          size,
+          size - remaining,
+        );
+      }
+
+      const length = Math.min(remaining, this.pending.length);
+      this.advance(length);
+      remaining -= length;
+    }
+
+    return this;
+  }
+
+  /**
+   * Creates a *bounded* {@link Reader} around the next {@link length} bytes
+   * of the stream and moves the cursor past these bytes.
+   * <br /><br />
+   * This method can be used to read a structure of known size, e.g. a
+   * size-prefixed block, with synchronous `fromBuffer` implementations.
+   *
+   * @async
+   * @access public
+   * @param   {number}  length    The number of bytes of the reader.
+   * @returns {Promise<Reader>}  A reader around the next {@link length} bytes.
+   * @throws  {BufferUnderflowError}  Given a stream that ends before {@link length} bytes were received.
+   */
+  public async subReader(length: number): Promise<Reader> {
+    await this.fill(length);
+    return this.decode((r) => r.subReader(length));
+  }
+
+  /**
+   * Reads exactly one (1) byte from the stream and returns its' number
+   * value, see {@link Reader.readUint8}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readUint8(): Promise<number> {
+    return this.decode((r) => r.readUint8());
+  }
+
+  /**
+   * Reads exactly two (2) bytes from the stream and returns its' number
+   * value, see {@link Reader.readUint16}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readUint16(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<number> {
+    return this.decode((r) => r.readUint16(littleEndian));
+  }
+
+  /**
+   * Reads exactly two (2) bytes from the stream and returns its' number
+   * value, using a *big-endian* byte order, see {@link
+   * Reader.readUint16BE}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readUint16BE(): Promise<number> {
+    return this.decode((r) => r.readUint16BE());
+  }
+
+  /**
+   * Reads exactly two (2) bytes from the stream and returns its' number
+   * value, using a *little-endian* byte order, see {@link
+   * Reader.readUint16LE}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readUint16LE(): Promise<number> {
+    return this.decode((r) => r.readUint16LE());
+  }
+
+  /**
+   * Reads exactly four (4) bytes from the stream and returns its' number
+   * value, see {@link Reader.readUint32}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readUint32(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<number> {
+    return this.decode((r) => r.readUint32(littleEndian));
+  }
+
+  /**
+   * Reads exactly four (4) bytes from the stream and returns its' number
+   * value, using a *big-endian* byte order, see {@link
+   * Reader.readUint32BE}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readUint32BE(): Promise<number> {
+    return this.decode((r) => r.readUint32BE());
+  }
+
+  /**
+   * Reads exactly four (4) bytes from the stream and returns its' number
+   * value, using a *little-endian* byte order, see {@link
+   * Reader.readUint32LE}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readUint32LE(): Promise<number> {
+    return this.decode((r) => r.readUint32LE());
+  }
+
+  /**
+   * Reads exactly eight (8) bytes from the stream and returns its'
+   * number value, see {@link Reader.readUint64}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readUint64(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<bigint> {
+    return this.decode((r) => r.readUint64(littleEndian));
+  }
+
+  /**
+   * Reads exactly eight (8) bytes from the stream and returns its'
+   * number value, using a *big-endian* byte order, see {@link
+   * Reader.readUint64BE}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readUint64BE(): Promise<bigint> {
+    return this.decode((r) => r.readUint64BE());
+  }
+
+  /**
+   * Reads exactly eight (8) bytes from the stream and returns its'
+   * number value, using a *little-endian* byte order, see {@link
+   * Reader.readUint64LE}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readUint64LE(): Promise<bigint> {
+    return this.decode((r) => r.readUint64LE());
+  }
+
+  /**
+   * Reads exactly one (1) byte from the stream and returns its' signed
+   * number value, see {@link Reader.readInt8}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readInt8(): Promise<number> {
+    return this.decode((r) => r.readInt8());
+  }
+
+  /**
+   * Reads exactly two (2) bytes from the stream and returns its' signed
+   * number value, see {@link Reader.readInt16}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readInt16(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<number> {
+    return this.decode((r) => r.readInt16(littleEndian));
+  }
+
+  /**
+   * Reads exactly four (4) bytes from the stream and returns its' signed
+   * number value, see {@link Reader.readInt32}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readInt32(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<number> {
+    return this.decode((r) => r.readInt32(littleEndian));
+  }
+
+  /**
+   * Reads exactly eight (8) bytes from the stream and returns its'
+   * signed number value, see {@link Reader.readInt64}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readInt64(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<bigint> {
+    return this.decode((r) => r.readInt64(littleEndian));
+  }
+
+  /**
+   * Reads exactly sixteen (16) bytes from the stream and returns its'
+   * bigint value, see {@link Reader.readUint128}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readUint128(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<bigint> {
+    return this.decode((r) => r.readUint128(littleEndian));
+  }
+
+  /**
+   * Reads exactly sixteen (16) bytes from the stream and returns its'
+   * signed bigint value, see {@link Reader.readInt128}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readInt128(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<bigint> {
+    return this.decode((r) => r.readInt128(littleEndian));
+  }
+
+  /**
+   * Reads exactly thirty-two (32) bytes from the stream and returns its'
+   * bigint value, see {@link Reader.readUint256}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readUint256(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<bigint> {
+    return this.decode((r) => r.readUint256(littleEndian));
+  }
+
+  /**
+   * Reads exactly thirty-two (32) bytes from the stream and returns its'
+   * signed bigint value, see {@link Reader.readInt256}.
+   *
+   * @async
+   * @access public
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readInt256(
+    littleEndian: boolean = this.littleEndian,
+  ): Promise<bigint> {
+    return this.decode((r) => r.readInt256(littleEndian));
+  }
+
+  /**
+   * Reads a given {@link size} number of bytes from the stream and
+   * returns them, see {@link Reader.readBuffer}.
+   *
+   * @async
+   * @access public
+   * @param   {number}  size    The number of bytes to read.
+   * @returns {Promise<Uint8Array>}  The value read from the stream.
+   */
+  public async readBuffer(size: number): Promise<Uint8Array> {
+    return this.decode((r) => r.readBuffer(size));
+  }
+
+  /**
+   * Reads exactly one (1) byte from the stream and returns its' number
+   * value, *without* moving the cursor, see {@link Reader.peekUint8}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async peekUint8(): Promise<number> {
+    return this.decode((r) => r.peekUint8());
+  }
+
+  /**
+   * Reads a given {@link size} number of bytes from the stream and
+   * returns them, *without* moving the cursor, see {@link
+   * Reader.peekBuffer}.
+   *
+   * @async
+   * @access public
+   * @param   {number}  size    The number of bytes to read.
+   * @returns {Promise<Uint8Array>}  The value read from the stream.
+   */
+  public async peekBuffer(size: number): Promise<Uint8Array> {
+    return this.decode((r) => r.peekBuffer(size));
+  }
+
+  /**
+   * Reads a *CompactSize* variable-length integer from the stream and
+   * returns its' number value, see {@link Reader.readVarInt}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readVarInt(): Promise<number> {
+    return this.decode((r) => r.readVarInt());
+  }
+
+  /**
+   * Reads a *CompactSize* variable-length integer from the stream and
+   * returns its' bigint value, see {@link Reader.readBigVarInt}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readBigVarInt(): Promise<bigint> {
+    return this.decode((r) => r.readBigVarInt());
+  }
+
+  /**
+   * Reads a length-prefixed buffer from the stream and returns its'
+   * bytes, see {@link Reader.readVarBytes}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<Uint8Array>}  The value read from the stream.
+   */
+  public async readVarBytes(): Promise<Uint8Array> {
+    return this.decode((r) => r.readVarBytes());
+  }
+
+  /**
+   * Reads an unsigned LEB128 integer from the stream and returns its'
+   * number value, see {@link Reader.readUleb128}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readUleb128(): Promise<number> {
+    return this.decode((r) => r.readUleb128());
+  }
+
+  /**
+   * Reads an unsigned LEB128 integer from the stream and returns its'
+   * bigint value, see {@link Reader.readBigUleb128}.
+   *
+   * @async
+   * @access public
+   * @param   {number}  bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readBigUleb128(bits: number = 64): Promise<bigint> {
+    return this.decode((r) => r.readBigUleb128(bits));
+  }
+
+  /**
+   * Reads a signed LEB128 integer from the stream and returns its'
+   * number value, see {@link Reader.readSleb128}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readSleb128(): Promise<number> {
+    return this.decode((r) => r.readSleb128());
+  }
+
+  /**
+   * Reads a signed LEB128 integer from the stream and returns its'
+   * bigint value, see {@link Reader.readBigSleb128}.
+   *
+   * @async
+   * @access public
+   * @param   {number}  bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readBigSleb128(bits: number = 64): Promise<bigint> {
+    return this.decode((r) => r.readBigSleb128(bits));
+  }
+
+  /**
+   * Reads a zig-zag encoded LEB128 integer from the stream and returns
+   * its' number value, see {@link Reader.readZigZagLeb128}.
+   *
+   * @async
+   * @access public
+   * @returns {Promise<number>}  The value read from the stream.
+   */
+  public async readZigZagLeb128(): Promise<number> {
+    return this.decode((r) => r.readZigZagLeb128());
+  }
+
+  /**
+   * Reads a zig-zag encoded LEB128 integer from the stream and returns
+   * its' bigint value, see {@link Reader.readBigZigZagLeb128}.
+   *
+   * @async
+   * @access public
+   * @param   {number}  bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {Promise<bigint>}  The value read from the stream.
+   */
+  public async readBigZigZagLeb128(bits: number = 64): Promise<bigint> {
+    return this.decode((r) => r.readBigZigZagLeb128(bits));
+  }
+
+  /**
+   * Pulls chunks from the stream until at least {@link size} bytes are
+   * buffered or the stream ends.
+   *
+   * @async
+   * @access protected
+   * @param   {number}  size    The minimum number of bytes to be buffered.
+   * @returns {Promise<boolean>}  True if at least {@link size} bytes are buffered.
+   */
+  protected async fill(size: number): Promise<boolean> {
+    const chunks: Buffer[] = [this.pending];
+    let length = this.pending.length;
+    while (length < size && !this.done) {
+      const result = await this.iterator.next();
+      if (result.done) {
+        this.done = true;
+        break;
+      }
+
+      const chunk =
+        typeof result.value === "string"
+          ? Buffer.from(result.value)
+          : Buffer.from(
+              result.value.buffer,
+              result.value.byteOffset,
+              result.value.byteLength,
+            );
+      chunks.push(chunk);
+      length += chunk.length;
+    }
+
+    if (chunks.length > 1) {
+      this.pending = Buffer.concat(chunks, length);
+    }
+
+    return length >= size;
+  }
+
+  /**
+   * Moves the cursor forward by {@link size} bytes and discards these
+   * bytes from the buffered bytes.
+   *
+   * @access protected
+   * @param   {number}  size    The number of bytes that have been read.
+   * @returns {void}
+   */
+  protected advance(size: number): void {
+    this.pending = this.pending.subarray(size);
+    this.offset += size;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import type { Codec, StructSchema, StructValue } from "../types/Codec";
+import { Reader } from "./Reader";
+import { SizeWriter } from "./SizeWriter";
+import { Writer } from "./Writer";
+
+/**
+ * @class Struct
+ * @description This class serves as a *typed* codec for objects with
+ * named fields, where every field is described by a {@link Codec}. The
+ * fields are encoded one after the other, in the order of the keys of
+ * the {@link schema}.
+ * <br /><br />
+ * Every field codec receives the parent object, such that the layout of
+ * a field can depend on previous fields, e.g. an optional section that is
+ * guarded by a flag. The type of the encoded and decoded objects is
+ * *inferred* from the schema, such that field names and value types are
+ * checked without a separate interface. Structs are codecs themselves
+ * and can therefore be nested.
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link Struct} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `schema` | `StructSchema` | **Required** | Contains the named codecs of the fields, in order. |
+ *
+ * <br /><br />
+ * @example Using the `Struct` class
+ * ```ts
+ * const { u32, bytes } = Codecs;
+ * const Header = Template.struct({
+ *   version: u32,
+ *   prevHash: bytes(32),
+ *   merkleRoot: bytes(32),
+ *   time: u32,
+ *   bits: u32,
+ *   nonce: u32,
+ * });
+ *
+ * const header = Header.fromBuffer(data); // { version: number, prevHash: Uint8Array, ... }
+ * const encoded = Header.toBuffer(header); // 80 bytes
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Template}, {@link Codecs}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Struct<S extends StructSchema> implements Codec<StructValue<S>> {
+  /**
+   * Constructs a struct codec object around a {@link schema}.
+   *
+   * @access public
+   * @param   {S}   schema    The named codecs of the fields, in order.
+   */
+  public constructor(
+    /**
+     * Contains the named codecs of the fields, in order.
+     *
+     * @access public
+     * @readonly
+     * @var {S}
+     */
+    public readonly schema: S,
+  ) {}
+
+  /**
+   * Writes the fields of {@link value} one after the other, using the
+   * codecs of {@link schema}.
+   *
+   * @access public
+   * @param   {Writer}            writer    The writer instance.
+   * @param   {StructValue<S>}    value     The object to encode.
+   * @returns {void}
+   */
+  public encode(writer: Writer, value: StructValue<S>): void {
+    for (const key of Object.keys(this.schema)) {
+      this.schema[key].encode(
+        writer,
+        (value as Record<string, any>)[key],
+        value,
+      );
+    }
+  }
+
+  /**
+   * Reads the fields one after the other, using the codecs of
+   * {@link schema}, and returns the decoded object.
+   *
+   * @access public
+   * @param   {Reader}  reader    The reader instance.
+   * @returns {StructValue<S>}  The decoded object.
+   */
+  public decode(reader: Reader): StructValue<S> {
+    const value: Record<string, unknown> = {};
+    for (const key of Object.keys(this.schema)) {
+      const field = this.schema[key].decode(reader, value);
+      if (field !== undefined) {
+        value[key] = field;
+      }
+    }
+
+    return value as StructValue<S>;
+  }
+
+  /**
+   * Computes the number of bytes that {@link value} occupies once
+   * encoded, using a {@link SizeWriter}.
+   *
+   * @access public
+   * @param   {StructValue<S>}    value     The object to encode.
+   * @returns {number}  The number of bytes of the encoded object.
+   */
+  public getSize(value: StructValue<S>): number {
+    const writer = new SizeWriter();
+    this.encode(writer, value);
+    return writer.offset;
+  }
+
+  /**
+   * Encodes {@link value} into a new buffer of exactly the right size.
+   *
+   * @access public
+   * @param   {StructValue<S>}    value     The object to encode.
+   * @returns {Uint8Array}  The encoded object.
+   */
+  public toBuffer(value: StructValue<S>): Uint8Array {
+    const writer = new Writer(Buffer.alloc(this.getSize(value)));
+    this.encode(writer, value);
+    return writer.finish();
+  }
+
+  /**
+   * Decodes an object from the start of {@link buffer}.
+   *
+   * @access public
+   * @param   {Uint8Array}  buffer    The buffer to decode.
+   * @returns {StructValue<S>}  The decoded object.
+   * @throws  {BufferUnderflowError}  Given a buffer with insufficient bytes.
+   */
+  public fromBuffer(buffer: Uint8Array): StructValue<S> {
+    return this.decode(
+      new Reader(
+        Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength),
+      ),
+    );
+  }
+}
@@ -9,7 +9,13 @@
  * @license     LGPL-3.0
  */
 // internal dependencies
+import { Hashes } from "../hashes/Hashes";
+import type { StructSchema } from "../types/Codec";
+import type { HashAlgorithm } from "../types/HashFunction";
 import type { TemplateField } from "../types/TemplateField";
+import type { TemplateFieldSchema } from "../types/TemplateFieldSchema";
+import { Reader } from "./Reader";
+import { Struct } from "./Struct";
 import { Writer } from "./Writer";
 
 /**
@@ -42,14 +48,133 @@ import { Writer } from "./Writer";
  * ]);
  *
  * template.toBuffer(); // 01020301FFFFFFFF
+ *
+ * // reading the same layout back from a buffer
+ * const parsed = Template.fromBuffer(
+ *   new Reader(template.toBuffer()),
+ *   template.getSchema(),
+ * );
+ *
+ * // or using a *typed* schema with plain values
+ * const Header = Template.struct({ version: Codecs.u32, prevHash: Codecs.bytes(32) });
+ * Header.toBuffer({ version: 1, prevHash: Buffer.alloc(32) });
+ *
+ * // hashing the buffer with a hash function of the registry
+ * template.getHash("sha256d");
  * ```
  * <br /><br />
  * #### Other links
- * {@link Writer}
+ * {@link Hashes}, {@link Reader}, {@link Struct}, {@link Writer}
  * <br /><br />
  * @since v0.1.0
  */
 export class Template {
+  /**
+   * Constant that contains the number of bytes of fixed-size integer
+   * field types, as written with {@link toBuffer}.
+   *
+   * @static
+   * @access public
+   * @var {Partial<Record<TemplateField["type"], number>>}
+   */
+  public static INTEGER_SIZES: Partial<Record<TemplateField["type"], number>> =
+    {
+      uint8: 1,
+      uint16: 2,
+      uint32: 4,
+      uint64: 8,
+      uint128: 16,
+      uint256: 32,
+      int8: 1,
+      int16: 2,
+      int32: 4,
+      int64: 8,
+      int128: 16,
+      int256: 32,
+    };
+
+  /**
+   * Reads fields from a {@link reader} using a {@link schema} of field
+   * types and lengths, and returns a template instance that contains
+   * the fields in the same format as is expected by {@link toBuffer}.
+   * <br /><br />
+   * As such, the buffer created with {@link toBuffer} is *identical* to
+   * the bytes that were read, and a single schema can describe both the
+   * serialization and the deserialization of an entity.
+   *
+   * @static
+   * @access public
+   * @param   {Reader}                  reader    The reader positioned at the first field.
+   * @param   {TemplateFieldSchema[]}   schema    The types and lengths of the fields.
+   * @returns {Template}  A template instance with the fields that were read.
+   * @throws  {RangeError}  Given a `buffer` field without a valid length.
+   * @throws  {BufferUnderflowError}  Given a reader with insufficient bytes (strict mode).
+   */
+  public static fromBuffer(
+    reader: Reader,
+    schema: TemplateFieldSchema[],
+  ): Template {
+    const fields: TemplateField[] = schema.map((field, i) => {
+      const littleEndian = field.littleEndian ?? true;
+      const result: TemplateField = {
+        type: field.type,
+        data: new Uint8Array(),
+      };
+      if (field.littleEndian !== undefined) {
+        result.littleEndian = field.littleEndian;
+      }
+
+      switch (field.type) {
+        case "buffer": {
+          const length = field.length ?? -1;
+          if (!Number.isInteger(length) || length < 0) {
+            throw new RangeError(
+              `Field #${i} of type buffer requires a non-negative length.`,
+            );
+          }
+
+          result.data = Uint8Array.from(reader.readBuffer(length));
+          break;
+        }
+
+        case "varint":
+          result.data = Template.toBigEndianBytes(reader.readBigVarInt());
+          break;
+        case "varbytes":
+          result.data = Uint8Array.from(reader.readVarBytes());
+          break;
+
+        default: {
+          // integer data is stored in big-endian byte order
+          const size = Template.INTEGER_SIZES[field.type] ?? 1;
+          result.data = Uint8Array.from(reader.readBuffer(size));
+          if (littleEndian) {
+            result.data.reverse();
+          }
+        }
+      }
+
+      return result;
+    });
+
+    return new Template(fields);
+  }
+
+  /**
+   * Creates a *typed* {@link Struct} codec from a {@link schema} of named
+   * codecs (see {@link Codecs}). Contrary to {@link TemplateField}, struct
+   * fields take *plain* values (numbers, bigints and buffers) and the type
+   * of the decoded objects is inferred from the schema.
+   *
+   * @static
+   * @access public
+   * @param   {S}   schema    The named codecs of the fields, in order.
+   * @returns {Struct<S>}  A struct codec that encodes and decodes objects.
+   */
+  public static struct<S extends StructSchema>(schema: S): Struct<S> {
+    return new Struct(schema);
+  }
+
   /**
    * Contains the total byte length summed from all the
    * {@link fields} of this template instance.
@@ -78,7 +203,7 @@ export class Template {
     public fields: TemplateField[] = [],
   ) {
     this.byteLength = this.fields
-      .map((f) => f.data.byteLength)
+      .map((f) => this.getFieldSize(f))
       .reduce((prev, cur) => prev + cur, 0);
   }
 
@@ -87,7 +212,8 @@ export class Template {
    * buffer to write (concatenate) {@link fields} one after the other.
    * <br /><br />
    * Note that this method uses the {@link TemplateField} interface's
-   * `type` field to determine how a specific field is aligned.
+   * `type` field to determine how a specific field is aligned, and its'
+   * optional `littleEndian` field to determine the byte order.
    *
    * @access public
    * @returns {Uint8Array}  The resulting buffer of size {@link byteLength} with all {@link fields} concatenated.
@@ -99,29 +225,162 @@ export class Template {
     // writes field after field, taking into account which
     // type of field we are processing (by byte length)
     for (let i = 0; i < this.fields.length; i++) {
-      const view = new DataView(this.fields[i].data.buffer);
       const field_type = this.fields[i].type;
+      const littleEndian = this.fields[i].littleEndian ?? true;
       switch (field_type) {
         case "buffer":
           writer.writeBuffer(this.fields[i].data);
           break;
 
-        default:
-        case "uint8":
-          writer.writeUint8(view.getInt8(0));
+        case "varint":
+          writer.writeVarInt(this.getFieldValue(this.fields[i]));
           break;
-        case "uint16":
-          writer.writeUint16(view.getInt16(0));
+        case "varbytes":
+          writer.writeVarBytes(this.fields[i].data);
           break;
-        case "uint32":
-          writer.writeUint32(view.getInt32(0));
-          break;
-        case "uint64":
-          writer.writeUint64(view.getBigInt64(0));
+
+        default:
+          // signed integers are written using their two's
+          // complement bytes, i.e. as unsigned integers
+          this.writeInteger(
+            writer,
+            Template.INTEGER_SIZES[field_type] ?? 1,
+            this.getFieldValue(this.fields[i]),
+            littleEndian,
+          );
           break;
       }
     }
 
     return buffer;
   }
+
+  /**
+   * Computes the hash of the buffer of {@link fields} as written with
+   * {@link toBuffer}, e.g. to implement {@link Transaction.getHash} with
+   * the double SHA-256 of a transaction's serialization.
+   *
+   * @access public
+   * @param   {HashAlgorithm}   algorithm   The hash function or its' name, e.g. `"sha256d"`.
+   * @returns {Uint8Array}  The hash of the template's buffer.
+   * @throws  {RangeError}  Given the name of a hash function that is not registered.
+   */
+  public getHash(algorithm: HashAlgorithm): Uint8Array {
+    return Hashes.resolve(algorithm)(this.toBuffer());
+  }
+
+  /**
+   * Returns the schema of {@link fields}, i.e. their types, lengths and
+   * byte orders without their data. The schema can be used to read the
+   * same fields back from a buffer with {@link fromBuffer}.
+   *
+   * @access public
+   * @returns {TemplateFieldSchema[]}  The schema of this template's fields.
+   */
+  public getSchema(): TemplateFieldSchema[] {
+    return this.fields.map((field) => {
+      const schema: TemplateFieldSchema = { type: field.type };
+      if (field.type === "buffer") {
+        schema.length = field.data.byteLength;
+      }
+      if (field.littleEndian !== undefined) {
+        schema.littleEndian = field.littleEndian;
+      }
+
+      return schema;
+    });
+  }
+
+  /**
+   * Computes the number of bytes that a {@link field} occupies in the
+   * buffer created with {@link toBuffer}.
+   * <br /><br />
+   * Variable-length fields are prefixed with a *CompactSize* integer,
+   * such that their size may differ from the size of their data.
+   *
+   * @access protected
+   * @param   {TemplateField}   field   The field of which to compute the size.
+   * @returns {number}  The number of bytes occupied by {@link field}.
+   */
+  protected getFieldSize(field: TemplateField): number {
+    switch (field.type) {
+      case "varint":
+        return Writer.getVarIntSize(this.getFieldValue(field));
+      case "varbytes":
+        return (
+          Writer.getVarIntSize(field.data.byteLength) + field.data.byteLength
+        );
+      case "buffer":
+        return field.data.byteLength;
+      default:
+        return Template.INTEGER_SIZES[field.type] ?? 1;
+    }
+  }
+
+  /**
+   * Writes an unsigned integer {@link value} of {@link size} bytes using
+   * the corresponding method of {@link writer}.
+   *
+   * @access protected
+   * @param   {Writer}    writer          The writer instance.
+   * @param   {number}    size            The number of bytes of the integer.
+   * @param   {bigint}    value           The unsigned integer value.
+   * @param   {boolean}   littleEndian    The byte order of the integer.
+   * @returns {void}
+   */
+  protected writeInteger(
+    writer: Writer,
+    size: number,
+    value: bigint,
+    littleEndian: boolean,
+  ): void {
+    switch (size) {
+      case 1:
+        writer.writeUint8(Number(value));
+        break;
+      case 2:
+        writer.writeUint16(Number(value), littleEndian);
+        break;
+      case 4:
+        writer.writeUint32(Number(value), littleEndian);
+        break;
+      case 8:
+        writer.writeUint64(value, littleEndian);
+        break;
+      case 16:
+        writer.writeUint128(value, littleEndian);
+        break;
+      default:
+        writer.writeUint256(value, littleEndian);
+        break;
+    }
+  }
+
+  /**
+   * Interprets the data of a {@link field} as a *big-endian* unsigned
+   * integer and returns its' bigint value.
+   *
+   * @access protected
+   * @param   {TemplateField}   field   The field of which to read the value.
+   * @returns {bigint}  The unsigned integer value of the field's data.
+   */
+  protected getFieldValue(field: TemplateField): bigint {
+    return field.data.reduce((prev, cur) => (prev << 8n) + BigInt(cur), 0n);
+  }
+
+  /**
+   * Converts an unsigned integer {@link value} to its' *minimal* big-endian
+   * bytes, i.e. the format used by {@link getFieldValue}.
+   *
+   * @static
+   * @access protected
+   * @param   {bigint}  value   The unsigned integer value.
+   * @returns {Uint8Array}  The big-endian bytes of the value (at least one byte).
+   */
+  protected static toBigEndianBytes(value: bigint): Uint8Array {
+    const hex = value.toString(16);
+    return Uint8Array.from(
+      Buffer.from(hex.padStart(hex.length + (hex.length % 2), "0"), "hex"),
+    );
+  }
 }
@@ -8,6 +8,9 @@
  * @author      re:Software S.L. <devs@resoftware.es>
  * @license     LGPL-3.0
  */
+// internal dependencies
+import { BufferOverflowError } from "../errors/BufferOverflowError";
+import { IntegerOverflowError } from "../errors/IntegerOverflowError";
 
 /**
  * @class Writer
@@ -22,6 +25,9 @@
  * | --- | --- | --- | --- |
  * | `buffer` | `Buffer` | **Required** | Contains the buffer being written to by this writer instance. |
  * | `offset` | `number` | **Optional** | Contains the offset (position) at which this writer instance must start writing to the buffer. |
+ * | `littleEndian` | `boolean` | **Optional** | Contains the default byte order of multi-byte integers, defaults to little-endian (`true`). |
+ * | `strict` | `boolean` | **Optional** | Contains whether writing past the end of the buffer throws a {@link BufferOverflowError}, defaults to `true`. |
+ * | `growable` | `boolean` | **Optional** | Contains whether the buffer is automatically grown when writing past its' end, defaults to `false`. |
  *
  * <br /><br />
  * @example Using the `Writer` class
@@ -32,14 +38,75 @@
  * buffer.writeUint8(1);
  *
  * output.toString("hex"); // 0001
+ *
+ * // writing data of unknown size
+ * const data = Writer.createGrowable()
+ *   .writeUint32(1)
+ *   .writeVarBytes(Buffer.from("010203", "hex"))
+ *   .finish(); // 8 bytes
  * ```
  * <br /><br />
  * #### Other links
- * {@link Reader}
+ * {@link Reader}, {@link SizeWriter}
  * <br /><br />
  * @since v0.1.0
  */
 export class Writer {
+  /**
+   * Constant that contains the default initial capacity of growable
+   * writers, in bytes.
+   *
+   * @static
+   * @access public
+   * @var {number}
+   */
+  public static DEFAULT_CAPACITY: number = 256;
+
+  /**
+   * Creates a *growable* writer object around an empty buffer of
+   * {@link capacity} bytes.
+   * <br /><br />
+   * The buffer of growable writers is automatically grown (doubled)
+   * when writing past its' end, such that the size of the resulting
+   * data does not need to be known in advance. Use {@link finish} to
+   * get the written bytes.
+   *
+   * @static
+   * @access public
+   * @param   {number}    capacity        (Optional) The initial capacity in bytes, defaults to {@link DEFAULT_CAPACITY}.
+   * @param   {boolean}   littleEndian    (Optional) The default byte order of multi-byte integers.
+   * @returns {Writer}  A growable writer instance.
+   */
+  public static createGrowable(
+    capacity: number = Writer.DEFAULT_CAPACITY,
+    littleEndian: boolean = true,
+  ): Writer {
+    return new Writer(Buffer.alloc(capacity), 0, littleEndian, true, true);
+  }
+
+  /**
+   * Computes the number of bytes that are necessary to encode
+   * {@link v} as a variable-length integer, i.e. using the same
+   * *CompactSize* format as {@link writeVarInt}.
+   *
+   * @static
+   * @access public
+   * @param   {number | bigint}  v     The value of the variable-length integer.
+   * @returns {number}  The number of bytes used to encode {@link v}: 1, 3, 5 or 9.
+   */
+  public static getVarIntSize(v: number | bigint): number {
+    const value = BigInt(v);
+    if (value < 0xfdn) {
+      return 1;
+    } else if (value <= 0xffffn) {
+      return 3;
+    } else if (value <= 0xffffffffn) {
+      return 5;
+    }
+
+    return 9;
+  }
+
   /**
    * Contains the size of the buffer in bytes. This property
    * is filled with the byte-length from {@link buffer}.
@@ -63,8 +130,11 @@ export class Writer {
    * at {@link offset}.
    *
    * @access public
-   * @param   {Buffer}   buffer  The buffer (binary data).
-   * @param   {number}   offset  The offset at which to start writing.
+   * @param   {Buffer}    buffer          The buffer (binary data).
+   * @param   {number}    offset          The offset at which to start writing.
+   * @param   {boolean}   littleEndian    The default byte order of multi-byte integers.
+   * @param   {boolean}   strict          Whether writing past the end of the buffer throws.
+   * @param   {boolean}   growable        Whether the buffer is grown when writing past its' end.
    */
   public constructor(
     /**
@@ -84,6 +154,45 @@ export class Writer {
      * @var {number}
      */
     public offset: number = 0,
+
+    /**
+     * Contains the default byte order that is used to write multi-byte
+     * integers, i.e. little-endian (`true`) or big-endian (`false`).
+     * <br /><br />
+     * Note that the byte order can also be specified with every call
+     * to write methods, e.g. using {@link writeUint32BE}.
+     *
+     * @access public
+     * @var {boolean}
+     */
+    public littleEndian: boolean = true,
+
+    /**
+     * Contains whether this writer instance is *strict*, i.e. whether
+     * writing past the end of the buffer throws a {@link BufferOverflowError}.
+     * <br /><br />
+     * When disabled, bytes that are written past the end of the buffer
+     * are silently dropped, e.g. only the first two (2) bytes of a four
+     * (4) bytes integer are written two (2) bytes before the end, and the
+     * cursor is moved forward as if all bytes were written.
+     *
+     * @access public
+     * @var {boolean}
+     */
+    public strict: boolean = true,
+
+    /**
+     * Contains whether this writer instance is *growable*, i.e. whether
+     * {@link buffer} is automatically grown when writing past its' end.
+     * <br /><br />
+     * Growing the buffer allocates a new buffer of twice the size and
+     * copies the written bytes, such that {@link buffer} and {@link data}
+     * must not be referenced from outside of this writer instance.
+     *
+     * @access public
+     * @var {boolean}
+     */
+    public growable: boolean = false,
   ) {
     this.size = buffer.byteLength;
     this.data = new DataView(
@@ -104,7 +213,8 @@ export class Writer {
    * @returns {Writer}  The writer instance to permit chaining of method calls.
    */
   public writeUint8(v: number): Writer {
-    this.buffer[this.offset++] = v;
+    const offset = this.reserve(1);
+    this.buffer[offset] = v;
     return this;
   }
 
@@ -114,57 +224,346 @@ export class Writer {
    * <br /><br />
    * This method can be used to write numbers from 0 to 65_535.
    * <br /><br />
-   * Caution: this method writes the bytes aligned with a little-endian
-   * notation.
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
    *
    * @access public
-   * @param   {number}  v     The value of the bytes to be written.
+   * @param   {number}   v               The value of the bytes to be written.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
    * @returns {Writer}  The writer instance to permit chaining of method calls.
    */
-  public writeUint16(v: number): Writer {
-    this.data.setUint16(this.offset, v, true); // true=littleEndian
-    this.offset += 2;
+  public writeUint16(
+    v: number,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    const offset = this.reserve(2);
+    if (offset + 2 <= this.size) {
+      this.data.setUint16(offset, v, littleEndian);
+    } else {
+      this.writeTruncated(offset, 2, (view) =>
+        view.setUint16(0, v, littleEndian),
+      );
+    }
+
     return this;
   }
 
+  /**
+   * Writes exactly two (2) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using a *big-endian* byte order
+   * (see {@link writeUint16}).
+   *
+   * @access public
+   * @param   {number}  v     The value of the bytes to be written.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint16BE(v: number): Writer {
+    return this.writeUint16(v, false);
+  }
+
+  /**
+   * Writes exactly two (2) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using a *little-endian* byte order
+   * (see {@link writeUint16}).
+   *
+   * @access public
+   * @param   {number}  v     The value of the bytes to be written.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint16LE(v: number): Writer {
+    return this.writeUint16(v, true);
+  }
+
   /**
    * Writes exactly four (4) bytes to {@link buffer} with the cursor
    * positioned at {@link offset}.
    * <br /><br />
    * This method can be used to write numbers from 0 to 4_294_967_295.
    * <br /><br />
-   * Caution: this method writes the bytes aligned with a little-endian
-   * notation.
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
    *
    * @access public
-   * @param   {number}  v     The value of the bytes to be written.
+   * @param   {number}   v               The value of the bytes to be written.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
    * @returns {Writer}  The writer instance to permit chaining of method calls.
    */
-  public writeUint32(v: number): Writer {
-    this.data.setUint32(this.offset, v, true); // true=littleEndian
-    this.offset += 4;
+  public writeUint32(
+    v: number,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    const offset = this.reserve(4);
+    if (offset + 4 <= this.size) {
+      this.data.setUint32(offset, v, littleEndian);
+    } else {
+      this.writeTruncated(offset, 4, (view) =>
+        view.setUint32(0, v, littleEndian),
+      );
+    }
+
     return this;
   }
 
+  /**
+   * Writes exactly four (4) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using a *big-endian* byte order
+   * (see {@link writeUint32}).
+   *
+   * @access public
+   * @param   {number}  v     The value of the bytes to be written.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint32BE(v: number): Writer {
+    return this.writeUint32(v, false);
+  }
+
+  /**
+   * Writes exactly four (4) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using a *little-endian* byte order
+   * (see {@link writeUint32}).
+   *
+   * @access public
+   * @param   {number}  v     The value of the bytes to be written.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint32LE(v: number): Writer {
+    return this.writeUint32(v, true);
+  }
+
   /**
    * Writes exactly eight (8) bytes to {@link buffer} with the cursor
    * positioned at {@link offset}.
    * <br /><br />
    * This method can be used to write numbers from 0 to 18_446_744_073_709_551_615.
    * <br /><br />
-   * Caution: this method writes the bytes aligned with a little-endian
-   * notation.
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
    *
    * @access public
-   * @param   {bigint}  v     The value of the bytes to be written as a BigInt.
+   * @param   {bigint}   v               The value of the bytes to be written as a BigInt.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
    * @returns {Writer}  The writer instance to permit chaining of method calls.
    */
-  public writeUint64(v: bigint): Writer {
-    this.data.setBigUint64(this.offset, v, true); // true=littleEndian
-    this.offset += 8;
+  public writeUint64(
+    v: bigint,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    const offset = this.reserve(8);
+    if (offset + 8 <= this.size) {
+      this.data.setBigUint64(offset, v, littleEndian);
+    } else {
+      this.writeTruncated(offset, 8, (view) =>
+        view.setBigUint64(0, v, littleEndian),
+      );
+    }
+
     return this;
   }
 
+  /**
+   * Writes exactly eight (8) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using a *big-endian* byte order
+   * (see {@link writeUint64}).
+   *
+   * @access public
+   * @param   {bigint}  v     The value of the bytes to be written as a BigInt.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint64BE(v: bigint): Writer {
+    return this.writeUint64(v, false);
+  }
+
+  /**
+   * Writes exactly eight (8) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using a *little-endian* byte order
+   * (see {@link writeUint64}).
+   *
+   * @access public
+   * @param   {bigint}  v     The value of the bytes to be written as a BigInt.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeUint64LE(v: bigint): Writer {
+    return this.writeUint64(v, true);
+  }
+
+  /**
+   * Writes exactly one (1) byte to {@link buffer} with the cursor
+   * positioned at {@link offset}, using two's complement notation.
+   * <br /><br />
+   * This method can be used to write numbers from -128 to 127.
+   *
+   * @access public
+   * @param   {number}  v     The value of the byte to be written.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 8 bits.
+   */
+  public writeInt8(v: number): Writer {
+    this.checkSigned(v, 8);
+    return this.writeUint8(v & 0xff);
+  }
+
+  /**
+   * Writes exactly two (2) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using two's complement notation.
+   * <br /><br />
+   * This method can be used to write numbers from -32_768 to 32_767.
+   * <br /><br />
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {number}   v               The value of the bytes to be written.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 16 bits.
+   */
+  public writeInt16(
+    v: number,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    this.checkSigned(v, 16);
+    return this.writeUint16(v & 0xffff, littleEndian);
+  }
+
+  /**
+   * Writes exactly four (4) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using two's complement notation.
+   * <br /><br />
+   * This method can be used to write numbers from -2_147_483_648 to
+   * 2_147_483_647.
+   * <br /><br />
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {number}   v               The value of the bytes to be written.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 32 bits.
+   */
+  public writeInt32(
+    v: number,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    this.checkSigned(v, 32);
+    return this.writeUint32(v >>> 0, littleEndian);
+  }
+
+  /**
+   * Writes exactly eight (8) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using two's complement notation.
+   * <br /><br />
+   * This method can be used to write numbers from -9_223_372_036_854_775_808
+   * to 9_223_372_036_854_775_807.
+   * <br /><br />
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {bigint}   v               The value of the bytes to be written as a BigInt.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 64 bits.
+   */
+  public writeInt64(
+    v: bigint,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    this.checkSigned(v, 64);
+    return this.writeUint64(BigInt.asUintN(64, v), littleEndian);
+  }
+
+  /**
+   * Writes exactly sixteen (16) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}.
+   * <br /><br />
+   * This method can be used to write numbers from 0 to 2^128-1.
+   * <br /><br />
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {bigint}   v               The value of the bytes to be written as a BigInt.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {RangeError}  Given a negative value.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 128 bits.
+   */
+  public writeUint128(
+    v: bigint,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    return this.writeBigUint(v, 16, littleEndian);
+  }
+
+  /**
+   * Writes exactly sixteen (16) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using two's complement notation.
+   * <br /><br />
+   * This method can be used to write numbers from -2^127 to 2^127-1.
+   * <br /><br />
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {bigint}   v               The value of the bytes to be written as a BigInt.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 128 bits.
+   */
+  public writeInt128(
+    v: bigint,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    return this.writeBigInt(v, 16, littleEndian);
+  }
+
+  /**
+   * Writes exactly thirty-two (32) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}.
+   * <br /><br />
+   * This method can be used to write numbers from 0 to 2^256-1, e.g. token
+   * balances on Ethereum or proof-of-work targets.
+   * <br /><br />
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {bigint}   v               The value of the bytes to be written as a BigInt.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {RangeError}  Given a negative value.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 256 bits.
+   */
+  public writeUint256(
+    v: bigint,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    return this.writeBigUint(v, 32, littleEndian);
+  }
+
+  /**
+   * Writes exactly thirty-two (32) bytes to {@link buffer} with the cursor
+   * positioned at {@link offset}, using two's complement notation.
+   * <br /><br />
+   * This method can be used to write numbers from -2^255 to 2^255-1.
+   * <br /><br />
+   * Caution: this method writes the bytes aligned with the byte order
+   * of {@link littleEndian}, unless specified otherwise.
+   *
+   * @access public
+   * @param   {bigint}   v               The value of the bytes to be written as a BigInt.
+   * @param   {boolean}  littleEndian    (Optional) The byte order, defaults to {@link littleEndian}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 256 bits.
+   */
+  public writeInt256(
+    v: bigint,
+    littleEndian: boolean = this.littleEndian,
+  ): Writer {
+    return this.writeBigInt(v, 32, littleEndian);
+  }
+
   /**
    * Writes a number of bytes from {@link buf} to {@link buffer} with
    * the cursor positioned of {@link buf} at {@link index}.
@@ -179,9 +578,352 @@ export class Writer {
    * @returns {Writer}  The writer instance to permit chaining of method calls.
    */
   public writeBuffer(buf: Uint8Array, index: number = 0): Writer {
-    for (let i = index; i < buf.byteLength; i++) {
-      this.writeUint8(buf[i]);
+    const bytes = buf.subarray(index);
+    const offset = this.reserve(bytes.byteLength);
+
+    // non-strict writers drop bytes past the end
+    const length = Math.min(bytes.byteLength, this.size - offset);
+    if (length > 0) {
+      this.buffer.set(bytes.subarray(0, length), offset);
+    }
+
+    return this;
+  }
+
+  /**
+   * Writes a variable-length integer to {@link buffer} with the cursor
+   * positioned at {@link offset}.
+   * <br /><br />
+   * The integer is encoded using the *CompactSize* format as used in
+   * Bitcoin, i.e. values below `0xFD` use one (1) byte and greater
+   * values are prefixed with `0xFD` (uint16), `0xFE` (uint32) or `0xFF`
+   * (uint64), followed by the little-endian value. The encoding always
+   * uses the minimal number of bytes. The byte order of {@link littleEndian}
+   * does not apply to variable-length integers.
+   * <br /><br />
+   * This method can be used to write numbers from 0 to 18_446_744_073_709_551_615.
+   *
+   * @access public
+   * @param   {number | bigint}  v     The value of the variable-length integer.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {RangeError}  Given a negative value.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in 64 bits.
+   */
+  public writeVarInt(v: number | bigint): Writer {
+    const value = BigInt(v);
+    if (value < 0n) {
+      throw new RangeError(
+        `Variable-length integer ${value} must not be negative.`,
+      );
+    } else if (value > 0xffffffffffffffffn) {
+      throw new IntegerOverflowError(
+        `Variable-length integer ${value} does not fit in 64 bits.`,
+        64,
+      );
+    }
+
+    switch (Writer.getVarIntSize(value)) {
+      case 1:
+        return this.writeUint8(Number(value));
+      case 3:
+        return this.writeUint8(0xfd).writeUint16LE(Number(value));
+      case 5:
+        return this.writeUint8(0xfe).writeUint32LE(Number(value));
+      default:
+        return this.writeUint8(0xff).writeUint64LE(value);
+    }
+  }
+
+  /**
+   * Writes a variable-length buffer to {@link buffer} with the cursor
+   * positioned at {@link offset}.
+   * <br /><br />
+   * The bytes of {@link buf} are prefixed with its' byte-length, encoded
+   * as a variable-length integer (see {@link writeVarInt}).
+   * <br /><br />
+   * This method does not change the endianness of the buffer.
+   *
+   * @access public
+   * @param   {Uint8Array}  buf     The buffer being written to {@link buffer}.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   */
+  public writeVarBytes(buf: Uint8Array): Writer {
+    return this.writeVarInt(buf.byteLength).writeBuffer(buf);
+  }
+
+  /**
+   * Writes an unsigned LEB128 integer to {@link buffer} with the cursor
+   * positioned at {@link offset}.
+   * <br /><br />
+   * LEB128 integers are encoded in groups of seven (7) bits, starting
+   * with the least significant group, where the most significant bit
+   * of each byte is set if more bytes follow. The encoding always uses
+   * the minimal number of bytes.
+   *
+   * @access public
+   * @param   {number | bigint}  v       The value of the integer.
+   * @param   {number}           bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {RangeError}  Given a negative value.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link bits} bits.
+   */
+  public writeUleb128(v: number | bigint, bits: number = 64): Writer {
+    let value = BigInt(v);
+    if (value < 0n) {
+      throw new RangeError(`LEB128 integer ${value} must not be negative.`);
+    } else if (value >> BigInt(bits) !== 0n) {
+      throw new IntegerOverflowError(
+        `LEB128 integer ${value} does not fit in ${bits} bits.`,
+        bits,
+      );
+    }
+
+    do {
+      const byte = Number(value & 0x7fn);
+      value >>= 7n;
+      this.writeUint8(value !== 0n ? byte | 0x80 : byte);
+    } while (value !== 0n);
+
+    return this;
+  }
+
+  /**
+   * Writes a signed LEB128 integer to {@link buffer} with the cursor
+   * positioned at {@link offset}.
+   * <br /><br />
+   * Signed LEB128 integers are encoded in two's complement notation, as
+   * groups of seven (7) bits where the highest bit of the last group is
+   * sign-extended. The encoding always uses the minimal number of bytes.
+   *
+   * @access public
+   * @param   {number | bigint}  v       The value of the integer.
+   * @param   {number}           bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link bits} bits.
+   */
+  public writeSleb128(v: number | bigint, bits: number = 64): Writer {
+    let value = BigInt(v);
+    const limit = 1n << BigInt(bits - 1);
+    if (value < -limit || value >= limit) {
+      throw new IntegerOverflowError(
+        `Signed LEB128 integer ${value} does not fit in ${bits} bits.`,
+        bits,
+      );
+    }
+
+    // bigint shifts are arithmetic, i.e. negative values
+    // converge to -1 and positive values converge to 0
+    for (;;) {
+      const byte = Number(value & 0x7fn);
+      value >>= 7n;
+      if ((value === 0n && !(byte & 0x40)) || (value === -1n && byte & 0x40)) {
+        return this.writeUint8(byte);
+      }
+
+      this.writeUint8(byte | 0x80);
+    }
+  }
+
+  /**
+   * Writes a zig-zag encoded LEB128 integer to {@link buffer} with the
+   * cursor positioned at {@link offset}.
+   * <br /><br />
+   * Zig-zag encoding maps signed integers to unsigned integers such that
+   * numbers with a small absolute value use few bytes: 0 => 0, -1 => 1,
+   * 1 => 2, -2 => 3, etc. The mapped value is written as an unsigned
+   * LEB128 integer (see {@link writeUleb128}).
+   *
+   * @access public
+   * @param   {number | bigint}  v       The value of the integer.
+   * @param   {number}           bits    (Optional) The maximum number of bits of the value, defaults to 64.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link bits} bits.
+   */
+  public writeZigZagLeb128(v: number | bigint, bits: number = 64): Writer {
+    const value = BigInt(v);
+    const limit = 1n << BigInt(bits - 1);
+    if (value < -limit || value >= limit) {
+      throw new IntegerOverflowError(
+        `Zig-zag integer ${value} does not fit in ${bits} bits.`,
+        bits,
+      );
+    }
+
+    return this.writeUleb128(value < 0n ? -2n * value - 1n : 2n * value, bits);
+  }
+
+  /**
+   * Returns the bytes that have been written to {@link buffer}, i.e. a
+   * subarray of {@link buffer} that ends at the current {@link offset}.
+   * <br /><br />
+   * This method is mainly useful with *growable* writers, of which the
+   * buffer is usually bigger than the written data.
+   *
+   * @access public
+   * @returns {Uint8Array}  A subarray of {@link buffer} ending at the current offset.
+   */
+  public finish(): Uint8Array {
+    return this.buffer.subarray(0, this.offset);
+  }
+
+  /**
+   * Moves the cursor forward by {@link size} bytes and returns the
+   * offset (position) at which the bytes must be written.
+   * <br /><br />
+   * This method is used by all write methods, such that a *strict* writer
+   * never writes past the end of {@link buffer} and a *growable* writer
+   * grows its' buffer when necessary.
+   *
+   * @access protected
+   * @param   {number}  size    The number of bytes to be written.
+   * @returns {number}  The offset at which the bytes must be written.
+   * @throws  {BufferOverflowError}  Given a strict writer and less than {@link size} bytes available.
+   */
+  protected reserve(size: number): number {
+    const offset = this.offset;
+    if (this.growable && offset + size > this.size) {
+      this.grow(offset + size);
+    } else if (this.strict && offset + size > this.size) {
+      const available = Math.max(0, this.size - offset);
+      throw new BufferOverflowError(
+        `Cannot write ${size} bytes at offset ${offset}, only ${available} bytes available.`,
+        offset,
+        size,
+        available,
+      );
     }
+
+    this.offset += size;
+    return offset;
+  }
+
+  /**
+   * Writes the {@link size} bytes of a value that does not fit before the
+   * end of {@link buffer}, as written by {@link write} to a temporary view,
+   * and drops the bytes past the end, i.e. for *non-strict* writers.
+   *
+   * @access protected
+   * @param   {number}  offset    The offset at which the bytes must be written.
+   * @param   {number}  size      The number of bytes of the value.
+   * @param   {(view: DataView) => void}  write   The function that writes the value at offset 0 of a view.
+   * @returns {void}
+   */
+  protected writeTruncated(
+    offset: number,
+    size: number,
+    write: (view: DataView) => void,
+  ): void {
+    const bytes = new Uint8Array(size);
+    write(new DataView(bytes.buffer));
+
+    const length = Math.min(size, this.size - offset);
+    if (length > 0) {
+      this.buffer.set(bytes.subarray(0, length), offset);
+    }
+  }
+
+  /**
+   * Grows {@link buffer} to hold at least {@link minimum} bytes, using an
+   * amortized doubling of its' size.
+   * <br /><br />
+   * The bytes of the current buffer are copied to a new buffer, and the
+   * properties {@link buffer}, {@link data} and {@link size} are updated.
+   *
+   * @access protected
+   * @param   {number}  minimum   The minimum number of bytes of the new buffer.
+   * @returns {void}
+   */
+  protected grow(minimum: number): void {
+    const buffer = Buffer.alloc(Math.max(minimum, this.size * 2));
+    buffer.set(this.buffer);
+
+    this.buffer = buffer;
+    this.size = buffer.byteLength;
+    this.data = new DataView(
+      buffer.buffer,
+      buffer.byteOffset,
+      buffer.byteLength,
+    );
+  }
+
+  /**
+   * Writes a given {@link size} number of bytes to {@link buffer} with the
+   * cursor positioned at {@link offset}, containing the unsigned value
+   * {@link v}. The bytes are written in words of eight (8) bytes such
+   * that {@link size} must be a multiple of 8.
+   *
+   * @access protected
+   * @param   {bigint}   v               The value of the bytes to be written as a BigInt.
+   * @param   {number}   size            The number of bytes to write, e.g. 16 or 32.
+   * @param   {boolean}  littleEndian    The byte order of the bytes.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {RangeError}  Given a negative value.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link size} bytes.
+   */
+  protected writeBigUint(
+    v: bigint,
+    size: number,
+    littleEndian: boolean,
+  ): Writer {
+    if (v < 0n) {
+      throw new RangeError(`Unsigned integer ${v} must not be negative.`);
+    } else if (v >> BigInt(size * 8) !== 0n) {
+      throw new IntegerOverflowError(
+        `Unsigned integer ${v} does not fit in ${size * 8} bits.`,
+        size * 8,
+      );
+    }
+
+    const words = size / 8;
+    for (let i = 0; i < words; i++) {
+      const shift = BigInt(64 * (littleEndian ? i : words - 1 - i));
+      this.writeUint64(BigInt.asUintN(64, v >> shift), littleEndian);
+    }
+
     return this;
   }
+
+  /**
+   * Writes a given {@link size} number of bytes to {@link buffer} with the
+   * cursor positioned at {@link offset}, containing the signed value
+   * {@link v} in two's complement notation.
+   *
+   * @access protected
+   * @param   {bigint}   v               The value of the bytes to be written as a BigInt.
+   * @param   {number}   size            The number of bytes to write, e.g. 16 or 32.
+   * @param   {boolean}  littleEndian    The byte order of the bytes.
+   * @returns {Writer}  The writer instance to permit chaining of method calls.
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link size} bytes.
+   */
+  protected writeBigInt(
+    v: bigint,
+    size: number,
+    littleEndian: boolean,
+  ): Writer {
+    this.checkSigned(v, size * 8);
+    return this.writeBigUint(BigInt.asUintN(size * 8, v), size, littleEndian);
+  }
+
+  /**
+   * Verifies that the signed value {@link v} fits in {@link bits} bits
+   * using two's complement notation, i.e. from -2^(bits-1) to
+   * 2^(bits-1)-1, such that values are never silently wrapped.
+   *
+   * @access protected
+   * @param   {number | bigint}   v       The signed value to be written.
+   * @param   {number}            bits    The number of bits available for the value.
+   * @returns {void}
+   * @throws  {IntegerOverflowError}  Given a value that does not fit in {@link bits} bits.
+   */
+  protected checkSigned(v: number | bigint, bits: number): void {
+    const limit = 1n << BigInt(bits - 1);
+    const value =
+      typeof v === "bigint" ? v : Number.isInteger(v) ? BigInt(v) : undefined;
+    if (value === undefined || value < -limit || value >= limit) {
+      throw new IntegerOverflowError(
+        `Signed integer ${v} does not fit in ${bits} bits.`,
+        bits,
+      );
+    }
+  }
 }
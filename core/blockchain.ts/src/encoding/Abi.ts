@@ -0,0 +1,976 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { Reader } from "../buffer/Reader";
+import { Writer } from "../buffer/Writer";
+import { IntegerOverflowError } from "../errors/IntegerOverflowError";
+import { InvalidEncodingError } from "../errors/InvalidEncodingError";
+import { Keccak } from "../hashes/Keccak";
+import type { AbiItem, AbiParameter } from "../types/AbiItem";
+import type { DecodedEvent, EventLog, TopicFilter } from "../types/EventLog";
+import type { Parameters } from "../types/Parameters";
+
+/**
+ * @class Abi
+ * @description This class implements the *Solidity ABI* (Application
+ * Binary Interface) that is used to call Ethereum smart contracts and
+ * to decode their results. It parses a JSON ABI, computes function
+ * selectors and event topics, and encodes and decodes values of static
+ * and dynamic types into big-endian 32-byte words.
+ * <br /><br />
+ * Arguments are passed as {@link Parameters}, i.e. objects keyed by the
+ * names of the ABI parameters, or as arrays in the order of the ABI
+ * parameters. Decoded values are returned as {@link Parameters} keyed by
+ * name, or by position for unnamed parameters. Values are represented
+ * as follows:
+ * | ABI type | Value |
+ * | --- | --- |
+ * | `uintN`, `intN` | `bigint` (`number` and decimal or hexadecimal `string` are accepted) |
+ * | `address` | hexadecimal `string` prefixed with `0x` (`Uint8Array` is accepted) |
+ * | `bool` | `boolean` |
+ * | `bytesN`, `bytes` | `Uint8Array` (hexadecimal `string` is accepted) |
+ * | `string` | `string` |
+ * | `T[]`, `T[k]` | arrays of values |
+ * | `tuple` | {@link Parameters} keyed by component names (arrays are accepted) |
+ *
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link Abi} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `abi` | `AbiItem[] \| string` | **Required** | Contains the JSON ABI of a contract, parsed or as a string. |
+ *
+ * <br /><br />
+ * @example Using the `Abi` class
+ * ```ts
+ * const erc20 = new Abi(json);
+ * const data = erc20.encodeFunctionData("transfer", {
+ *   to: "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+ *   amount: 1000n,
+ * }); // a9059cbb...
+ *
+ * const { name, args } = erc20.decodeFunctionData(data);
+ *
+ * // decode event logs and build eth_getLogs topic filters
+ * const events = erc20.decodeEventLogs(receipt.logs);
+ * const topics = erc20.encodeEventTopics("Transfer", { to: recipient });
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Parameters}, {@link EventLog}, {@link Reader}, {@link Writer}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Abi {
+  /**
+   * Contains the entries of the JSON ABI, i.e. functions, events,
+   * errors and the constructor of a contract.
+   *
+   * @access public
+   * @var {AbiItem[]}
+   */
+  public items: AbiItem[];
+
+  /**
+   * Constructs an ABI object around the entries of a JSON {@link abi}.
+   *
+   * @access public
+   * @param   {AbiItem[] | string}  abi   The JSON ABI, parsed or as a string.
+   */
+  public constructor(abi: AbiItem[] | string) {
+    this.items = typeof abi === "string" ? JSON.parse(abi) : abi;
+  }
+
+  /**
+   * Returns the *canonical* signature of a function, event or error,
+   * e.g. `transfer(address,uint256)`, which is hashed to compute its'
+   * selector or topic.
+   *
+   * @static
+   * @access public
+   * @param   {AbiItem}   item    The ABI entry.
+   * @returns {string}  The canonical signature.
+   */
+  public static getSignature(item: AbiItem): string {
+    const types = (item.inputs ?? []).map((p) => Abi.getCanonicalType(p));
+    return `${item.name ?? ""}(${types.join(",")})`;
+  }
+
+  /**
+   * Returns the *canonical* type of a {@link param}, i.e. with tuples
+   * expanded to their components and `uint`/`int` aliases resolved to
+   * `uint256`/`int256`.
+   *
+   * @static
+   * @access public
+   * @param   {AbiParameter}  param   The ABI parameter.
+   * @returns {string}  The canonical type, e.g. `(uint256,address)[]`.
+   */
+  public static getCanonicalType(param: AbiParameter): string {
+    if (param.type.startsWith("tuple")) {
+      const types = (param.components ?? []).map((c) =>
+        Abi.getCanonicalType(c),
+      );
+      return `(${types.join(",")})${param.type.slice(5)}`;
+    }
+
+    return param.type.replace(/^(u?int)(?=\[|$)/, "$1256");
+  }
+
+  /**
+   * Computes the 4-byte *selector* of a function or error, i.e. the
+   * first 4 bytes of the Keccak-256 hash of its' signature.
+   *
+   * @static
+   * @access public
+   * @param   {AbiItem | string}  item    The ABI entry or its' canonical signature.
+   * @returns {Uint8Array}  The 4-byte selector.
+   */
+  public static getSelector(item: AbiItem | string): Uint8Array {
+    return Abi.getEventTopic(item).subarray(0, 4);
+  }
+
+  /**
+   * Computes the *topic* of an event, i.e. the Keccak-256 hash of its'
+   * signature, which is the first topic of the logs of non-anonymous
+   * events.
+   *
+   * @static
+   * @access public
+   * @param   {AbiItem | string}  item    The ABI entry or its' canonical signature.
+   * @returns {Uint8Array}  The 32-byte topic.
+   */
+  public static getEventTopic(item: AbiItem | string): Uint8Array {
+    const signature = typeof item === "string" ? item : Abi.getSignature(item);
+    return Keccak.keccak256(Buffer.from(signature, "utf8"));
+  }
+
+  /**
+   * Encodes {@link values} of the types of {@link params}, i.e. as the
+   * arguments of a function call without selector.
+   *
+   * @static
+   * @access public
+   * @param   {(AbiParameter | string)[]}   params    The ABI parameters, or their types.
+   * @param   {Parameters | unknown[]}      values    The values, by name or in order.
+   * @returns {Uint8Array}  The ABI-encoded values.
+   * @throws  {TypeError}  Given an unsupported type or a value of the wrong type.
+   * @throws  {RangeError}  Given a value of the wrong length or a negative unsigned integer.
+   * @throws  {IntegerOverflowError}  Given an integer that does not fit its' type.
+   */
+  public static encode(
+    params: (AbiParameter | string)[],
+    values: Parameters | unknown[],
+  ): Uint8Array {
+    const types = params.map((p) => (typeof p === "string" ? { type: p } : p));
+    const writer = Writer.createGrowable(Writer.DEFAULT_CAPACITY, false);
+    Abi.writeSequence(writer, types, Abi.toValues(types, values));
+    return writer.finish();
+  }
+
+  /**
+   * Decodes values of the types of {@link params} from {@link data},
+   * e.g. the results of a function call, and returns them by name, or
+   * by position for unnamed parameters.
+   *
+   * @static
+   * @access public
+   * @param   {(AbiParameter | string)[]}   params    The ABI parameters, or their types.
+   * @param   {Uint8Array}                  data      The ABI-encoded values.
+   * @returns {T}  The decoded values, as a {@link Parameters} object.
+   * @throws  {InvalidEncodingError}  Given values that are not valid for their type.
+   * @throws  {BufferUnderflowError}  Given truncated data.
+   */
+  public static decode<T extends Parameters = Record<string, any>>(
+    params: (AbiParameter | string)[],
+    data: Uint8Array,
+  ): T {
+    const types = params.map((p) => (typeof p === "string" ? { type: p } : p));
+    const values = Abi.readSequence(Abi.toReader(data), 0, types);
+    return Abi.toParameters(types, values) as T;
+  }
+
+  /**
+   * Returns the function that matches a {@link key}, i.e. its' name, its'
+   * canonical signature or its' hexadecimal selector (e.g. `0xa9059cbb`).
+   *
+   * @access public
+   * @param   {string}  key   The name, signature or selector of the function.
+   * @returns {AbiItem}  The ABI entry of the function.
+   * @throws  {RangeError}  Given an unknown function or an ambiguous (overloaded) name.
+   */
+  public getFunction(key: string): AbiItem {
+    return this.findItem("function", key, (item) =>
+      Buffer.from(Abi.getSelector(item)).toString("hex"),
+    );
+  }
+
+  /**
+   * Returns the event that matches a {@link key}, i.e. its' name, its'
+   * canonical signature or its' hexadecimal topic.
+   *
+   * @access public
+   * @param   {string}  key   The name, signature or topic of the event.
+   * @returns {AbiItem}  The ABI entry of the event.
+   * @throws  {RangeError}  Given an unknown event or an ambiguous (overloaded) name.
+   */
+  public getEvent(key: string): AbiItem {
+    return this.findItem("event", key, (item) =>
+      Buffer.from(Abi.getEventTopic(item)).toString("hex"),
+    );
+  }
+
+  /**
+   * Encodes a call to a function, i.e. its' selector followed by the
+   * encoded {@link args}, e.g. as the `data` of a transaction.
+   *
+   * @access public
+   * @param   {string}                  key     The name, signature or selector of the function.
+   * @param   {Parameters | unknown[]}  args    (Optional) The arguments, by name or in order.
+   * @returns {Uint8Array}  The call data.
+   */
+  public encodeFunctionData(
+    key: string,
+    args: Parameters | unknown[] = [],
+  ): Uint8Array {
+    const item = this.getFunction(key);
+    return Buffer.concat([
+      Abi.getSelector(item),
+      Abi.encode(item.inputs ?? [], args),
+    ]);
+  }
+
+  /**
+   * Decodes the call {@link data} of a function, i.e. determines the
+   * function from its' selector and decodes its' arguments.
+   *
+   * @access public
+   * @param   {Uint8Array}  data    The call data.
+   * @returns {{ name: string, args: T }}  The name and the arguments of the function.
+   * @throws  {RangeError}  Given an unknown selector.
+   */
+  public decodeFunctionData<T extends Parameters = Record<string, any>>(
+    data: Uint8Array,
+  ): { name: string; args: T } {
+    const selector = Buffer.from(data.subarray(0, 4)).toString("hex");
+    const item = this.getFunction(`0x${selector}`);
+    return {
+      name: item.name ?? "",
+      args: Abi.decode<T>(item.inputs ?? [], data.subarray(4)),
+    };
+  }
+
+  /**
+   * Decodes the result {@link data} of a call to a function, i.e. the
+   * values of its' outputs.
+   *
+   * @access public
+   * @param   {string}      key     The name, signature or selector of the function.
+   * @param   {Uint8Array}  data    The returned data.
+   * @returns {T}  The decoded outputs, as a {@link Parameters} object.
+   */
+  public decodeFunctionResult<T extends Parameters = Record<string, any>>(
+    key: string,
+    data: Uint8Array,
+  ): T {
+    return Abi.decode<T>(this.getFunction(key).outputs ?? [], data);
+  }
+
+  /**
+   * Decodes a {@link log} entry that was emitted by an event, i.e. its'
+   * indexed arguments from the topics and its' other arguments from the
+   * data. Indexed arguments of *reference* types, e.g. `string`, `bytes`,
+   * arrays and tuples, are decoded as their 32-byte Keccak-256 hash.
+   * <br /><br />
+   * The event is determined from the first topic, unless a {@link key}
+   * is given, which is required to decode logs of *anonymous* events.
+   *
+   * @access public
+   * @param   {EventLog}  log     The log entry, e.g. of a transaction receipt.
+   * @param   {string}    key     (Optional) The name, signature or topic of the event.
+   * @returns {DecodedEvent<T>}  The name and the arguments of the event.
+   * @throws  {RangeError}  Given an unknown event or a wrong number of topics.
+   * @throws  {InvalidEncodingError}  Given arguments that are not valid for their type.
+   */
+  public decodeEventLog<T extends Parameters = Record<string, any>>(
+    log: EventLog,
+    key?: string,
+  ): DecodedEvent<T> {
+    const topics = log.topics.map((t) => Abi.toBytes(t, "bytes32", 32));
+    if (key === undefined && !topics.length) {
+      throw new RangeError(
+        `ABI event of a log without topics must be given by name or signature.`,
+      );
+    }
+
+    const item = this.getEvent(
+      key ?? `0x${Buffer.from(topics[0]).toString("hex")}`,
+    );
+    const inputs = item.inputs ?? [];
+    const indexed = inputs.filter((p) => p.indexed);
+
+    // the first topic of non-anonymous events is the event topic
+    let position = item.anonymous ? 0 : 1;
+    if (topics.length !== indexed.length + position) {
+      throw new RangeError(
+        `ABI event ${item.name} expects ${indexed.length + position} topics, got ${topics.length}.`,
+      );
+    }
+
+    const data = Abi.readSequence(
+      Abi.toReader(Abi.toBytes(log.data, "bytes")),
+      0,
+      inputs.filter((p) => !p.indexed),
+    );
+
+    const values = inputs.map((param) => {
+      if (!param.indexed) {
+        return data.shift();
+      }
+
+      const topic = topics[position++];
+      return Abi.isHashed(param)
+        ? Buffer.from(topic)
+        : Abi.readValue(Abi.toReader(topic), 0, param);
+    });
+
+    return {
+      name: item.name ?? "",
+      args: Abi.toParameters(inputs, values) as T,
+      address: log.address,
+    };
+  }
+
+  /**
+   * Decodes the {@link logs} of events of this ABI, e.g. the logs of a
+   * transaction receipt. Logs of other events, e.g. as emitted by other
+   * contracts, and logs of anonymous events are skipped.
+   *
+   * @access public
+   * @param   {EventLog[]}  logs      The log entries.
+   * @param   {string}      address   (Optional) Only decode logs emitted by this contract address.
+   * @returns {DecodedEvent[]}  The decoded events, in order.
+   */
+  public decodeEventLogs(logs: EventLog[], address?: string): DecodedEvent[] {
+    const topics = this.items
+      .filter((item) => item.type === "event" && !item.anonymous)
+      .map((item) => Buffer.from(Abi.getEventTopic(item)).toString("hex"));
+
+    return logs
+      .filter(
+        (log) =>
+          (address === undefined ||
+            log.address?.toLowerCase() === address.toLowerCase()) &&
+          log.topics.length > 0 &&
+          topics.includes(
+            Buffer.from(Abi.toBytes(log.topics[0], "bytes32", 32)).toString(
+              "hex",
+            ),
+          ),
+      )
+      .map((log) => this.decodeEventLog(log));
+  }
+
+  /**
+   * Builds the topic filter of an `eth_getLogs` query for an event,
+   * given {@link values} of its' indexed arguments by name or in order.
+   * <br /><br />
+   * Missing values (or `null`) match any topic, and arrays of values
+   * match any of the values. Values of `string` and `bytes` arguments
+   * are hashed, and values of array and tuple arguments must be given as
+   * their 32-byte Keccak-256 hash.
+   *
+   * @access public
+   * @param   {string}                  key       The name, signature or topic of the event.
+   * @param   {Parameters | unknown[]}  values    (Optional) The values of indexed arguments.
+   * @returns {TopicFilter}  The topics, as hexadecimal strings.
+   * @throws  {RangeError}  Given an unknown event.
+   */
+  public encodeEventTopics(
+    key: string,
+    values: Parameters | unknown[] = {},
+  ): TopicFilter {
+    const item = this.getEvent(key);
+    const inputs = item.inputs ?? [];
+    const indexed = inputs.filter((p) => p.indexed);
+    const args = Array.isArray(values)
+      ? values
+      : inputs
+          .map(
+            (p, i) => (values as Record<string, unknown>)[p.name || String(i)],
+          )
+          .filter((_, i) => inputs[i].indexed);
+
+    const filter: TopicFilter = item.anonymous
+      ? []
+      : [`0x${Buffer.from(Abi.getEventTopic(item)).toString("hex")}`];
+
+    indexed.forEach((param, i) => {
+      const value = args[i];
+      filter.push(
+        value === undefined || value === null
+          ? null
+          : Array.isArray(value)
+            ? value.map((v) => Abi.encodeTopic(param, v))
+            : Abi.encodeTopic(param, value),
+      );
+    });
+
+    // trailing wildcards are implicit
+    while (filter.length && filter[filter.length - 1] === null) {
+      filter.pop();
+    }
+
+    return filter;
+  }
+
+  /**
+   * Finds the entry of a given {@link type} that matches a {@link key},
+   * i.e. its' name, its' canonical signature or its' hexadecimal hash as
+   * computed with {@link getHash}.
+   *
+   * @access protected
+   * @param   {string}    type      The type of the entry, e.g. `function`.
+   * @param   {string}    key       The name, signature or hash of the entry.
+   * @param   {(item: AbiItem) => string}   getHash   Computes the hexadecimal hash of an entry.
+   * @returns {AbiItem}  The matching ABI entry.
+   * @throws  {RangeError}  Given an unknown entry or an ambiguous (overloaded) name.
+   */
+  protected findItem(
+    type: AbiItem["type"],
+    key: string,
+    getHash: (item: AbiItem) => string,
+  ): AbiItem {
+    const items = this.items.filter((item) => item.type === type);
+    const matches = key.startsWith("0x")
+      ? items.filter((item) => getHash(item) === key.slice(2).toLowerCase())
+      : key.includes("(")
+        ? items.filter((item) => Abi.getSignature(item) === key)
+        : items.filter((item) => item.name === key);
+
+    if (matches.length !== 1) {
+      throw new RangeError(
+        matches.length
+          ? `ABI ${type} ${key} is ambiguous, use its' signature instead.`
+          : `ABI ${type} ${key} does not exist.`,
+      );
+    }
+
+    return matches[0];
+  }
+
+  /**
+   * Returns the values of {@link params} in order, given values by name
+   * (or by position for unnamed parameters) or in order.
+   *
+   * @static
+   * @access protected
+   * @param   {AbiParameter[]}  params    The ABI parameters.
+   * @param   {unknown}         values    The values, by name or in order.
+   * @returns {unknown[]}  The values in order.
+   * @throws  {TypeError}  Given values that are neither an object nor an array.
+   * @throws  {RangeError}  Given a different number of values than parameters.
+   */
+  protected static toValues(
+    params: AbiParameter[],
+    values: unknown,
+  ): unknown[] {
+    if (values === null || typeof values !== "object") {
+      throw new TypeError(`ABI values must be an object or an array.`);
+    } else if (!Array.isArray(values)) {
+      const bag = values as Record<string, unknown>;
+      return params.map((p, i) => bag[p.name || String(i)]);
+    } else if (values.length !== params.length) {
+      throw new RangeError(
+        `ABI expects ${params.length} values, got ${values.length}.`,
+      );
+    }
+
+    return values;
+  }
+
+  /**
+   * Returns the values of {@link params} as a {@link Parameters} object,
+   * keyed by name or by position for unnamed parameters.
+   *
+   * @static
+   * @access protected
+   * @param   {AbiParameter[]}  params    The ABI parameters.
+   * @param   {unknown[]}       values    The values in order.
+   * @returns {Parameters}  The values by name.
+   */
+  protected static toParameters(
+    params: AbiParameter[],
+    values: unknown[],
+  ): Parameters {
+    const bag: Record<string, unknown> = {};
+    params.forEach((p, i) => (bag[p.name || String(i)] = values[i]));
+    return bag as Parameters;
+  }
+
+  /**
+   * Returns the type of the items and the length of an array type, or
+   * `undefined` if the type is not an array. The length is `undefined`
+   * for dynamic arrays.
+   *
+   * @static
+   * @access protected
+   * @param   {AbiParameter}  param   The ABI parameter.
+   * @returns {{ item: AbiParameter, length?: number } | undefined}  The items and length of the array.
+   */
+  protected static getArrayType(
+    param: AbiParameter,
+  ): { item: AbiParameter; length?: number } | undefined {
+    const match = param.type.match(/^(.*)\[(\d*)\]$/);
+    if (!match) {
+      return undefined;
+    }
+
+    return {
+      item: { ...param, type: match[1] },
+      length: match[2] === "" ? undefined : Number(match[2]),
+    };
+  }
+
+  /**
+   * Returns whether an indexed {@link param} is stored in a topic as the
+   * Keccak-256 hash of its' value, i.e. whether it is of a *reference*
+   * type such as `string`, `bytes`, arrays and tuples.
+   *
+   * @static
+   * @access protected
+   * @param   {AbiParameter}  param   The ABI parameter.
+   * @returns {boolean}  True if the value is hashed.
+   */
+  protected static isHashed(param: AbiParameter): boolean {
+    return (
+      Abi.isDynamic(param) ||
+      param.type === "tuple" ||
+      Abi.getArrayType(param) !== undefined
+    );
+  }
+
+  /**
+   * Encodes the {@link value} of an indexed {@link param} as a topic.
+   *
+   * @static
+   * @access protected
+   * @param   {AbiParameter}  param   The ABI parameter.
+   * @param   {unknown}       value   The value of the argument.
+   * @returns {string}  The topic, as a hexadecimal string.
+   */
+  protected static encodeTopic(param: AbiParameter, value: unknown): string {
+    let topic: Uint8Array;
+    if (param.type === "string") {
+      topic = Keccak.keccak256(Buffer.from(String(value), "utf8"));
+    } else if (param.type === "bytes") {
+      topic = Keccak.keccak256(Abi.toBytes(value, param.type));
+    } else if (Abi.isHashed(param)) {
+      topic = Abi.toBytes(value, param.type, 32);
+    } else {
+      topic = Abi.encode([param], [value]);
+    }
+
+    return `0x${Buffer.from(topic).toString("hex")}`;
+  }
+
+  /**
+   * Returns whether a {@link param} is of a *dynamic* type, i.e. a type
+   * of which the values are encoded in the tail of their sequence.
+   *
+   * @static
+   * @access protected
+   * @param   {AbiParameter}  param   The ABI parameter.
+   * @returns {boolean}  True if the type is dynamic.
+   */
+  protected static isDynamic(param: AbiParameter): boolean {
+    const array = Abi.getArrayType(param);
+    if (array) {
+      return array.length === undefined || Abi.isDynamic(array.item);
+    } else if (param.type === "tuple") {
+      return (param.components ?? []).some((c) => Abi.isDynamic(c));
+    }
+
+    return param.type === "bytes" || param.type === "string";
+  }
+
+  /**
+   * Returns the number of bytes of the encoding of a *static* type, i.e.
+   * the number of bytes that it occupies in the head of its' sequence.
+   *
+   * @static
+   * @access protected
+   * @param   {AbiParameter}  param   The ABI parameter.
+   * @returns {number}  The number of bytes, 32 for dynamic types.
+   */
+  protected static getHeadSize(param: AbiParameter): number {
+    if (Abi.isDynamic(param)) {
+      return 32;
+    }
+
+    const array = Abi.getArrayType(param);
+    if (array) {
+      return (array.length ?? 0) * Abi.getHeadSize(array.item);
+    } else if (param.type === "tuple") {
+      return (param.components ?? [])
+        .map((c) => Abi.getHeadSize(c))
+        .reduce((prev, cur) => prev + cur, 0);
+    }
+
+    return 32;
+  }
+
+  /**
+   * Writes a *sequence* of values, i.e. the heads of all values followed
+   * by the tails of dynamic values, where the heads of dynamic values are
+   * the offsets of their tails relative to the start of the sequence.
+   *
+   * @static
+   * @access protected
+   * @param   {Writer}            writer    The writer instance.
+   * @param   {AbiParameter[]}    params    The ABI parameters.
+   * @param   {unknown[]}         values    The values in order.
+   * @returns {void}
+   */
+  protected static writeSequence(
+    writer: Writer,
+    params: AbiParameter[],
+    values: unknown[],
+  ): void {
+    const headSize = params
+      .map((p) => Abi.getHeadSize(p))
+      .reduce((prev, cur) => prev + cur, 0);
+
+    const tails = Writer.createGrowable(Writer.DEFAULT_CAPACITY, false);
+    params.forEach((param, i) => {
+      if (Abi.isDynamic(param)) {
+        writer.writeUint256(BigInt(headSize + tails.offset));
+        Abi.writeValue(tails, param, values[i]);
+      } else {
+        Abi.writeValue(writer, param, values[i]);
+      }
+    });
+
+    writer.writeBuffer(tails.finish());
+  }
+
+  /**
+   * Writes a {@link value} of the type of {@link param}.
+   *
+   * @static
+   * @access protected
+   * @param   {Writer}          writer    The writer instance.
+   * @param   {AbiParameter}    param     The ABI parameter.
+   * @param   {unknown}         value     The value.
+   * @returns {void}
+   */
+  protected static writeValue(
+    writer: Writer,
+    param: AbiParameter,
+    value: unknown,
+  ): void {
+    const array = Abi.getArrayType(param);
+    if (array) {
+      if (!Array.isArray(value)) {
+        throw new TypeError(
+          `ABI value of type ${param.type} must be an array.`,
+        );
+      } else if (array.length === undefined) {
+        writer.writeUint256(BigInt(value.length));
+      } else if (value.length !== array.length) {
+        throw new RangeError(
+          `ABI value of type ${param.type} must contain ${array.length} items, got ${value.length}.`,
+        );
+      }
+
+      const items = new Array(value.length).fill(array.item);
+      Abi.writeSequence(writer, items, value);
+      return;
+    }
+
+    const type = param.type;
+    if (type === "tuple") {
+      const components = param.components ?? [];
+      Abi.writeSequence(writer, components, Abi.toValues(components, value));
+    } else if (type === "bytes" || type === "string") {
+      const data =
+        type === "string"
+          ? Buffer.from(String(value), "utf8")
+          : Abi.toBytes(value, type);
+      writer.writeUint256(BigInt(data.byteLength));
+      Abi.writePadded(writer, data);
+    } else if (type === "bool") {
+      writer.writeUint256(value ? 1n : 0n);
+    } else if (type === "address") {
+      const data = Abi.toBytes(value, type, 20);
+      writer.writeBuffer(new Uint8Array(12));
+      writer.writeBuffer(data);
+    } else if (/^bytes([1-9]|[12][0-9]|3[0-2])$/.test(type)) {
+      Abi.writePadded(writer, Abi.toBytes(value, type, Number(type.slice(5))));
+    } else if (/^u?int\d*$/.test(type)) {
+      const signed = !type.startsWith("u");
+      const bits = Number(type.slice(signed ? 3 : 4) || 256);
+      const v = Abi.toBigInt(value, type);
+      const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+      const max = (1n << BigInt(signed ? bits - 1 : bits)) - 1n;
+      if (v < 0n && !signed) {
+        throw new RangeError(
+          `ABI value ${v} of type ${type} must not be negative.`,
+        );
+      } else if (v < min || v > max) {
+        throw new IntegerOverflowError(
+          `ABI value ${v} does not fit in type ${type}.`,
+          bits,
+        );
+      }
+
+      if (signed) {
+        writer.writeInt256(v);
+      } else {
+        writer.writeUint256(v);
+      }
+    } else {
+      throw new TypeError(`ABI type ${type} is not supported.`);
+    }
+  }
+
+  /**
+   * Writes {@link data} followed by zero bytes up to the next multiple
+   * of 32 bytes.
+   *
+   * @static
+   * @access protected
+   * @param   {Writer}      writer    The writer instance.
+   * @param   {Uint8Array}  data      The data to write.
+   * @returns {void}
+   */
+  protected static writePadded(writer: Writer, data: Uint8Array): void {
+    writer.writeBuffer(data);
+    writer.writeBuffer(new Uint8Array((32 - (data.byteLength % 32)) % 32));
+  }
+
+  /**
+   * Reads a *sequence* of values that starts at {@link base}, i.e. the
+   * heads of all values, where the heads of dynamic values contain the
+   * offsets of their tails relative to {@link base}.
+   *
+   * @static
+   * @access protected
+   * @param   {Reader}          reader    The reader instance.
+   * @param   {number}          base      The offset of the sequence.
+   * @param   {AbiParameter[]}  params    The ABI parameters.
+   * @returns {unknown[]}  The values in order.
+   */
+  protected static readSequence(
+    reader: Reader,
+    base: number,
+    params: AbiParameter[],
+  ): unknown[] {
+    let position = base;
+    return params.map((param) => {
+      let value: unknown;
+      if (Abi.isDynamic(param)) {
+        reader.seek(position);
+        value = Abi.readValue(reader, base + Abi.readSize(reader), param);
+      } else {
+        value = Abi.readValue(reader, position, param);
+      }
+
+      position += Abi.getHeadSize(param);
+      return value;
+    });
+  }
+
+  /**
+   * Reads a value of the type of {@link param} that starts at
+   * {@link offset}.
+   *
+   * @static
+   * @access protected
+   * @param   {Reader}          reader    The reader instance.
+   * @param   {number}          offset    The offset of the value.
+   * @param   {AbiParameter}    param     The ABI parameter.
+   * @returns {unknown}  The decoded value.
+   * @throws  {InvalidEncodingError}  Given a value that is not valid for its' type.
+   */
+  protected static readValue(
+    reader: Reader,
+    offset: number,
+    param: AbiParameter,
+  ): unknown {
+    reader.seek(offset);
+
+    const array = Abi.getArrayType(param);
+    if (array) {
+      const length = array.length ?? Abi.readSize(reader);
+      const items = new Array(length).fill(array.item);
+      return Abi.readSequence(reader, reader.offset, items);
+    }
+
+    const type = param.type;
+    if (type === "tuple") {
+      const components = param.components ?? [];
+      return Abi.toParameters(
+        components,
+        Abi.readSequence(reader, offset, components),
+      );
+    } else if (type === "bytes" || type === "string") {
+      const data = Buffer.from(reader.readBuffer(Abi.readSize(reader)));
+      return type === "string" ? data.toString("utf8") : data;
+    }
+
+    const word = Buffer.from(reader.readBuffer(32));
+    const invalid = (reason: string) =>
+      new InvalidEncodingError(
+        `ABI value of type ${type} at offset ${offset} ${reason}.`,
+        offset,
+      );
+
+    if (type === "bool") {
+      if (word.subarray(0, 31).some((b) => b !== 0) || word[31] > 1) {
+        throw invalid("must be 0 or 1");
+      }
+
+      return word[31] === 1;
+    } else if (type === "address") {
+      if (word.subarray(0, 12).some((b) => b !== 0)) {
+        throw invalid("must be padded with zeros");
+      }
+
+      return `0x${word.subarray(12).toString("hex")}`;
+    } else if (/^bytes([1-9]|[12][0-9]|3[0-2])$/.test(type)) {
+      const size = Number(type.slice(5));
+      if (word.subarray(size).some((b) => b !== 0)) {
+        throw invalid("must be padded with zeros");
+      }
+
+      return word.subarray(0, size);
+    } else if (/^u?int\d*$/.test(type)) {
+      const signed = !type.startsWith("u");
+      const bits = BigInt(type.slice(signed ? 3 : 4) || 256);
+      const value = word.reduce((prev, cur) => (prev << 8n) + BigInt(cur), 0n);
+      const result = signed
+        ? BigInt.asIntN(Number(bits), value)
+        : BigInt.asUintN(Number(bits), value);
+
+      // the value must be sign- or zero-extended to 256 bits
+      if (BigInt.asUintN(256, result) !== value) {
+        throw invalid(`must fit in ${bits} bits`);
+      }
+
+      return result;
+    }
+
+    throw new TypeError(`ABI type ${type} is not supported.`);
+  }
+
+  /**
+   * Creates a *big-endian* {@link Reader} around ABI-encoded {@link data}.
+   *
+   * @static
+   * @access protected
+   * @param   {Uint8Array}  data    The ABI-encoded data.
+   * @returns {Reader}  The reader instance.
+   */
+  protected static toReader(data: Uint8Array): Reader {
+    return new Reader(
+      Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+      0,
+      false,
+    );
+  }
+
+  /**
+   * Reads a 32-byte word that contains a length or an offset, which
+   * must not exceed the size of the data.
+   *
+   * @static
+   * @access protected
+   * @param   {Reader}  reader    The reader instance.
+   * @returns {number}  The length or offset.
+   * @throws  {InvalidEncodingError}  Given a value that exceeds the size of the data.
+   */
+  protected static readSize(reader: Reader): number {
+    const offset = reader.offset;
+    const value = reader.readUint256();
+    if (value > BigInt(reader.size)) {
+      throw new InvalidEncodingError(
+        `ABI length or offset ${value} at offset ${offset} exceeds the size of the data.`,
+        offset,
+      );
+    }
+
+    return Number(value);
+  }
+
+  /**
+   * Converts a {@link value} to bytes, i.e. a `Uint8Array` or a string
+   * of hexadecimal characters prefixed with `0x`.
+   *
+   * @static
+   * @access protected
+   * @param   {unknown}   value     The value to convert.
+   * @param   {string}    type      The ABI type of the value.
+   * @param   {number}    length    (Optional) The required number of bytes.
+   * @returns {Uint8Array}  The bytes of the value.
+   * @throws  {TypeError}  Given a value that is neither a Uint8Array nor a hexadecimal string.
+   * @throws  {RangeError}  Given a value that does not contain {@link length} bytes.
+   */
+  protected static toBytes(
+    value: unknown,
+    type: string,
+    length?: number,
+  ): Uint8Array {
+    let data: Uint8Array;
+    if (value instanceof Uint8Array) {
+      data = value;
+    } else if (typeof value === "string" && /^0x([0-9a-f]{2})*$/i.test(value)) {
+      data = Buffer.from(value.slice(2), "hex");
+    } else {
+      throw new TypeError(
+        `ABI value of type ${type} must be a Uint8Array or a hexadecimal string.`,
+      );
+    }
+
+    if (length !== undefined && data.byteLength !== length) {
+      throw new RangeError(
+        `ABI value of type ${type} must contain ${length} bytes, got ${data.byteLength}.`,
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Converts a {@link value} to a bigint, i.e. a bigint, a safe integer
+   * number or a decimal or hexadecimal string.
+   *
+   * @static
+   * @access protected
+   * @param   {unknown}   value   The value to convert.
+   * @param   {string}    type    The ABI type of the value.
+   * @returns {bigint}  The integer value.
+   * @throws  {TypeError}  Given a value that is not an integer.
+   */
+  protected static toBigInt(value: unknown, type: string): bigint {
+    if (
+      typeof value === "bigint" ||
+      (typeof value === "number" && Number.isSafeInteger(value)) ||
+      (typeof value === "string" && /^(-?\d+|0x[0-9a-f]+)$/i.test(value))
+    ) {
+      return BigInt(value);
+    }
+
+    throw new TypeError(
+      `ABI value ${value} of type ${type} is not an integer.`,
+    );
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { ChecksumError } from "../errors/ChecksumError";
+import { InvalidEncodingError } from "../errors/InvalidEncodingError";
+import { Hashes } from "../hashes/Hashes";
+
+/**
+ * @class Base58
+ * @description This class implements the *Base58* encoding as used by
+ * Bitcoin, i.e. with an alphabet that omits the ambiguous characters
+ * `0`, `O`, `I` and `l`, and *Base58Check*, which appends a 4-byte
+ * double-SHA256 checksum to the payload, e.g. for addresses, WIF private
+ * keys and extended keys (xpub).
+ * <br /><br />
+ * Leading zero bytes are encoded as leading `1` characters and vice
+ * versa, such that the length of the data is preserved.
+ * <br /><br />
+ * @example Using the `Base58` class
+ * ```ts
+ * // P2PKH address: version byte 0x00 followed by HASH160(publicKey)
+ * const address = Base58.encodeCheck(Buffer.concat([Buffer.from([0]), hash]));
+ *
+ * const payload = Base58.decodeCheck("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2");
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Wallet}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Base58 {
+  /**
+   * Contains the characters of the Base58 alphabet, by value.
+   *
+   * @static
+   * @access public
+   * @var {string}
+   */
+  public static ALPHABET =
+    "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+  /**
+   * Encodes {@link data} as a Base58 string.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The bytes to encode.
+   * @returns {string}  The Base58 string.
+   */
+  public static encode(data: Uint8Array): string {
+    let zeros = 0;
+    while (zeros < data.length && data[zeros] === 0) {
+      zeros++;
+    }
+
+    // base conversion of the remaining bytes, least significant digit first
+    const digits: number[] = [];
+    for (let i = zeros; i < data.length; i++) {
+      let carry = data[i];
+      for (let j = 0; j < digits.length; j++) {
+        carry += digits[j] << 8;
+        digits[j] = carry % 58;
+        carry = (carry / 58) | 0;
+      }
+
+      while (carry > 0) {
+        digits.push(carry % 58);
+        carry = (carry / 58) | 0;
+      }
+    }
+
+    return (
+      Base58.ALPHABET[0].repeat(zeros) +
+      digits
+        .reverse()
+        .map((d) => Base58.ALPHABET[d])
+        .join("")
+    );
+  }
+
+  /**
+   * Decodes a Base58 {@link text} to its' bytes.
+   *
+   * @static
+   * @access public
+   * @param   {string}  text    The Base58 string.
+   * @returns {Uint8Array}  The decoded bytes.
+   * @throws  {InvalidEncodingError}  Given a character that is not part of the alphabet.
+   */
+  public static decode(text: string): Uint8Array {
+    let zeros = 0;
+    while (zeros < text.length && text[zeros] === Base58.ALPHABET[0]) {
+      zeros++;
+    }
+
+    // base conversion of the remaining digits, least significant byte first
+    const bytes: number[] = [];
+    for (let i = zeros; i < text.length; i++) {
+      let carry = Base58.ALPHABET.indexOf(text[i]);
+      if (carry < 0) {
+        throw new InvalidEncodingError(
+          `Base58 character "${text[i]}" at offset ${i} is invalid.`,
+          i,
+        );
+      }
+
+      for (let j = 0; j < bytes.length; j++) {
+        carry += bytes[j] * 58;
+        bytes[j] = carry & 0xff;
+        carry >>= 8;
+      }
+
+      while (carry > 0) {
+        bytes.push(carry & 0xff);
+        carry >>= 8;
+      }
+    }
+
+    return Buffer.concat([Buffer.alloc(zeros), Buffer.from(bytes.reverse())]);
+  }
+
+  /**
+   * Encodes a {@link payload} as a Base58Check string, i.e. followed by
+   * the first 4 bytes of its' double-SHA256 hash.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  payload   The bytes to encode, e.g. a version byte followed by a hash.
+   * @returns {string}  The Base58Check string.
+   */
+  public static encodeCheck(payload: Uint8Array): string {
+    return Base58.encode(Buffer.concat([payload, Base58.getChecksum(payload)]));
+  }
+
+  /**
+   * Decodes a Base58Check {@link text} and verifies its' checksum.
+   *
+   * @static
+   * @access public
+   * @param   {string}  text    The Base58Check string.
+   * @returns {Uint8Array}  The decoded payload, without checksum.
+   * @throws  {InvalidEncodingError}  Given an invalid character or less than 4 bytes.
+   * @throws  {ChecksumError}  Given a checksum that does not match the payload.
+   */
+  public static decodeCheck(text: string): Uint8Array {
+    const data = Base58.decode(text);
+    if (data.length < 4) {
+      throw new InvalidEncodingError(
+        `Base58Check data must contain at least 4 bytes, got ${data.length}.`,
+        0,
+      );
+    }
+
+    const payload = data.subarray(0, data.length - 4);
+    const checksum = Buffer.from(data.subarray(data.length - 4));
+    if (!checksum.equals(Base58.getChecksum(payload))) {
+      throw new ChecksumError(
+        `Base58Check checksum ${checksum.toString("hex")} does not match its' payload.`,
+      );
+    }
+
+    return payload;
+  }
+
+  /**
+   * Computes the checksum of a {@link payload}, i.e. the first 4 bytes
+   * of its' double-SHA256 hash.
+   *
+   * @static
+   * @access protected
+   * @param   {Uint8Array}  payload   The payload.
+   * @returns {Buffer}  The 4-byte checksum.
+   */
+  protected static getChecksum(payload: Uint8Array): Buffer {
+    return Buffer.from(Hashes.sha256d(payload).subarray(0, 4));
+  }
+}
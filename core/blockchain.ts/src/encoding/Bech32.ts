@@ -0,0 +1,517 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { ChecksumError } from "../errors/ChecksumError";
+import { InvalidEncodingError } from "../errors/InvalidEncodingError";
+import type {
+  Bech32Result,
+  Bech32Variant,
+  SegwitAddress,
+} from "../types/Bech32Result";
+
+/**
+ * @class Bech32
+ * @description This class implements the *Bech32* (BIP173) and *Bech32m*
+ * (BIP350) encodings, i.e. a human-readable part (HRP), the separator `1`
+ * and data of 5-bit words followed by a 6-character BCH checksum. Bech32
+ * is used by SegWit version 0 addresses (P2WPKH and P2WSH) and Cosmos
+ * chains, and Bech32m by SegWit version 1+ addresses (Taproot).
+ * <br /><br />
+ * Decoding detects the checksum variant, rejects strings of mixed case or
+ * that exceed a length limit (90 characters by default), and reports the
+ * offset of invalid characters with an {@link InvalidEncodingError}. If
+ * the checksum does not match, the position of a single mistyped character
+ * is located and reported with a {@link ChecksumError}.
+ * <br /><br />
+ * @example Using the `Bech32` class
+ * ```ts
+ * // native segwit (P2WPKH) address of a HASH160 public key hash
+ * const address = Bech32.encodeSegwit("bc", 0, hash);
+ *
+ * // Cosmos address with a custom HRP
+ * const cosmos = Bech32.encode("cosmos", Bech32.toWords(hash));
+ * const { hrp, words } = Bech32.decode(cosmos);
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Base58}, {@link Wallet}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Bech32 {
+  /**
+   * Contains the characters of the Bech32 alphabet, by value.
+   *
+   * @static
+   * @access public
+   * @var {string}
+   */
+  public static ALPHABET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+  /**
+   * Contains the default maximum length of Bech32 strings (BIP173).
+   *
+   * @static
+   * @access public
+   * @var {number}
+   */
+  public static LIMIT = 90;
+
+  /**
+   * Contains the constants that checksums are computed against, by
+   * variant.
+   *
+   * @static
+   * @access protected
+   * @var {Record<Bech32Variant, number>}
+   */
+  protected static CONSTANTS: Record<Bech32Variant, number> = {
+    bech32: 1,
+    bech32m: 0x2bc830a3,
+  };
+
+  /**
+   * Contains the generator of the BCH code of checksums.
+   *
+   * @static
+   * @access protected
+   * @var {number[]}
+   */
+  protected static GENERATOR = [
+    0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+  ];
+
+  /**
+   * Encodes 5-bit {@link words} with a human-readable part {@link hrp}.
+   *
+   * @static
+   * @access public
+   * @param   {string}                  hrp       The human-readable part, e.g. `bc` or `cosmos`.
+   * @param   {Uint8Array | number[]}   words     The data, as 5-bit words (see {@link toWords}).
+   * @param   {Bech32Variant}           variant   (Optional) The checksum variant, defaults to `bech32`.
+   * @param   {number}                  limit     (Optional) The maximum length of the result, defaults to 90.
+   * @returns {string}  The lowercase Bech32 string.
+   * @throws  {RangeError}  Given an invalid HRP, words above 31, or a result that exceeds the {@link limit}.
+   */
+  public static encode(
+    hrp: string,
+    words: Uint8Array | number[],
+    variant: Bech32Variant = "bech32",
+    limit: number = Bech32.LIMIT,
+  ): string {
+    Bech32.checkHrp(hrp);
+    if (hrp.toLowerCase() !== hrp && hrp.toUpperCase() !== hrp) {
+      throw new RangeError(`Bech32 HRP "${hrp}" must not be of mixed case.`);
+    } else if (hrp.length + words.length + 7 > limit) {
+      throw new RangeError(
+        `Bech32 string of ${hrp.length + words.length + 7} characters exceeds the limit of ${limit}.`,
+      );
+    }
+
+    const data = Array.from(words);
+    if (data.some((w) => !Number.isInteger(w) || w < 0 || w > 31)) {
+      throw new RangeError(`Bech32 words must be integers from 0 to 31.`);
+    }
+
+    const prefix = hrp.toLowerCase();
+    const checksum = Bech32.getChecksum(prefix, data, variant);
+    return `${prefix}1${data
+      .concat(checksum)
+      .map((w) => Bech32.ALPHABET[w])
+      .join("")}`;
+  }
+
+  /**
+   * Decodes a Bech32 or Bech32m {@link text} and detects its' variant.
+   *
+   * @static
+   * @access public
+   * @param   {string}  text    The Bech32 string.
+   * @param   {number}  limit   (Optional) The maximum length of the string, defaults to 90.
+   * @returns {Bech32Result}  The human-readable part, the 5-bit words and the variant.
+   * @throws  {InvalidEncodingError}  Given an invalid length, HRP, separator or character.
+   * @throws  {ChecksumError}  Given a checksum that matches neither variant.
+   */
+  public static decode(
+    text: string,
+    limit: number = Bech32.LIMIT,
+  ): Bech32Result {
+    if (text.length > limit) {
+      throw new InvalidEncodingError(
+        `Bech32 string of ${text.length} characters exceeds the limit of ${limit}.`,
+        limit,
+      );
+    } else if (text.toLowerCase() !== text && text.toUpperCase() !== text) {
+      throw new InvalidEncodingError(
+        `Bech32 string "${text}" must not be of mixed case.`,
+        0,
+      );
+    }
+
+    const lower = text.toLowerCase();
+    const separator = lower.lastIndexOf("1");
+    if (separator < 1) {
+      throw new InvalidEncodingError(
+        `Bech32 string must contain a non-empty HRP followed by separator "1".`,
+        Math.max(separator, 0),
+      );
+    } else if (lower.length - separator - 1 < 6) {
+      throw new InvalidEncodingError(
+        `Bech32 string must contain a checksum of 6 characters.`,
+        separator + 1,
+      );
+    }
+
+    const hrp = lower.slice(0, separator);
+    for (let i = 0; i < hrp.length; i++) {
+      const code = hrp.charCodeAt(i);
+      if (code < 33 || code > 126) {
+        throw new InvalidEncodingError(
+          `Bech32 HRP character at offset ${i} is invalid.`,
+          i,
+        );
+      }
+    }
+
+    const data: number[] = [];
+    for (let i = separator + 1; i < lower.length; i++) {
+      const word = Bech32.ALPHABET.indexOf(lower[i]);
+      if (word < 0) {
+        throw new InvalidEncodingError(
+          `Bech32 character "${text[i]}" at offset ${i} is invalid.`,
+          i,
+        );
+      }
+
+      data.push(word);
+    }
+
+    const variant = Bech32.getVariant(hrp, data);
+    if (variant === undefined) {
+      const positions = Bech32.locateError(hrp, data).map(
+        (p) => p + separator + 1,
+      );
+      throw new ChecksumError(
+        `Bech32 checksum of "${text}" is invalid` +
+          (positions.length ? ` at offset ${positions[0]}.` : "."),
+        positions,
+      );
+    }
+
+    return { hrp, words: Uint8Array.from(data.slice(0, -6)), variant };
+  }
+
+  /**
+   * Converts bytes to 5-bit words, padded with zero bits.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  bytes   The bytes to convert.
+   * @returns {Uint8Array}  The 5-bit words.
+   */
+  public static toWords(bytes: Uint8Array): Uint8Array {
+    return Bech32.convertBits(bytes, 8, 5, true);
+  }
+
+  /**
+   * Converts 5-bit words to bytes, i.e. the inverse of {@link toWords}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array | number[]}   words   The 5-bit words to convert.
+   * @returns {Uint8Array}  The bytes.
+   * @throws  {InvalidEncodingError}  Given more than 4 bits of padding or non-zero padding.
+   */
+  public static fromWords(words: Uint8Array | number[]): Uint8Array {
+    return Bech32.convertBits(words, 5, 8, false);
+  }
+
+  /**
+   * Converts {@link data} of {@link from}-bit values to {@link to}-bit
+   * values, e.g. from bytes to 5-bit words.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array | number[]}   data    The values to convert.
+   * @param   {number}                  from    The number of bits of the values.
+   * @param   {number}                  to      The number of bits of the result's values.
+   * @param   {boolean}                 pad     Whether to pad incomplete values with zero bits.
+   * @returns {Uint8Array}  The converted values.
+   * @throws  {RangeError}  Given a value that exceeds {@link from} bits.
+   * @throws  {InvalidEncodingError}  Given an incomplete value without {@link pad}.
+   */
+  public static convertBits(
+    data: Uint8Array | number[],
+    from: number,
+    to: number,
+    pad: boolean,
+  ): Uint8Array {
+    const result: number[] = [];
+    const mask = (1 << to) - 1;
+    let acc = 0;
+    let bits = 0;
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] < 0 || data[i] >> from !== 0) {
+        throw new RangeError(
+          `Bech32 value ${data[i]} at offset ${i} exceeds ${from} bits.`,
+        );
+      }
+
+      acc = ((acc << from) | data[i]) & 0xffffff;
+      bits += from;
+      while (bits >= to) {
+        bits -= to;
+        result.push((acc >> bits) & mask);
+      }
+    }
+
+    if (pad && bits > 0) {
+      result.push((acc << (to - bits)) & mask);
+    } else if (!pad && (bits >= from || (acc << (to - bits)) & mask)) {
+      throw new InvalidEncodingError(
+        `Bech32 data contains ${bits} bits of invalid padding.`,
+        data.length,
+      );
+    }
+
+    return Uint8Array.from(result);
+  }
+
+  /**
+   * Encodes a *segregated witness* address, i.e. a witness version
+   * followed by a witness program, using Bech32 for version 0 and
+   * Bech32m for versions 1 to 16 (BIP350).
+   *
+   * @static
+   * @access public
+   * @param   {string}      hrp       The human-readable part, e.g. `bc` (mainnet) or `tb` (testnet).
+   * @param   {number}      version   The witness version, from 0 to 16.
+   * @param   {Uint8Array}  program   The witness program, e.g. a public key hash.
+   * @returns {string}  The segwit address.
+   * @throws  {RangeError}  Given an invalid version or program length.
+   */
+  public static encodeSegwit(
+    hrp: string,
+    version: number,
+    program: Uint8Array,
+  ): string {
+    Bech32.checkProgram(version, program.length, (message) => {
+      throw new RangeError(message);
+    });
+
+    return Bech32.encode(
+      hrp,
+      [version, ...Bech32.toWords(program)],
+      version === 0 ? "bech32" : "bech32m",
+    );
+  }
+
+  /**
+   * Decodes a *segregated witness* {@link address} and verifies its' HRP,
+   * witness version, program length and checksum variant.
+   *
+   * @static
+   * @access public
+   * @param   {string}  hrp       The expected human-readable part, e.g. `bc`.
+   * @param   {string}  address   The segwit address.
+   * @returns {SegwitAddress}  The witness version and program.
+   * @throws  {InvalidEncodingError}  Given an invalid address or a wrong HRP, version, length or variant.
+   * @throws  {ChecksumError}  Given a checksum that does not match.
+   */
+  public static decodeSegwit(hrp: string, address: string): SegwitAddress {
+    const result = Bech32.decode(address);
+    const separator = result.hrp.length;
+    if (result.hrp !== hrp.toLowerCase()) {
+      throw new InvalidEncodingError(
+        `Segwit address HRP "${result.hrp}" must be "${hrp.toLowerCase()}".`,
+        0,
+      );
+    } else if (!result.words.length) {
+      throw new InvalidEncodingError(
+        `Segwit address must contain a witness version.`,
+        separator + 1,
+      );
+    }
+
+    const version = result.words[0];
+    const program = Bech32.fromWords(result.words.subarray(1));
+    Bech32.checkProgram(version, program.length, (message) => {
+      throw new InvalidEncodingError(message, separator + 1);
+    });
+
+    if (result.variant !== (version === 0 ? "bech32" : "bech32m")) {
+      throw new InvalidEncodingError(
+        `Segwit address of version ${version} must not use ${result.variant}.`,
+        separator + 1,
+      );
+    }
+
+    return { version, program };
+  }
+
+  /**
+   * Verifies that a witness {@link version} and program {@link length}
+   * are valid, and calls {@link fail} otherwise.
+   *
+   * @static
+   * @access protected
+   * @param   {number}  version   The witness version.
+   * @param   {number}  length    The length of the witness program.
+   * @param   {(message: string) => never}  fail  Throws an error with a message.
+   * @returns {void}
+   */
+  protected static checkProgram(
+    version: number,
+    length: number,
+    fail: (message: string) => never,
+  ): void {
+    if (!Number.isInteger(version) || version < 0 || version > 16) {
+      fail(`Segwit version ${version} must be from 0 to 16.`);
+    } else if (length < 2 || length > 40) {
+      fail(`Segwit program of ${length} bytes must contain 2 to 40 bytes.`);
+    } else if (version === 0 && length !== 20 && length !== 32) {
+      fail(`Segwit v0 program of ${length} bytes must contain 20 or 32 bytes.`);
+    }
+  }
+
+  /**
+   * Verifies that the characters of a human-readable part {@link hrp}
+   * are in the ASCII range from 33 to 126.
+   *
+   * @static
+   * @access protected
+   * @param   {string}  hrp   The human-readable part.
+   * @returns {void}
+   * @throws  {RangeError}  Given an empty HRP or an invalid character.
+   */
+  protected static checkHrp(hrp: string): void {
+    if (!hrp.length || hrp.length > 83) {
+      throw new RangeError(`Bech32 HRP must contain 1 to 83 characters.`);
+    }
+
+    for (let i = 0; i < hrp.length; i++) {
+      const code = hrp.charCodeAt(i);
+      if (code < 33 || code > 126) {
+        throw new RangeError(`Bech32 HRP character at offset ${i} is invalid.`);
+      }
+    }
+  }
+
+  /**
+   * Computes the BCH checksum polynomial of 5-bit {@link values}.
+   *
+   * @static
+   * @access protected
+   * @param   {number[]}  values    The 5-bit values.
+   * @returns {number}  The polynomial modulus.
+   */
+  protected static polymod(values: number[]): number {
+    let chk = 1;
+    for (const value of values) {
+      const top = chk >>> 25;
+      chk = (((chk & 0x1ffffff) << 5) ^ value) >>> 0;
+      Bech32.GENERATOR.forEach((g, i) => {
+        if ((top >> i) & 1) {
+          chk = (chk ^ g) >>> 0;
+        }
+      });
+    }
+
+    return chk;
+  }
+
+  /**
+   * Expands a human-readable part {@link hrp} to the 5-bit values that
+   * precede the data in the checksum computation.
+   *
+   * @static
+   * @access protected
+   * @param   {string}  hrp   The human-readable part, in lowercase.
+   * @returns {number[]}  The expanded values.
+   */
+  protected static expandHrp(hrp: string): number[] {
+    const codes = Array.from(hrp).map((c) => c.charCodeAt(0));
+    return [...codes.map((c) => c >> 5), 0, ...codes.map((c) => c & 31)];
+  }
+
+  /**
+   * Computes the 6-word checksum of {@link data} for a {@link variant}.
+   *
+   * @static
+   * @access protected
+   * @param   {string}          hrp       The human-readable part, in lowercase.
+   * @param   {number[]}        data      The 5-bit words.
+   * @param   {Bech32Variant}   variant   The checksum variant.
+   * @returns {number[]}  The 6 checksum words.
+   */
+  protected static getChecksum(
+    hrp: string,
+    data: number[],
+    variant: Bech32Variant,
+  ): number[] {
+    const mod =
+      Bech32.polymod([...Bech32.expandHrp(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^
+      Bech32.CONSTANTS[variant];
+    return [0, 1, 2, 3, 4, 5].map((i) => (mod >>> (5 * (5 - i))) & 31);
+  }
+
+  /**
+   * Returns the checksum variant that {@link data} (including its'
+   * checksum) is valid for, or `undefined` if the checksum is invalid.
+   *
+   * @static
+   * @access protected
+   * @param   {string}      hrp     The human-readable part, in lowercase.
+   * @param   {number[]}    data    The 5-bit words, including the checksum.
+   * @returns {Bech32Variant | undefined}  The detected variant.
+   */
+  protected static getVariant(
+    hrp: string,
+    data: number[],
+  ): Bech32Variant | undefined {
+    const mod = Bech32.polymod([...Bech32.expandHrp(hrp), ...data]);
+    return (Object.keys(Bech32.CONSTANTS) as Bech32Variant[]).find(
+      (variant) => Bech32.CONSTANTS[variant] === mod,
+    );
+  }
+
+  /**
+   * Locates a *single* substituted word of {@link data} that invalidates
+   * its' checksum, i.e. returns the position of the only word that can
+   * be replaced to obtain a valid checksum of either variant, or an empty
+   * array if no such word exists.
+   *
+   * @static
+   * @access protected
+   * @param   {string}      hrp     The human-readable part, in lowercase.
+   * @param   {number[]}    data    The 5-bit words, including the checksum.
+   * @returns {number[]}  The position of the erroneous word in {@link data}.
+   */
+  protected static locateError(hrp: string, data: number[]): number[] {
+    const positions = data
+      .map((_, i) =>
+        Array.from({ length: 32 }, (_, w) => w).some(
+          (w) =>
+            w !== data[i] &&
+            Bech32.getVariant(hrp, [
+              ...data.slice(0, i),
+              w,
+              ...data.slice(i + 1),
+            ]) !== undefined,
+        )
+          ? i
+          : -1,
+      )
+      .filter((i) => i >= 0);
+
+    return positions.length === 1 ? positions : [];
+  }
+}
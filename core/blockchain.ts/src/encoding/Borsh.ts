@@ -0,0 +1,244 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { Codecs } from "../buffer/Codecs";
+import { NonCanonicalEncodingError } from "../errors/NonCanonicalEncodingError";
+import type { Codec, UnionValue } from "../types/Codec";
+
+/**
+ * @class Borsh
+ * @description This class contains the codecs of the *Borsh* (Binary
+ * Object Representation Serializer for Hashing) encoding that is used by
+ * Solana and NEAR programs to serialize account data and instructions.
+ * The codecs can be used as fields of {@link Template.struct} schemas.
+ * <br /><br />
+ * Integers are encoded in *little-endian* byte order, i.e. with the
+ * integer codecs of {@link Codecs}, e.g. `Codecs.u64`, and fixed-size
+ * arrays with `Codecs.array`. Decoding is *strict*: booleans and option
+ * prefixes other than `0` and `1` throw an {@link InvalidEncodingError},
+ * and map or set keys that are not sorted throw a
+ * {@link NonCanonicalEncodingError}.
+ * <br /><br />
+ * @example Using the `Borsh` class
+ * ```ts
+ * const Account = Template.struct({
+ *   owner: Codecs.bytes(32),
+ *   amount: Codecs.u64,
+ *   delegate: Borsh.option(Codecs.bytes(32)),
+ *   name: Borsh.string,
+ * });
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Codecs}, {@link Template}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Borsh {
+  /**
+   * Codec for a boolean, which Borsh encodes as {@link Codecs.bool} does.
+   *
+   * @static
+   * @access public
+   * @var {Codec<boolean>}
+   */
+  public static bool: Codec<boolean> = Codecs.bool;
+
+  /**
+   * Codec for the *unit* type `()`, which Borsh encodes as
+   * {@link Codecs.unit} does, i.e. without bytes.
+   *
+   * @static
+   * @access public
+   * @var {Codec<null>}
+   */
+  public static unit: Codec<null> = Codecs.unit;
+
+  /**
+   * Codec for a byte array that is prefixed with its' length as an
+   * unsigned 32-bit integer, i.e. `Vec<u8>`.
+   *
+   * @static
+   * @access public
+   * @var {Codec<Uint8Array>}
+   */
+  public static bytes: Codec<Uint8Array> = {
+    encode: (writer, value) => {
+      writer.writeUint32LE(value.byteLength);
+      writer.writeBuffer(value);
+    },
+    decode: (reader) => reader.readBuffer(reader.readUint32LE()),
+  };
+
+  /**
+   * Codec for a UTF-8 string that is prefixed with its' length in bytes
+   * as an unsigned 32-bit integer.
+   *
+   * @static
+   * @access public
+   * @var {Codec<string>}
+   */
+  public static string: Codec<string> = {
+    encode: (writer, value) =>
+      Borsh.bytes.encode(writer, Buffer.from(value, "utf8")),
+    decode: (reader) =>
+      Buffer.from(Borsh.bytes.decode(reader)).toString("utf8"),
+  };
+
+  /**
+   * Compares two keys of maps and sets as Rust's `Ord` does, such that
+   * entries are serialized in ascending order of their keys: numbers and
+   * bigints by value, strings by their UTF-8 bytes and byte arrays
+   * lexicographically.
+   *
+   * @static
+   * @access public
+   * @param   {K}   a   The first key.
+   * @param   {K}   b   The second key.
+   * @returns {number}  A negative number if a < b, a positive number if a > b, zero otherwise.
+   */
+  public static compareKeys<K>(a: K, b: K): number {
+    if (typeof a === "string" && typeof b === "string") {
+      return Buffer.compare(Buffer.from(a, "utf8"), Buffer.from(b, "utf8"));
+    } else if (a instanceof Uint8Array && b instanceof Uint8Array) {
+      return Buffer.compare(a, b);
+    }
+
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * Creates a codec for a *vector*, i.e. an array of values that is
+   * prefixed with its' number of items as an unsigned 32-bit integer.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}  codec   The codec of the items.
+   * @returns {Codec<T[]>}  A codec for Borsh vectors.
+   */
+  public static vec<T>(codec: Codec<T>): Codec<T[]> {
+    return {
+      encode: (writer, value) => {
+        writer.writeUint32LE(value.length);
+        value.forEach((item) => codec.encode(writer, item));
+      },
+      decode: (reader) =>
+        Codecs.array(codec, reader.readUint32LE()).decode(reader),
+    };
+  }
+
+  /**
+   * Creates a codec for an *optional* value, i.e. `Option<T>`, that is
+   * prefixed with `0` (None) or `1` (Some), see {@link Codecs.optional}.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}  codec   The codec of the value.
+   * @returns {Codec<T | undefined>}  A codec for Borsh options.
+   * @throws  {InvalidEncodingError}  Given an invalid prefix when decoding.
+   */
+  public static option<T>(codec: Codec<T>): Codec<T | undefined> {
+    return Codecs.optional(codec);
+  }
+
+  /**
+   * Creates a codec for an *enum*, i.e. a variant of the {@link variants}
+   * that is prefixed with its' one-byte index, which Borsh encodes as
+   * {@link Codecs.enumeration} does.
+   *
+   * @static
+   * @access public
+   * @param   {V}   variants    The codecs of the variants, by index.
+   * @returns {Codec<UnionValue<V>>}  A codec for Borsh enums.
+   */
+  public static enumeration<V extends Record<number, Codec<any>>>(
+    variants: V,
+  ): Codec<UnionValue<V>> {
+    return Codecs.enumeration(variants);
+  }
+
+  /**
+   * Creates a codec for a *map*, i.e. `HashMap<K, V>`, that is prefixed
+   * with its' number of entries as an unsigned 32-bit integer. Entries
+   * are encoded in ascending order of their keys, as required by Borsh.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<K>}                  key       The codec of the keys.
+   * @param   {Codec<V>}                  value     The codec of the values.
+   * @param   {(a: K, b: K) => number}    compare   (Optional) The order of the keys, defaults to {@link compareKeys}.
+   * @returns {Codec<Map<K, V>>}  A codec for Borsh maps.
+   * @throws  {NonCanonicalEncodingError}  Given keys that are not strictly ascending when decoding.
+   */
+  public static map<K, V>(
+    key: Codec<K>,
+    value: Codec<V>,
+    compare: (a: K, b: K) => number = Borsh.compareKeys,
+  ): Codec<Map<K, V>> {
+    return {
+      encode: (writer, entries) => {
+        const sorted = Array.from(entries.keys()).sort(compare);
+        writer.writeUint32LE(sorted.length);
+        sorted.forEach((k) => {
+          key.encode(writer, k);
+          value.encode(writer, entries.get(k) as V);
+        });
+      },
+      decode: (reader) => {
+        const entries = new Map<K, V>();
+        const count = reader.readUint32LE();
+        let previous: K | undefined;
+        for (let i = 0; i < count; i++) {
+          const offset = reader.offset;
+          const k = key.decode(reader);
+          if (previous !== undefined && compare(previous, k) >= 0) {
+            throw new NonCanonicalEncodingError(
+              `Map key at offset ${offset} must be greater than the previous key.`,
+              offset,
+            );
+          }
+
+          entries.set(k, value.decode(reader));
+          previous = k;
+        }
+
+        return entries;
+      },
+    };
+  }
+
+  /**
+   * Creates a codec for a *set*, i.e. `HashSet<T>`, that is prefixed with
+   * its' number of items as an unsigned 32-bit integer. Items are encoded
+   * in ascending order, as required by Borsh.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}                  codec     The codec of the items.
+   * @param   {(a: T, b: T) => number}    compare   (Optional) The order of the items, defaults to {@link compareKeys}.
+   * @returns {Codec<Set<T>>}  A codec for Borsh sets.
+   * @throws  {NonCanonicalEncodingError}  Given items that are not strictly ascending when decoding.
+   */
+  public static set<T>(
+    codec: Codec<T>,
+    compare: (a: T, b: T) => number = Borsh.compareKeys,
+  ): Codec<Set<T>> {
+    const entries = Borsh.map(codec, Borsh.unit, compare);
+    return {
+      encode: (writer, value) =>
+        entries.encode(
+          writer,
+          new Map(Array.from(value).map((item) => [item, null])),
+        ),
+      decode: (reader) => new Set(entries.decode(reader).keys()),
+    };
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { Reader } from "../buffer/Reader";
+import { SizeWriter } from "../buffer/SizeWriter";
+import { Writer } from "../buffer/Writer";
+import { InvalidEncodingError } from "../errors/InvalidEncodingError";
+import { NonCanonicalEncodingError } from "../errors/NonCanonicalEncodingError";
+import type { RlpInput, RlpValue } from "../types/RlpInput";
+
+/**
+ * @class Rlp
+ * @description This class implements the *Recursive Length Prefix* (RLP)
+ * encoding that is used by Ethereum to serialize blocks, transactions and
+ * the nodes of its' tries. RLP encodes byte strings and nested lists of
+ * byte strings, and leaves the interpretation of the bytes to the caller.
+ * <br /><br />
+ * Decoding is *strict*: non-canonical encodings, e.g. a single byte below
+ * `0x80` that is encoded with a prefix or a length with leading zeros,
+ * throw a {@link NonCanonicalEncodingError}, and data that is not exactly
+ * one item throws an {@link InvalidEncodingError}.
+ * <br /><br />
+ * Integers are encoded as *big-endian* byte strings without leading zeros
+ * (zero is the empty string), and strings are interpreted as hexadecimal
+ * if they are prefixed with `0x`, as UTF-8 otherwise.
+ * <br /><br />
+ * @example Using the `Rlp` class
+ * ```ts
+ * Rlp.encode(["cat", "dog"]); // c88363617483646f67
+ * Rlp.encode(1024); // 820400
+ *
+ * const [nonce, gasPrice] = Rlp.decode(data) as Uint8Array[];
+ * Rlp.toBigInt(nonce);
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Reader}, {@link Writer}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Rlp {
+  /**
+   * Encodes an {@link input} value and returns the RLP-encoded bytes.
+   *
+   * @static
+   * @access public
+   * @param   {RlpInput}  input   The value to encode.
+   * @returns {Uint8Array}  The RLP-encoded bytes.
+   * @throws  {RangeError}  Given a negative or non-integer number.
+   * @throws  {TypeError}  Given a `0x`-prefixed string that is not hexadecimal.
+   */
+  public static encode(input: RlpInput): Uint8Array {
+    const size = new SizeWriter(false);
+    Rlp.write(size, input);
+
+    const writer = new Writer(Buffer.alloc(size.offset), 0, false);
+    Rlp.write(writer, input);
+    return writer.finish();
+  }
+
+  /**
+   * Decodes *exactly* one RLP-encoded item from {@link data}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The RLP-encoded bytes.
+   * @returns {RlpValue}  The decoded byte string or list.
+   * @throws  {NonCanonicalEncodingError}  Given a non-canonical encoding.
+   * @throws  {InvalidEncodingError}  Given trailing bytes or list items that exceed their list.
+   * @throws  {BufferUnderflowError}  Given truncated data.
+   */
+  public static decode(data: Uint8Array): RlpValue {
+    const reader = new Reader(
+      Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+      0,
+      false,
+    );
+
+    const value = Rlp.read(reader);
+    if (!reader.isEOF()) {
+      throw new InvalidEncodingError(
+        `RLP data contains ${reader.remaining()} trailing bytes after offset ${reader.offset}.`,
+        reader.offset,
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Writes the RLP encoding of an {@link input} value using a
+   * {@link writer}, e.g. to embed RLP data in another structure.
+   *
+   * @static
+   * @access public
+   * @param   {Writer}    writer    The writer instance.
+   * @param   {RlpInput}  input     The value to encode.
+   * @returns {void}
+   * @throws  {RangeError}  Given a negative or non-integer number.
+   * @throws  {TypeError}  Given a `0x`-prefixed string that is not hexadecimal.
+   */
+  public static write(writer: Writer, input: RlpInput): void {
+    if (Array.isArray(input)) {
+      // the length prefix of lists requires their payload size
+      const payload = new SizeWriter(false);
+      input.forEach((item) => Rlp.write(payload, item));
+
+      Rlp.writeLength(writer, payload.offset, 0xc0);
+      input.forEach((item) => Rlp.write(writer, item));
+      return;
+    }
+
+    const bytes = Rlp.toBytes(input);
+    if (bytes.byteLength === 1 && bytes[0] < 0x80) {
+      writer.writeUint8(bytes[0]);
+      return;
+    }
+
+    Rlp.writeLength(writer, bytes.byteLength, 0x80);
+    writer.writeBuffer(bytes);
+  }
+
+  /**
+   * Reads *one* RLP-encoded item using a {@link reader}, e.g. to read
+   * RLP data that is embedded in another structure.
+   *
+   * @static
+   * @access public
+   * @param   {Reader}  reader    The reader instance.
+   * @returns {RlpValue}  The decoded byte string or list.
+   * @throws  {NonCanonicalEncodingError}  Given a non-canonical encoding.
+   * @throws  {InvalidEncodingError}  Given list items that exceed their list.
+   * @throws  {BufferUnderflowError}  Given truncated data (strict mode).
+   */
+  public static read(reader: Reader): RlpValue {
+    const offset = reader.offset;
+    const prefix = reader.readUint8();
+
+    // single bytes below 0x80 are their own encoding
+    if (prefix < 0x80) {
+      return Buffer.from([prefix]);
+    }
+
+    if (prefix < 0xc0) {
+      const length = Rlp.readLength(reader, prefix, 0x80);
+      const data = Buffer.from(reader.readBuffer(length));
+      if (length === 1 && data[0] < 0x80) {
+        throw new NonCanonicalEncodingError(
+          `RLP single byte 0x${data.toString("hex")} at offset ${offset} must not be prefixed.`,
+          offset,
+        );
+      }
+
+      return data;
+    }
+
+    const length = Rlp.readLength(reader, prefix, 0xc0);
+    const end = reader.offset + length;
+    const items: RlpValue[] = [];
+    while (reader.offset < end) {
+      items.push(Rlp.read(reader));
+    }
+
+    if (reader.offset !== end) {
+      throw new InvalidEncodingError(
+        `RLP list at offset ${offset} contains items that exceed its' length of ${length} bytes.`,
+        offset,
+      );
+    }
+
+    return items;
+  }
+
+  /**
+   * Converts an {@link input} value that is not a list to its' bytes,
+   * i.e. the byte string that is encoded with RLP.
+   *
+   * @static
+   * @access public
+   * @param   {RlpInput}  input   The value to convert.
+   * @returns {Uint8Array}  The bytes of the value.
+   * @throws  {RangeError}  Given a negative or non-integer number.
+   * @throws  {TypeError}  Given a `0x`-prefixed string that is not hexadecimal.
+   */
+  public static toBytes(input: Exclude<RlpInput, RlpInput[]>): Uint8Array {
+    if (input === null || input === undefined) {
+      return new Uint8Array();
+    } else if (input instanceof Uint8Array) {
+      return input;
+    } else if (typeof input === "string" && !input.startsWith("0x")) {
+      return Buffer.from(input, "utf8");
+    } else if (typeof input === "string") {
+      if (!/^0x([0-9a-f]{2})*$/i.test(input)) {
+        throw new TypeError(
+          `RLP string ${input} must contain an even number of hexadecimal digits.`,
+        );
+      }
+
+      return Buffer.from(input.slice(2), "hex");
+    }
+
+    if (typeof input === "number" && !Number.isSafeInteger(input)) {
+      throw new RangeError(`RLP integer ${input} must be a safe integer.`);
+    }
+
+    const value = BigInt(input);
+    if (value < 0n) {
+      throw new RangeError(`RLP integer ${value} must not be negative.`);
+    } else if (value === 0n) {
+      return new Uint8Array();
+    }
+
+    const hex = value.toString(16);
+    return Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex");
+  }
+
+  /**
+   * Interprets RLP-decoded {@link bytes} as a *big-endian* unsigned
+   * integer and returns its' bigint value.
+   *
+   * @static
+   * @access public
+   * @param   {RlpValue}  bytes   The decoded byte string.
+   * @returns {bigint}  The unsigned integer value.
+   * @throws  {TypeError}  Given a list instead of a byte string.
+   * @throws  {NonCanonicalEncodingError}  Given an integer with leading zeros.
+   */
+  public static toBigInt(bytes: RlpValue): bigint {
+    if (Array.isArray(bytes)) {
+      throw new TypeError(`RLP list cannot be converted to an integer.`);
+    } else if (bytes.byteLength > 0 && bytes[0] === 0) {
+      throw new NonCanonicalEncodingError(
+        `RLP integer must not contain leading zeros.`,
+        0,
+      );
+    }
+
+    return bytes.reduce((prev, cur) => (prev << 8n) + BigInt(cur), 0n);
+  }
+
+  /**
+   * Writes the prefix of an item of {@link length} bytes, where the
+   * {@link offset} is `0x80` for byte strings and `0xc0` for lists.
+   *
+   * @static
+   * @access protected
+   * @param   {Writer}  writer    The writer instance.
+   * @param   {number}  length    The length of the item's payload.
+   * @param   {number}  offset    The prefix offset of the item's type.
+   * @returns {void}
+   */
+  protected static writeLength(
+    writer: Writer,
+    length: number,
+    offset: number,
+  ): void {
+    if (length < 56) {
+      writer.writeUint8(offset + length);
+      return;
+    }
+
+    const bytes = Rlp.toBytes(length);
+    writer.writeUint8(offset + 55 + bytes.byteLength);
+    writer.writeBuffer(bytes);
+  }
+
+  /**
+   * Reads the payload length of an item given its' {@link prefix}, where
+   * the {@link offset} is `0x80` for byte strings and `0xc0` for lists.
+   *
+   * @static
+   * @access protected
+   * @param   {Reader}  reader    The reader instance, positioned after the prefix.
+   * @param   {number}  prefix    The prefix byte of the item.
+   * @param   {number}  offset    The prefix offset of the item's type.
+   * @returns {number}  The length of the item's payload.
+   * @throws  {NonCanonicalEncodingError}  Given a length that is not minimally encoded.
+   */
+  protected static readLength(
+    reader: Reader,
+    prefix: number,
+    offset: number,
+  ): number {
+    if (prefix - offset < 56) {
+      return prefix - offset;
+    }
+
+    const position = reader.offset - 1;
+    const bytes = reader.readBuffer(prefix - offset - 55);
+    if (bytes[0] === 0) {
+      throw new NonCanonicalEncodingError(
+        `RLP length at offset ${position} must not contain leading zeros.`,
+        position,
+      );
+    }
+
+    const length = Number(Rlp.toBigInt(bytes));
+    if (length < 56) {
+      throw new NonCanonicalEncodingError(
+        `RLP length ${length} at offset ${position} must use the short form.`,
+        position,
+      );
+    }
+
+    return length;
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import { Codecs } from "../buffer/Codecs";
+import { IntegerOverflowError } from "../errors/IntegerOverflowError";
+import { InvalidEncodingError } from "../errors/InvalidEncodingError";
+import { NonCanonicalEncodingError } from "../errors/NonCanonicalEncodingError";
+import type {
+  Codec,
+  ResultValue,
+  TupleValue,
+  UnionValue,
+} from "../types/Codec";
+
+/**
+ * @class Scale
+ * @description This class contains the codecs of the *SCALE* (Simple
+ * Concatenated Aggregate Little-Endian) encoding that is used by
+ * Substrate-based chains, e.g. Polkadot and its' parachains. The codecs
+ * can be used as fields of {@link Template.struct} schemas.
+ * <br /><br />
+ * Fixed-width integers are encoded in *little-endian* byte order, i.e.
+ * as with the integer codecs of {@link Codecs}, e.g. `Codecs.u32`.
+ * Decoding is *strict*: compact integers that are not minimally encoded
+ * throw a {@link NonCanonicalEncodingError}.
+ * <br /><br />
+ * @example Using the `Scale` class
+ * ```ts
+ * const Header = Template.struct({
+ *   parentHash: Codecs.bytes(32),
+ *   number: Scale.compact,
+ *   stateRoot: Codecs.bytes(32),
+ *   extrinsicsRoot: Codecs.bytes(32),
+ *   digest: Scale.vec(Scale.bytes),
+ * });
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Codecs}, {@link Template}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Scale {
+  /**
+   * Codec for a *compact* unsigned integer, as a bigint. Values below
+   * 2^6, 2^14 and 2^30 use one, two and four bytes respectively, and
+   * larger values use a length-prefixed big-integer mode.
+   *
+   * @static
+   * @access public
+   * @var {Codec<bigint>}
+   * @throws  {RangeError}  Given a negative value when encoding.
+   * @throws  {IntegerOverflowError}  Given a value of more than 536 bits when encoding.
+   * @throws  {NonCanonicalEncodingError}  Given a value that is not minimally encoded.
+   */
+  public static bigCompact: Codec<bigint> = {
+    encode: (writer, value) => {
+      if (value < 0n) {
+        throw new RangeError(`Compact integer ${value} must not be negative.`);
+      } else if (value < 1n << 6n) {
+        writer.writeUint8(Number(value << 2n));
+        return;
+      } else if (value < 1n << 14n) {
+        writer.writeUint16LE(Number((value << 2n) | 1n));
+        return;
+      } else if (value < 1n << 30n) {
+        writer.writeUint32LE(Number((value << 2n) | 2n));
+        return;
+      }
+
+      const bytes: number[] = [];
+      for (let v = value; v > 0n; v >>= 8n) {
+        bytes.push(Number(v & 0xffn));
+      }
+
+      if (bytes.length > 67) {
+        throw new IntegerOverflowError(
+          `Compact integer ${value} exceeds 536 bits.`,
+          536,
+        );
+      }
+
+      writer.writeUint8(((bytes.length - 4) << 2) | 3);
+      writer.writeBuffer(Uint8Array.from(bytes));
+    },
+    decode: (reader) => {
+      const offset = reader.offset;
+      const mode = reader.peekUint8() & 3;
+
+      let value: bigint, minimum: bigint;
+      switch (mode) {
+        case 0:
+          return BigInt(reader.readUint8() >> 2);
+        case 1:
+          value = BigInt(reader.readUint16LE() >> 2);
+          minimum = 1n << 6n;
+          break;
+        case 2:
+          value = BigInt(reader.readUint32LE() >>> 2);
+          minimum = 1n << 14n;
+          break;
+        default: {
+          const bytes = reader.readBuffer((reader.readUint8() >> 2) + 4);
+          value = bytes.reduceRight(
+            (prev, cur) => (prev << 8n) + BigInt(cur),
+            0n,
+          );
+          // the most significant byte must not be zero, i.e. the
+          // value must not fit in fewer bytes
+          minimum = 1n << BigInt(Math.max(30, (bytes.length - 1) * 8));
+        }
+      }
+
+      if (value < minimum) {
+        throw new NonCanonicalEncodingError(
+          `Compact integer ${value} at offset ${offset} is not minimally encoded.`,
+          offset,
+        );
+      }
+
+      return value;
+    },
+  };
+
+  /**
+   * Codec for a *compact* unsigned integer, as a number, e.g. a block
+   * number or the length of a vector.
+   *
+   * @static
+   * @access public
+   * @var {Codec<number>}
+   * @throws  {IntegerOverflowError}  Given a value above `Number.MAX_SAFE_INTEGER` when decoding.
+   */
+  public static compact: Codec<number> = {
+    encode: (writer, value) => Scale.bigCompact.encode(writer, BigInt(value)),
+    decode: (reader) => {
+      const value = Scale.bigCompact.decode(reader);
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new IntegerOverflowError(
+          `Compact integer ${value} exceeds Number.MAX_SAFE_INTEGER.`,
+          53,
+        );
+      }
+
+      return Number(value);
+    },
+  };
+
+  /**
+   * Codec for a boolean, which SCALE encodes as {@link Codecs.bool} does.
+   *
+   * @static
+   * @access public
+   * @var {Codec<boolean>}
+   */
+  public static bool: Codec<boolean> = Codecs.bool;
+
+  /**
+   * Codec for the *unit* type `()`, which SCALE encodes as
+   * {@link Codecs.unit} does, i.e. without bytes.
+   *
+   * @static
+   * @access public
+   * @var {Codec<null>}
+   */
+  public static unit: Codec<null> = Codecs.unit;
+
+  /**
+   * Codec for a byte array that is prefixed with its' compact length,
+   * i.e. `Vec<u8>`.
+   *
+   * @static
+   * @access public
+   * @var {Codec<Uint8Array>}
+   */
+  public static bytes: Codec<Uint8Array> = {
+    encode: (writer, value) => {
+      Scale.compact.encode(writer, value.byteLength);
+      writer.writeBuffer(value);
+    },
+    decode: (reader) => reader.readBuffer(Scale.compact.decode(reader)),
+  };
+
+  /**
+   * Codec for a UTF-8 string that is prefixed with its' compact length
+   * in bytes.
+   *
+   * @static
+   * @access public
+   * @var {Codec<string>}
+   */
+  public static str: Codec<string> = {
+    encode: (writer, value) =>
+      Scale.bytes.encode(writer, Buffer.from(value, "utf8")),
+    decode: (reader) =>
+      Buffer.from(Scale.bytes.decode(reader)).toString("utf8"),
+  };
+
+  /**
+   * Creates a codec for a *vector*, i.e. an array of values that is
+   * prefixed with its' compact number of items.
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}  codec   The codec of the items.
+   * @returns {Codec<T[]>}  A codec for SCALE vectors.
+   */
+  public static vec<T>(codec: Codec<T>): Codec<T[]> {
+    return {
+      encode: (writer, value) => {
+        Scale.compact.encode(writer, value.length);
+        value.forEach((item) => codec.encode(writer, item));
+      },
+      decode: (reader) =>
+        Codecs.array(codec, Scale.compact.decode(reader)).decode(reader),
+    };
+  }
+
+  /**
+   * Creates a codec for an *optional* value, i.e. `Option<T>`, that is
+   * prefixed with `0` (None) or `1` (Some). Note that `Option<bool>` is
+   * encoded as one (1) byte: `0` (None), `1` (true) or `2` (false).
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}  codec   The codec of the value.
+   * @returns {Codec<T | undefined>}  A codec for SCALE options.
+   * @throws  {InvalidEncodingError}  Given an invalid prefix when decoding.
+   */
+  public static option<T>(codec: Codec<T>): Codec<T | undefined> {
+    if (codec !== (Scale.bool as Codec<unknown>)) {
+      return Codecs.optional(codec);
+    }
+
+    return {
+      encode: (writer, value) =>
+        writer.writeUint8(value === undefined ? 0 : value ? 1 : 2),
+      decode: (reader) => {
+        const offset = reader.offset;
+        const prefix = reader.readUint8();
+        if (prefix > 2) {
+          throw new InvalidEncodingError(
+            `Option<bool> at offset ${offset} must be 0, 1 or 2, got ${prefix}.`,
+            offset,
+          );
+        }
+
+        return prefix === 0 ? undefined : ((prefix === 1) as unknown as T);
+      },
+    };
+  }
+
+  /**
+   * Creates a codec for a *result*, i.e. `Result<T, E>`, that is prefixed
+   * with `0` (Ok) or `1` (Err).
+   *
+   * @static
+   * @access public
+   * @param   {Codec<T>}  ok    The codec of successful values.
+   * @param   {Codec<E>}  err   The codec of errors.
+   * @returns {Codec<ResultValue<T, E>>}  A codec for SCALE results.
+   * @throws  {InvalidEncodingError}  Given an invalid prefix when decoding.
+   */
+  public static result<T, E>(
+    ok: Codec<T>,
+    err: Codec<E>,
+  ): Codec<ResultValue<T, E>> {
+    return {
+      encode: (writer, value) => {
+        if ("ok" in value) {
+          writer.writeUint8(0);
+          ok.encode(writer, value.ok);
+        } else {
+          writer.writeUint8(1);
+          err.encode(writer, value.err);
+        }
+      },
+      decode: (reader) => {
+        const offset = reader.offset;
+        const prefix = reader.readUint8();
+        if (prefix > 1) {
+          throw new InvalidEncodingError(
+            `Result at offset ${offset} must be prefixed with 0 or 1, got ${prefix}.`,
+            offset,
+          );
+        }
+
+        return prefix === 0
+          ? { ok: ok.decode(reader) }
+          : { err: err.decode(reader) };
+      },
+    };
+  }
+
+  /**
+   * Creates a codec for an *enum*, i.e. a variant of the {@link variants}
+   * that is prefixed with its' one-byte index, which SCALE encodes as
+   * {@link Codecs.enumeration} does.
+   *
+   * @static
+   * @access public
+   * @param   {V}   variants    The codecs of the variants, by index.
+   * @returns {Codec<UnionValue<V>>}  A codec for SCALE enums.
+   */
+  public static enumeration<V extends Record<number, Codec<any>>>(
+    variants: V,
+  ): Codec<UnionValue<V>> {
+    return Codecs.enumeration(variants);
+  }
+
+  /**
+   * Creates a codec for a *tuple*, i.e. values of the {@link codecs} that
+   * are concatenated without prefix.
+   *
+   * @static
+   * @access public
+   * @param   {C}   codecs    The codecs of the tuple's items, in order.
+   * @returns {Codec<TupleValue<C>>}  A codec for SCALE tuples.
+   */
+  public static tuple<C extends Codec<any>[]>(
+    ...codecs: C
+  ): Codec<TupleValue<C>> {
+    return {
+      encode: (writer, value) =>
+        codecs.forEach((codec, i) => codec.encode(writer, value[i])),
+      decode: (reader) =>
+        codecs.map((codec) => codec.decode(reader)) as TupleValue<C>,
+    };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @class BufferOverflowError
+ * @description This error is thrown when more bytes are written than
+ * fit in a buffer, e.g. when the buffer of a writer has been allocated
+ * with a size that is too small.
+ * <br /><br />
+ * This error is only thrown by *strict* {@link Writer} instances, which is the
+ * default, and extends `RangeError` such that it can be handled like
+ * the errors thrown by `DataView`.
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link BufferOverflowError} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `message` | `string` | **Required** | Contains a human-readable description of the error. |
+ * | `offset` | `number` | **Required** | Contains the offset (position) at which the write was attempted. |
+ * | `requested` | `number` | **Required** | Contains the number of bytes that were requested to be written. |
+ * | `available` | `number` | **Required** | Contains the number of bytes that are available at {@link offset}. |
+ *
+ * <br /><br />
+ * @example Using the `BufferOverflowError` class
+ * ```ts
+ * try {
+ *   new Writer(Buffer.alloc(2)).writeUint32(1);
+ * } catch (e) {
+ *   const { offset, requested, available } = e as BufferOverflowError;
+ *   // offset=0, requested=4, available=2
+ * }
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Writer}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class BufferOverflowError extends RangeError {
+  /**
+   * Constructs an error object for a write of {@link requested} bytes
+   * at {@link offset}, given only {@link available} bytes.
+   *
+   * @access public
+   * @param   {string}   message     The human-readable description of the error.
+   * @param   {number}   offset      The offset at which the write was attempted.
+   * @param   {number}   requested   The number of bytes that were requested.
+   * @param   {number}   available   The number of bytes that are available.
+   */
+  public constructor(
+    message: string,
+
+    /**
+     * Contains the offset (position) at which the write was attempted.
+     *
+     * @access public
+     * @var {number}
+     */
+    public offset: number,
+
+    /**
+     * Contains the number of bytes that were requested to be written.
+     *
+     * @access public
+     * @var {number}
+     */
+    public requested: number,
+
+    /**
+     * Contains the number of bytes that are available at {@link offset}.
+     *
+     * @access public
+     * @var {number}
+     */
+    public available: number,
+  ) {
+    super(message);
+    this.name = "BufferOverflowError";
+  }
+}
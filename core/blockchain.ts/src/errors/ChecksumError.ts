@@ -0,0 +1,66 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @class ChecksumError
+ * @description This error is thrown when data is decoded of which the
+ * checksum does not match its' payload, e.g. a Base58Check address that
+ * contains a typo. Some encodings, e.g. Bech32, permit to locate the
+ * erroneous characters, which are then available as {@link positions}.
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link ChecksumError} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `message` | `string` | **Required** | Contains a human-readable description of the error. |
+ * | `positions` | `number[]` | *Optional* | Contains the positions of the characters that are likely erroneous, if they can be located. |
+ *
+ * <br /><br />
+ * @example Using the `ChecksumError` class
+ * ```ts
+ * try {
+ *   Base58.decodeCheck("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3");
+ * } catch (e) {
+ *   e instanceof ChecksumError; // true
+ * }
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link InvalidEncodingError}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class ChecksumError extends Error {
+  /**
+   * Constructs an error object for data of which the checksum does not
+   * match.
+   *
+   * @access public
+   * @param   {string}    message     The human-readable description of the error.
+   * @param   {number[]}  positions   (Optional) The positions of likely erroneous characters.
+   */
+  public constructor(
+    message: string,
+
+    /**
+     * Contains the positions of the characters that are likely
+     * erroneous, e.g. a single mistyped character of a Bech32 address,
+     * or an empty array if the errors cannot be located.
+     *
+     * @access public
+     * @var {number[]}
+     */
+    public positions: number[] = [],
+  ) {
+    super(message);
+    this.name = "ChecksumError";
+  }
+}
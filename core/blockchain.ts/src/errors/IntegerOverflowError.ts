@@ -0,0 +1,69 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @class IntegerOverflowError
+ * @description This error is thrown when an integer value does not fit
+ * in the number of bits that are available for it, e.g. when a decoded
+ * variable-length integer is bigger than `Number.MAX_SAFE_INTEGER` or
+ * bigger than the maximum value of a 64-bit integer.
+ * <br /><br />
+ * Values are *never* silently truncated or wrapped, instead this error
+ * is thrown and the offending value can be read with a bigint-enabled
+ * method, if necessary.
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link IntegerOverflowError} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `message` | `string` | **Required** | Contains a human-readable description of the error. |
+ * | `bits` | `number` | **Required** | Contains the number of bits that are available for the value. |
+ *
+ * <br /><br />
+ * @example Using the `IntegerOverflowError` class
+ * ```ts
+ * try {
+ *   new Reader(Buffer.from("ffffffffffffffffff01", "hex")).readUleb128();
+ * } catch (e) {
+ *   (e as IntegerOverflowError).bits; // 53
+ * }
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Reader}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class IntegerOverflowError extends RangeError {
+  /**
+   * Constructs an error object for an integer value that does not
+   * fit in {@link bits} bits.
+   *
+   * @access public
+   * @param   {string}   message   The human-readable description of the error.
+   * @param   {number}   bits      The number of bits available for the value.
+   */
+  public constructor(
+    message: string,
+
+    /**
+     * Contains the number of bits that are available for the value,
+     * e.g. `53` for `number` values or `64` for 64-bit integers.
+     *
+     * @access public
+     * @var {number}
+     */
+    public bits: number,
+  ) {
+    super(message);
+    this.name = "IntegerOverflowError";
+  }
+}
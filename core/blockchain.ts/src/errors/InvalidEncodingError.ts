@@ -0,0 +1,67 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @class InvalidEncodingError
+ * @description This error is thrown when data is decoded that does not
+ * respect the rules of an encoding, e.g. an RLP list of which the items
+ * exceed the list's length or a string that contains trailing bytes.
+ * <br /><br />
+ * Contrary to {@link NonCanonicalEncodingError}, the data is not merely
+ * encoded differently than expected but cannot be decoded at all.
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link InvalidEncodingError} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `message` | `string` | **Required** | Contains a human-readable description of the error. |
+ * | `offset` | `number` | **Required** | Contains the offset (position) at which the invalid data was found. |
+ *
+ * <br /><br />
+ * @example Using the `InvalidEncodingError` class
+ * ```ts
+ * try {
+ *   Rlp.decode(Buffer.from("8001", "hex"));
+ * } catch (e) {
+ *   (e as InvalidEncodingError).offset; // 1
+ * }
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link NonCanonicalEncodingError}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class InvalidEncodingError extends Error {
+  /**
+   * Constructs an error object for invalid data that was found at
+   * {@link offset}.
+   *
+   * @access public
+   * @param   {string}   message   The human-readable description of the error.
+   * @param   {number}   offset    The offset at which the invalid data was found.
+   */
+  public constructor(
+    message: string,
+
+    /**
+     * Contains the offset (position) at which the invalid data was
+     * found.
+     *
+     * @access public
+     * @var {number}
+     */
+    public offset: number,
+  ) {
+    super(message);
+    this.name = "InvalidEncodingError";
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @class NonCanonicalEncodingError
+ * @description This error is thrown when binary data is read that uses
+ * a valid but *non-canonical* encoding, e.g. a variable-length integer
+ * that is encoded with more bytes than necessary.
+ * <br /><br />
+ * Rejecting non-canonical encodings is important in the context of
+ * blockchain networks because the *same* value must always produce
+ * the *same* bytes (and hence the same hash).
+ * <br /><br />
+ * #### Parameters
+ * Following *inputs* apply to the {@link NonCanonicalEncodingError} class:
+ * | Input | Type | Required? | Description |
+ * | --- | --- | --- | --- |
+ * | `message` | `string` | **Required** | Contains a human-readable description of the error. |
+ * | `offset` | `number` | **Required** | Contains the offset (position) at which the encoded value starts. |
+ *
+ * <br /><br />
+ * @example Using the `NonCanonicalEncodingError` class
+ * ```ts
+ * try {
+ *   new Reader(Buffer.from("fd0100", "hex")).readVarInt();
+ * } catch (e) {
+ *   (e as NonCanonicalEncodingError).offset; // 0
+ * }
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Reader}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class NonCanonicalEncodingError extends Error {
+  /**
+   * Constructs an error object for a non-canonical encoding that
+   * was found at {@link offset}.
+   *
+   * @access public
+   * @param   {string}   message   The human-readable description of the error.
+   * @param   {number}   offset    The offset at which the encoded value starts.
+   */
+  public constructor(
+    message: string,
+
+    /**
+     * Contains the offset (position) at which the non-canonically
+     * encoded value starts in the buffer.
+     *
+     * @access public
+     * @var {number}
+     */
+    public offset: number,
+  ) {
+    super(message);
+    this.name = "NonCanonicalEncodingError";
+  }
+}
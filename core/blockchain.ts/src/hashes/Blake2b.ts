@@ -0,0 +1,239 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @class Blake2b
+ * @description This class contains a *pure TypeScript* implementation of
+ * the BLAKE2b hash function (RFC 7693) with variable output length and
+ * optional key, which is used by e.g. Zcash, Substrate-based chains
+ * (BLAKE2b-256) and Cardano (BLAKE2b-224). Node's `crypto` module only
+ * provides 64-byte BLAKE2b hashes without key.
+ * <br /><br />
+ * @example Using the `Blake2b` class
+ * ```ts
+ * Blake2b.hash(data); // 64 bytes
+ * Blake2b.hash(data, 32); // BLAKE2b-256
+ * Blake2b.hash(data, 32, key); // keyed hash (MAC)
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Hashes}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Blake2b {
+  /**
+   * Contains the initialization vector, as pairs of low and high 32-bit
+   * words.
+   *
+   * @static
+   * @access protected
+   * @var {number[]}
+   */
+  protected static IV: number[] = [
+    0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372,
+    0x5f1d36f1, 0xa54ff53a, 0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c,
+    0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+  ];
+
+  /**
+   * Contains the permutations of the message words, by round.
+   *
+   * @static
+   * @access protected
+   * @var {number[][]}
+   */
+  protected static SIGMA: number[][] = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+    [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+    [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+    [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+    [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+    [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+    [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+    [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+    [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+    [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+  ];
+
+  /**
+   * Computes the BLAKE2b hash of {@link data} with an output {@link length}
+   * from 1 to 64 bytes and an optional {@link key} of up to 64 bytes.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data      The data to hash.
+   * @param   {number}      length    (Optional) The number of bytes of the output, defaults to 64.
+   * @param   {Uint8Array}  key       (Optional) The key of a keyed hash (MAC).
+   * @returns {Uint8Array}  The hash of the data.
+   * @throws  {RangeError}  Given an invalid output length or a key of more than 64 bytes.
+   */
+  public static hash(
+    data: Uint8Array,
+    length = 64,
+    key: Uint8Array = new Uint8Array(),
+  ): Uint8Array {
+    if (!Number.isInteger(length) || length < 1 || length > 64) {
+      throw new RangeError(
+        `BLAKE2b output length ${length} must be from 1 to 64.`,
+      );
+    } else if (key.byteLength > 64) {
+      throw new RangeError(
+        `BLAKE2b key of ${key.byteLength} bytes exceeds 64 bytes.`,
+      );
+    }
+
+    // the parameter block sets the output and key lengths
+    const state = Uint32Array.from(Blake2b.IV);
+    state[0] ^= 0x01010000 ^ (key.byteLength << 8) ^ length;
+
+    // keys are prepended to the data as a padded block
+    const input = new Uint8Array((key.byteLength ? 128 : 0) + data.byteLength);
+    input.set(key);
+    input.set(data, key.byteLength ? 128 : 0);
+
+    // all blocks but the last are complete, the last may be empty
+    const block = new Uint8Array(128);
+    let offset = 0;
+    for (; offset + 128 < input.byteLength; offset += 128) {
+      block.set(input.subarray(offset, offset + 128));
+      Blake2b.compress(state, block, offset + 128, false);
+    }
+
+    block.fill(0);
+    block.set(input.subarray(offset));
+    Blake2b.compress(state, block, input.byteLength, true);
+
+    return new Uint8Array(state.buffer).slice(0, length);
+  }
+
+  /**
+   * Adds a 64-bit word, given as {@link lo} and {@link hi} 32-bit words,
+   * to the word at index {@link a} of {@link v} (modulo 2^64).
+   *
+   * @static
+   * @access protected
+   * @param   {Uint32Array}   v     The working vector, modified in place.
+   * @param   {number}        a     The index of the target word.
+   * @param   {number}        lo    The low 32 bits of the addend.
+   * @param   {number}        hi    The high 32 bits of the addend.
+   * @returns {void}
+   */
+  protected static add(
+    v: Uint32Array,
+    a: number,
+    lo: number,
+    hi: number,
+  ): void {
+    const sum = v[2 * a] + lo;
+    v[2 * a + 1] += hi + (sum > 0xffffffff ? 1 : 0);
+    v[2 * a] = sum;
+  }
+
+  /**
+   * Sets the word at index {@link d} of {@link v} to its' exclusive or
+   * with the word at index {@link a}, rotated right by {@link r} bits.
+   *
+   * @static
+   * @access protected
+   * @param   {Uint32Array}   v     The working vector, modified in place.
+   * @param   {number}        d     The index of the target word.
+   * @param   {number}        a     The index of the other word.
+   * @param   {number}        r     The number of bits to rotate, one of 16, 24, 32 or 63.
+   * @returns {void}
+   */
+  protected static xorRotate(
+    v: Uint32Array,
+    d: number,
+    a: number,
+    r: number,
+  ): void {
+    const lo = v[2 * d] ^ v[2 * a],
+      hi = v[2 * d + 1] ^ v[2 * a + 1];
+
+    if (r === 32) {
+      v[2 * d] = hi;
+      v[2 * d + 1] = lo;
+    } else if (r < 32) {
+      v[2 * d] = (lo >>> r) | (hi << (32 - r));
+      v[2 * d + 1] = (hi >>> r) | (lo << (32 - r));
+    } else {
+      v[2 * d] = (hi >>> (r - 32)) | (lo << (64 - r));
+      v[2 * d + 1] = (lo >>> (r - 32)) | (hi << (64 - r));
+    }
+  }
+
+  /**
+   * Compresses a 128-byte {@link block} into the {@link state}.
+   *
+   * @static
+   * @access protected
+   * @param   {Uint32Array}   state     The state of 8 64-bit words, modified in place.
+   * @param   {Uint8Array}    block     The block of 128 bytes.
+   * @param   {number}        counter   The number of bytes hashed so far, including the block.
+   * @param   {boolean}       last      Whether the block is the last block.
+   * @returns {void}
+   */
+  protected static compress(
+    state: Uint32Array,
+    block: Uint8Array,
+    counter: number,
+    last: boolean,
+  ): void {
+    const m = new Uint32Array(block.buffer, block.byteOffset, 32);
+    const v = new Uint32Array(32);
+    v.set(state);
+    v.set(Blake2b.IV, 16);
+    v[24] ^= counter >>> 0;
+    v[25] ^= Math.floor(counter / 0x100000000);
+    if (last) {
+      v[28] = ~v[28];
+      v[29] = ~v[29];
+    }
+
+    // mixes two message words into four words of the working vector
+    const mix = (
+      a: number,
+      b: number,
+      c: number,
+      d: number,
+      x: number,
+      y: number,
+    ) => {
+      Blake2b.add(v, a, v[2 * b], v[2 * b + 1]);
+      Blake2b.add(v, a, m[2 * x], m[2 * x + 1]);
+      Blake2b.xorRotate(v, d, a, 32);
+      Blake2b.add(v, c, v[2 * d], v[2 * d + 1]);
+      Blake2b.xorRotate(v, b, c, 24);
+      Blake2b.add(v, a, v[2 * b], v[2 * b + 1]);
+      Blake2b.add(v, a, m[2 * y], m[2 * y + 1]);
+      Blake2b.xorRotate(v, d, a, 16);
+      Blake2b.add(v, c, v[2 * d], v[2 * d + 1]);
+      Blake2b.xorRotate(v, b, c, 63);
+    };
+
+    for (let round = 0; round < 12; round++) {
+      const s = Blake2b.SIGMA[round % 10];
+      mix(0, 4, 8, 12, s[0], s[1]);
+      mix(1, 5, 9, 13, s[2], s[3]);
+      mix(2, 6, 10, 14, s[4], s[5]);
+      mix(3, 7, 11, 15, s[6], s[7]);
+      mix(0, 5, 10, 15, s[8], s[9]);
+      mix(1, 6, 11, 12, s[10], s[11]);
+      mix(2, 7, 8, 13, s[12], s[13]);
+      mix(3, 4, 9, 14, s[14], s[15]);
+    }
+
+    for (let i = 0; i < 16; i++) {
+      state[i] ^= v[i] ^ v[i + 16];
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { createHash } from "crypto";
+
+// internal dependencies
+import type { HashAlgorithm, HashFunction } from "../types/HashFunction";
+import { Blake2b } from "./Blake2b";
+import { Keccak } from "./Keccak";
+
+/**
+ * @class Hashes
+ * @description This class contains the hash functions that are commonly
+ * used by blockchain networks, and a *registry* of hash functions by
+ * name, such that e.g. {@link MerkleTree} and {@link Template} can
+ * reference hash functions by name.
+ * <br /><br />
+ * Hash functions that are available in Node's `crypto` module use it,
+ * whereas Keccak-256, SHA3-256 and BLAKE2b are implemented in *pure
+ * TypeScript* (see {@link Keccak} and {@link Blake2b}).
+ * <br /><br />
+ * @example Using the `Hashes` class
+ * ```ts
+ * const tree = new MerkleTree(txids, "sha256d");
+ * const hash = Hashes.get("hash160")(publicKey);
+ *
+ * // register custom hash functions
+ * Hashes.register("blake2b-224", (d) => Hashes.blake2b(d, 28));
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link MerkleTree}, {@link Template}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Hashes {
+  /**
+   * Contains the registered hash functions, by name.
+   *
+   * @static
+   * @access protected
+   * @var {Map<string, HashFunction>}
+   */
+  protected static registry: Map<string, HashFunction> = new Map<
+    string,
+    HashFunction
+  >([
+    ["sha256", Hashes.sha256],
+    ["sha256d", Hashes.sha256d],
+    ["ripemd160", Hashes.ripemd160],
+    ["hash160", Hashes.hash160],
+    ["sha3-256", Hashes.sha3_256],
+    ["keccak256", Hashes.keccak256],
+    ["blake2b", (data) => Hashes.blake2b(data)],
+    ["blake2b-256", (data) => Hashes.blake2b(data, 32)],
+  ]);
+
+  /**
+   * Contains the names of the built-in hash functions, which cannot be
+   * overwritten.
+   *
+   * @static
+   * @access protected
+   * @var {Set<string>}
+   */
+  protected static BUILTINS: Set<string> = new Set(Hashes.registry.keys());
+
+  /**
+   * Computes the SHA-256 hash of {@link data}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The data to hash.
+   * @returns {Uint8Array}  The 32-byte hash.
+   */
+  public static sha256(data: Uint8Array): Uint8Array {
+    return createHash("sha256").update(data).digest();
+  }
+
+  /**
+   * Computes the *double* SHA-256 hash of {@link data}, i.e. the SHA-256
+   * hash of its' SHA-256 hash, as used by Bitcoin for block and transaction
+   * hashes, merkle trees and Base58Check checksums.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The data to hash.
+   * @returns {Uint8Array}  The 32-byte hash.
+   */
+  public static sha256d(data: Uint8Array): Uint8Array {
+    return Hashes.sha256(Hashes.sha256(data));
+  }
+
+  /**
+   * Computes the RIPEMD-160 hash of {@link data}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The data to hash.
+   * @returns {Uint8Array}  The 20-byte hash.
+   */
+  public static ripemd160(data: Uint8Array): Uint8Array {
+    return createHash("ripemd160").update(data).digest();
+  }
+
+  /**
+   * Computes the HASH160 of {@link data}, i.e. the RIPEMD-160 hash of its'
+   * SHA-256 hash, as used by Bitcoin for public key hashes and script
+   * hashes (P2PKH, P2SH and P2WPKH).
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The data to hash.
+   * @returns {Uint8Array}  The 20-byte hash.
+   */
+  public static hash160(data: Uint8Array): Uint8Array {
+    return Hashes.ripemd160(Hashes.sha256(data));
+  }
+
+  /**
+   * Computes the Keccak-256 hash of {@link data}, as used by Ethereum,
+   * see {@link Keccak.keccak256}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The data to hash.
+   * @returns {Uint8Array}  The 32-byte hash.
+   */
+  public static keccak256(data: Uint8Array): Uint8Array {
+    return Keccak.keccak256(data);
+  }
+
+  /**
+   * Computes the SHA3-256 hash of {@link data}, see {@link
+   * Keccak.sha3_256}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The data to hash.
+   * @returns {Uint8Array}  The 32-byte hash.
+   */
+  public static sha3_256(data: Uint8Array): Uint8Array {
+    return Keccak.sha3_256(data);
+  }
+
+  /**
+   * Computes the BLAKE2b hash of {@link data}, see {@link Blake2b.hash}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data      The data to hash.
+   * @param   {number}      length    (Optional) The number of bytes of the output, defaults to 64.
+   * @param   {Uint8Array}  key       (Optional) The key of a keyed hash (MAC).
+   * @returns {Uint8Array}  The hash of the data.
+   * @throws  {RangeError}  Given an invalid output length or a key of more than 64 bytes.
+   */
+  public static blake2b(
+    data: Uint8Array,
+    length?: number,
+    key?: Uint8Array,
+  ): Uint8Array {
+    return Blake2b.hash(data, length, key);
+  }
+
+  /**
+   * Registers a hash function by {@link name}, e.g. to reference custom
+   * hash functions by name. Custom names that are already registered are
+   * only overwritten with {@link override}, and built-in names, e.g.
+   * `"sha256d"`, can never be overwritten because the registry is shared
+   * by every merkle tree and template that resolves hashes by name.
+   *
+   * @static
+   * @access public
+   * @param   {string}        name        The name of the hash function, e.g. `"blake2b-224"`.
+   * @param   {HashFunction}  hash        The hash function.
+   * @param   {boolean}       override    (Optional) Whether to overwrite a custom hash function, defaults to `false`.
+   * @returns {void}
+   * @throws  {RangeError}  Given a built-in name, or a registered name without {@link override}.
+   */
+  public static register(
+    name: string,
+    hash: HashFunction,
+    override: boolean = false,
+  ): void {
+    if (Hashes.BUILTINS.has(name) || (Hashes.registry.has(name) && !override)) {
+      throw new RangeError(`Hash function "${name}" is already registered.`);
+    }
+
+    Hashes.registry.set(name, hash);
+  }
+
+  /**
+   * Returns whether a hash function is registered by {@link name}.
+   *
+   * @static
+   * @access public
+   * @param   {string}  name    The name of the hash function.
+   * @returns {boolean}  True if the hash function is registered.
+   */
+  public static has(name: string): boolean {
+    return Hashes.registry.has(name);
+  }
+
+  /**
+   * Returns the hash function that is registered by {@link name}.
+   *
+   * @static
+   * @access public
+   * @param   {string}  name    The name of the hash function, e.g. `"sha256d"`.
+   * @returns {HashFunction}  The hash function.
+   * @throws  {RangeError}  Given a name that is not registered.
+   */
+  public static get(name: string): HashFunction {
+    const hash = Hashes.registry.get(name);
+    if (hash === undefined) {
+      throw new RangeError(`Hash function "${name}" is not registered.`);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Returns the names of all registered hash functions.
+   *
+   * @static
+   * @access public
+   * @returns {string[]}  The names of the hash functions.
+   */
+  public static names(): string[] {
+    return Array.from(Hashes.registry.keys());
+  }
+
+  /**
+   * Resolves a hash {@link algorithm}, i.e. returns hash functions as is
+   * and the registered hash function for names.
+   *
+   * @static
+   * @access public
+   * @param   {HashAlgorithm}   algorithm   The hash function or its' name.
+   * @returns {HashFunction}  The hash function.
+   * @throws  {RangeError}  Given a name that is not registered.
+   */
+  public static resolve(algorithm: HashAlgorithm): HashFunction {
+    return typeof algorithm === "string" ? Hashes.get(algorithm) : algorithm;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @class Keccak
+ * @description This class contains a *pure TypeScript* implementation of
+ * the Keccak sponge construction (FIPS 202) with the `Keccak-f[1600]`
+ * permutation, which is used by Ethereum (Keccak-256) and SHA-3.
+ * <br /><br />
+ * Note that Ethereum's Keccak-256 uses the *original* Keccak padding
+ * (`0x01`) and therefore produces different hashes than SHA3-256 which
+ * uses the FIPS 202 padding (`0x06`).
+ * <br /><br />
+ * @example Using the `Keccak` class
+ * ```ts
+ * Keccak.keccak256(Buffer.from("abc")); // 4e03657a...
+ * Keccak.sha3_256(Buffer.from("abc")); // 3a985da7...
+ * ```
+ * <br /><br />
+ * #### Other links
+ * {@link Hashes}
+ * <br /><br />
+ * @since v0.2.0
+ */
+export class Keccak {
+  /**
+   * Contains the rotation offsets of the lanes, by index `x + 5y`.
+   *
+   * @static
+   * @access protected
+   * @var {number[]}
+   */
+  protected static ROTATIONS: number[] = [
+    0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8,
+    18, 2, 61, 56, 14,
+  ];
+
+  /**
+   * Contains the round constants of the `iota` step, as pairs of low
+   * and high 32-bit words.
+   *
+   * @static
+   * @access protected
+   * @var {number[]}
+   */
+  protected static ROUND_CONSTANTS: number[] = [
+    1, 0, 32898, 0, 32906, 2147483648, 2147516416, 2147483648, 32907, 0,
+    2147483649, 0, 2147516545, 2147483648, 32777, 2147483648, 138, 0, 136, 0,
+    2147516425, 0, 2147483658, 0, 2147516555, 0, 139, 2147483648, 32905,
+    2147483648, 32771, 2147483648, 32770, 2147483648, 128, 2147483648, 32778, 0,
+    2147483658, 2147483648, 2147516545, 2147483648, 32896, 2147483648,
+    2147483649, 0, 2147516424, 2147483648,
+  ];
+
+  /**
+   * Computes the Keccak-256 hash of {@link data}, as used by Ethereum
+   * for addresses, function selectors, event topics and tries.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The data to hash.
+   * @returns {Uint8Array}  The 32-byte hash.
+   */
+  public static keccak256(data: Uint8Array): Uint8Array {
+    return Keccak.sponge(data, 136, 0x01, 32);
+  }
+
+  /**
+   * Computes the SHA3-256 hash of {@link data}, as standardized in
+   * FIPS 202.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The data to hash.
+   * @returns {Uint8Array}  The 32-byte hash.
+   */
+  public static sha3_256(data: Uint8Array): Uint8Array {
+    return Keccak.sponge(data, 136, 0x06, 32);
+  }
+
+  /**
+   * Computes the Keccak sponge of {@link data} with a given {@link rate}
+   * in bytes, {@link padding} (domain separation) byte and output
+   * {@link length} in bytes.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data      The data to hash.
+   * @param   {number}      rate      The number of bytes absorbed per permutation.
+   * @param   {number}      padding   The first padding byte, `0x01` for Keccak or `0x06` for SHA-3.
+   * @param   {number}      length    The number of bytes of the output.
+   * @returns {Uint8Array}  The hash of the data.
+   */
+  public static sponge(
+    data: Uint8Array,
+    rate: number,
+    padding: number,
+    length: number,
+  ): Uint8Array {
+    const state = new Uint32Array(50);
+    const xorByte = (i: number, v: number) => {
+      state[i >> 2] ^= v << (8 * (i & 3));
+    };
+
+    // absorb all complete blocks, then the padded last block
+    let offset = 0;
+    for (; offset + rate <= data.byteLength; offset += rate) {
+      for (let i = 0; i < rate; i++) {
+        xorByte(i, data[offset + i]);
+      }
+      Keccak.permute(state);
+    }
+
+    for (let i = 0; offset + i < data.byteLength; i++) {
+      xorByte(i, data[offset + i]);
+    }
+    xorByte(data.byteLength - offset, padding);
+    xorByte(rate - 1, 0x80);
+    Keccak.permute(state);
+
+    // squeeze the output, one block at a time
+    const output = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      if (i > 0 && i % rate === 0) {
+        Keccak.permute(state);
+      }
+
+      output[i] = (state[(i % rate) >> 2] >>> (8 * (i & 3))) & 0xff;
+    }
+
+    return output;
+  }
+
+  /**
+   * Applies the `Keccak-f[1600]` permutation to a {@link state} of 25
+   * 64-bit lanes, each stored as a low and a high 32-bit word.
+   *
+   * @static
+   * @access protected
+   * @param   {Uint32Array}   state   The state of 50 words, modified in place.
+   * @returns {void}
+   */
+  protected static permute(state: Uint32Array): void {
+    const c = new Uint32Array(10);
+    const b = new Uint32Array(50);
+
+    for (let round = 0; round < 24; round++) {
+      // theta: xor every lane with the parities of two columns
+      for (let x = 0; x < 5; x++) {
+        for (let w = 0; w < 2; w++) {
+          c[2 * x + w] =
+            state[2 * x + w] ^
+            state[2 * x + w + 10] ^
+            state[2 * x + w + 20] ^
+            state[2 * x + w + 30] ^
+            state[2 * x + w + 40];
+        }
+      }
+
+      for (let x = 0; x < 5; x++) {
+        const lo = c[2 * ((x + 1) % 5)],
+          hi = c[2 * ((x + 1) % 5) + 1];
+        const dLo = c[2 * ((x + 4) % 5)] ^ ((lo << 1) | (hi >>> 31)),
+          dHi = c[2 * ((x + 4) % 5) + 1] ^ ((hi << 1) | (lo >>> 31));
+
+        for (let y = 0; y < 25; y += 5) {
+          state[2 * (x + y)] ^= dLo;
+          state[2 * (x + y) + 1] ^= dHi;
+        }
+      }
+
+      // rho and pi: rotate lanes and move them to their new position
+      for (let x = 0; x < 5; x++) {
+        for (let y = 0; y < 5; y++) {
+          const index = x + 5 * y,
+            target = y + 5 * ((2 * x + 3 * y) % 5),
+            r = Keccak.ROTATIONS[index];
+          const lo = state[2 * index],
+            hi = state[2 * index + 1];
+
+          if (r === 0) {
+            b[2 * target] = lo;
+            b[2 * target + 1] = hi;
+          } else if (r < 32) {
+            b[2 * target] = (lo << r) | (hi >>> (32 - r));
+            b[2 * target + 1] = (hi << r) | (lo >>> (32 - r));
+          } else if (r === 32) {
+            b[2 * target] = hi;
+            b[2 * target + 1] = lo;
+          } else {
+            b[2 * target] = (hi << (r - 32)) | (lo >>> (64 - r));
+            b[2 * target + 1] = (lo << (r - 32)) | (hi >>> (64 - r));
+          }
+        }
+      }
+
+      // chi: combine every lane with the next two lanes of its' row
+      for (let y = 0; y < 25; y += 5) {
+        for (let x = 0; x < 5; x++) {
+          for (let w = 0; w < 2; w++) {
+            state[2 * (x + y) + w] =
+              b[2 * (x + y) + w] ^
+              (~b[2 * (((x + 1) % 5) + y) + w] &
+                b[2 * (((x + 2) % 5) + y) + w]);
+          }
+        }
+      }
+
+      // iota: break the symmetry with a round constant
+      state[0] ^= Keccak.ROUND_CONSTANTS[2 * round];
+      state[1] ^= Keccak.ROUND_CONSTANTS[2 * round + 1];
+    }
+  }
+}
@@ -8,6 +8,18 @@
  * @author      re:Software S.L. <devs@resoftware.es>
  * @license     LGPL-3.0
  */
+// internal dependencies
+import { Reader } from "../buffer/Reader";
+import { SizeWriter } from "../buffer/SizeWriter";
+import { Writer } from "../buffer/Writer";
+import { InvalidEncodingError } from "../errors/InvalidEncodingError";
+import { Hashes } from "../hashes/Hashes";
+import type { HashAlgorithm, HashFunction } from "../types/HashFunction";
+import type { MerkleMultiProof, MerkleProof } from "../types/MerkleProof";
+import type {
+  MerkleStrategy,
+  MerkleTreeOptions,
+} from "../types/MerkleTreeOptions";
 
 /**
  * @class MerkleTree
@@ -27,8 +39,9 @@
  * | Input | Type | Required? | Description |
  * | --- | --- | --- | --- |
  * | `hashes` | `Uint8Array[]` | **Required** | An array of cryptographic hashes, e.g. sha3-256 transaction hashes. |
- * | `hashFunction` | `(h: Uint8Array) => Uint8Array` | **Required** | A hash function implementation, e.g. sha3_256. |
+ * | `hashFunction` | `HashAlgorithm` | **Required** | A hash function implementation, e.g. sha3_256, or the name of a registered hash function, e.g. `"sha256d"`. |
  * | `hashSize` | `number` | **Optional** | Contains the size of hashes produced with {@link hashFunction} in bytes, defaults to 32. |
+ * | `options` | `MerkleTreeOptions` | **Optional** | Contains the {@link MerkleStrategy} that determines how hashes are paired, defaults to `duplicate` (Bitcoin), and the domain separation of leaves and inner nodes. |
  *
  * <br /><br />
  * @example Using the `MerkleTree` class
@@ -42,10 +55,30 @@
  * const newMerkleTree = new MerkleTree(hashes.map(
  *   h => Uint8Array.from(Buffer.from(h, "hex"))
  * ), (h: Uint8Array) => myCoolHashFunction(h));
+ *
+ * // or reference a hash function of the registry by name
+ * const btcMerkleTree = new MerkleTree(txids, "sha256d");
+ *
+ * // prove and verify the inclusion of a transaction
+ * const proof = btcMerkleTree.getProof(txid);
+ * MerkleTree.verify(txid, proof, btcMerkleTree.getRoot(), "sha256d"); // true
+ *
+ * // prove the inclusion of several transactions at once
+ * const multiproof = btcMerkleTree.getMultiProof([0, 2]);
+ * MerkleTree.verifyMultiProof([txids[0], txids[2]], multiproof, btcMerkleTree.getRoot(), "sha256d"); // true
+ *
+ * // pair hashes as OpenZeppelin's MerkleProof does
+ * const ozMerkleTree = new MerkleTree(leaves, "keccak256", 32, { strategy: "sorted" });
+ *
+ * // update the tree without recomputing it entirely
+ * btcMerkleTree.append(txid);
+ *
+ * // reject malleated blocks (CVE-2012-2459)
+ * if (btcMerkleTree.detectMutation()) throw new Error("mutated block");
  * ```
  * <br /><br />
  * #### Other links
- * {@link Block}
+ * {@link Block}, {@link Hashes}
  * <br /><br />
  * @since v0.1.0
  */
@@ -67,38 +100,88 @@ export class MerkleTree {
    */
   public merkleRoot: Uint8Array;
 
+  /**
+   * An array of cryptographic hashes, e.g. sha3-256 transaction hashes,
+   * i.e. the leaves of the merkle tree.
+   * <br /><br />
+   * This is a copy of the array given to the {@link constructor}, which
+   * is never modified. Use {@link updateLeaf} and {@link append} rather
+   * than modifying this array, such that the layers are updated.
+   *
+   * @access public
+   * @example `[ new Uint8Array([1, 2]), new Uint8Array([3, 4]) ]`
+   * @var {Uint8Array[]}
+   */
+  public hashes: Uint8Array[];
+
+  /**
+   * A hash function implementation, e.g. sha3_256.
+   * <br /><br />
+   * Using Bitcoin as an example, the merkle root hash is computed
+   * using a **double SHA-256** hashing algorithm.
+   *
+   * @access protected
+   * @example `(h: Uint8Array) => myCoolHashFunction(h)`
+   * @var {HashFunction}
+   */
+  protected hashFunction: HashFunction;
+
+  /**
+   * Contains the strategy that determines how hashes are paired, e.g.
+   * `duplicate` to pair the last hash of odd levels with itself.
+   *
+   * @access protected
+   * @var {MerkleStrategy}
+   */
+  protected strategy: MerkleStrategy;
+
+  /**
+   * Contains the options of the merkle tree, e.g. whether leaves and
+   * inner nodes are hashed with a prefix or as tagged hashes.
+   *
+   * @access protected
+   * @var {MerkleTreeOptions}
+   */
+  protected options: MerkleTreeOptions;
+
+  /**
+   * Contains the *layers* of the merkle tree, i.e. the leaves, hashed
+   * with prefixes or tags if enabled, followed by the hashes of every
+   * level up to the merkle root.
+   *
+   * @access protected
+   * @var {Uint8Array[][]}
+   */
+  protected layers: Uint8Array[][];
+
+  /**
+   * Contains the hashes of *empty subtrees* by level, i.e. a zeroed hash
+   * followed by the hashes of pairs of empty subtrees of the level below,
+   * as computed lazily for the `pad` strategy.
+   *
+   * @access protected
+   * @var {Uint8Array[]}
+   */
+  protected zeroHashes: Uint8Array[];
+
   /**
    * Constructs a merkle tree object around a {@link hashes} array of hashes.
    * <br /><br />
-   * The merkle root hash will automatically be computed during the creation
-   * of the instance.
+   * The layers and merkle root hash will automatically be computed during
+   * the creation of the instance. Note that the array of hashes is copied
+   * and never modified.
    *
    * @access public
    * @param   {Uint8Array[]}                    hashes          An array of cryptographic hashes, e.g. sha3-256 transaction hashes.
-   * @param   {(h: Uint8Array) => Uint8Array}   hashFunction    A hash function implementation, e.g. sha3_256.
+   * @param   {HashAlgorithm}                   hashFunction    A hash function implementation, e.g. sha3_256, or the name of a registered hash function.
    * @param   {number}                          hashSize        Contains the size of hashes produced with {@link hashFunction} in bytes, defaults to 32.
+   * @param   {MerkleTreeOptions}               options         (Optional) Contains the strategy that determines how hashes are paired and the domain separation of leaves and nodes.
+   * @throws  {RangeError}  Given the name of a hash function that is not registered, or both prefixes and tags.
    */
   public constructor(
-    /**
-     * An array of cryptographic hashes, e.g. sha3-256 transaction hashes.
-     *
-     * @access public
-     * @example `[ new Uint8Array([1, 2]), new Uint8Array([3, 4]) ]`
-     * @var {Uint8Array[]}
-     */
-    public hashes: Uint8Array[],
+    hashes: Uint8Array[],
 
-    /**
-     * A hash function implementation, e.g. sha3_256.
-     * <br /><br />
-     * Using Bitcoin as an example, the merkle root hash is computed
-     * using a **double SHA-256** hashing algorithm.
-     *
-     * @access public
-     * @example `(h: Uint8Array) => myCoolHashFunction(h)`
-     * @var {(h: Uint8Array) => Uint8Array}
-     */
-    protected hashFunction: (h: Uint8Array) => Uint8Array,
+    hashFunction: HashAlgorithm,
 
     /**
      * Contains the size of hashes produced with {@link hashFunction} in bytes,
@@ -108,15 +191,27 @@ export class MerkleTree {
      * @var {number}
      */
     protected hashSize: number = MerkleTree.DEFAULT_HASH_SIZE,
+
+    options: MerkleTreeOptions = {},
   ) {
+    this.hashFunction = Hashes.resolve(hashFunction);
+    this.strategy = options.strategy ?? "duplicate";
+    if (options.prefixes && options.tags !== undefined) {
+      throw new RangeError(`Merkle tree prefixes and tags cannot be combined.`);
+    }
+
+    this.options = options;
+    this.hashes = hashes.slice();
+    this.zeroHashes = [];
+    this.layers = this.computeLayers();
     this.merkleRoot = this.getRoot();
   }
 
   /**
-   * Computes the merkle root hash of a merkle tree.
+   * Returns the merkle root hash of a merkle tree.
    * <br /><br />
-   * This method is automatically called by the {@link constructor} and
-   * returns the already computed merkle root hash for subsequent calls.
+   * The merkle root hash is computed by the {@link constructor} and kept
+   * up to date by {@link updateLeaf} and {@link append}.
    * <br /><br />
    * Note that given an empty array of hashes, the merkle root hash will
    * always return an empty [zeroed] {@link hashSize}-sized hash.
@@ -130,45 +225,669 @@ export class MerkleTree {
       return new Uint8Array(this.hashSize);
     }
 
-    // return root if already computed
-    if (this.merkleRoot !== undefined) {
-      return this.merkleRoot;
+    return this.layers[this.layers.length - 1][0];
+  }
+
+  /**
+   * Returns the *layers* of a merkle tree, i.e. the leaves followed by
+   * the hashes of every level up to the merkle root.
+   * <br /><br />
+   * With prefixes or tags, the first layer contains the hashed leaves.
+   * Note that layers do not contain the zero hashes of the `pad` strategy
+   * nor the clones of the `duplicate` strategy.
+   *
+   * @access public
+   * @returns {Uint8Array[][]}  The layers, from the leaves to the root.
+   */
+  public getLayers(): Uint8Array[][] {
+    return this.layers.map((layer) => layer.slice());
+  }
+
+  /**
+   * Returns the leaf at {@link index}, i.e. the hash as given to the
+   * {@link constructor}, {@link updateLeaf} or {@link append}.
+   *
+   * @access public
+   * @param   {number}  index   The index of the leaf.
+   * @returns {Uint8Array}  The leaf.
+   * @throws  {RangeError}  Given an index out of bounds.
+   */
+  public getLeaf(index: number): Uint8Array {
+    this.checkIndex(index);
+    return this.hashes[index];
+  }
+
+  /**
+   * Replaces the leaf at {@link index} with {@link hash} and recomputes
+   * the hashes of the path from the leaf up to the merkle root, i.e. one
+   * hash per level.
+   *
+   * @access public
+   * @param   {number}      index   The index of the leaf.
+   * @param   {Uint8Array}  hash    The new leaf.
+   * @returns {Uint8Array}  The updated merkle root hash.
+   * @throws  {RangeError}  Given an index out of bounds.
+   */
+  public updateLeaf(index: number, hash: Uint8Array): Uint8Array {
+    this.checkIndex(index);
+    this.hashes[index] = hash;
+    this.layers[0][index] = MerkleTree.hashLeaf(
+      hash,
+      this.hashFunction,
+      this.options,
+    );
+
+    return this.updatePath(index);
+  }
+
+  /**
+   * Appends {@link hash} as a new leaf and recomputes the hashes of the
+   * path from the leaf up to the merkle root, adding a level when the
+   * number of leaves exceeds a power of two.
+   *
+   * @access public
+   * @param   {Uint8Array}  hash    The new leaf.
+   * @returns {Uint8Array}  The updated merkle root hash.
+   */
+  public append(hash: Uint8Array): Uint8Array {
+    this.hashes.push(hash);
+    this.layers[0].push(
+      MerkleTree.hashLeaf(hash, this.hashFunction, this.options),
+    );
+
+    return this.updatePath(this.hashes.length - 1);
+  }
+
+  /**
+   * Computes the merkle *inclusion proof* of a leaf, i.e. the sibling
+   * hashes from the leaf up to the merkle root, with their positions.
+   * <br /><br />
+   * A light client that knows the merkle root can verify the proof with
+   * {@link MerkleTree.verify}, without knowing the other leaves.
+   *
+   * @access public
+   * @param   {number | Uint8Array}   leaf    The index of the leaf, or its' hash.
+   * @returns {MerkleProof}  The sibling hashes from the leaf to the root.
+   * @throws  {RangeError}  Given an index out of bounds or an unknown leaf hash.
+   */
+  public getProof(leaf: number | Uint8Array): MerkleProof {
+    let index = this.findLeaf(leaf);
+
+    // collect the sibling of the current node on every level,
+    // unless the node is unpaired and promoted to the next level
+    const proof: MerkleProof = [];
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      const hash = this.getSibling(level, index);
+      if (hash !== undefined) {
+        const left =
+          this.strategy === "sorted"
+            ? Buffer.compare(hash, this.layers[level][index]) < 0
+            : index % 2 === 1;
+        proof.push({ hash, position: left ? "left" : "right" });
+      }
+
+      index >>= 1;
+    }
+
+    return proof;
+  }
+
+  /**
+   * Computes the merkle *multiproof* of several leaves, i.e. the minimal
+   * set of sibling hashes needed to compute the merkle root from the
+   * leaves. Siblings that are part of the proven leaves, or computed
+   * from them, are omitted such that shared hashes are included once.
+   * <br /><br />
+   * The proof can be verified with {@link MerkleTree.verifyMultiProof}
+   * given the leaves in the order of the proof's indices.
+   *
+   * @access public
+   * @param   {(number | Uint8Array)[]}   leaves    The indices of the leaves, or their hashes.
+   * @returns {MerkleMultiProof}  The sorted indices of the leaves and the helper hashes.
+   * @throws  {RangeError}  Given no leaves, an index out of bounds or an unknown leaf hash.
+   */
+  public getMultiProof(leaves: (number | Uint8Array)[]): MerkleMultiProof {
+    const indices = [...new Set(leaves.map((leaf) => this.findLeaf(leaf)))];
+    if (!indices.length) {
+      throw new RangeError(
+        `Merkle multiproofs must contain at least one leaf.`,
+      );
+    }
+
+    indices.sort((a, b) => a - b);
+
+    // collect the siblings that cannot be computed from the leaves on
+    // every level, unpaired nodes are handled by the verifier
+    const hashes: Uint8Array[] = [];
+    let known = new Set(indices);
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      const layer = this.layers[level];
+      for (const index of known) {
+        const sibling = index ^ 1;
+        if (sibling < layer.length && !known.has(sibling)) {
+          hashes.push(layer[sibling]);
+        }
+      }
+
+      known = new Set([...known].map((index) => index >> 1));
+    }
+
+    return { indices, leafCount: this.hashes.length, hashes };
+  }
+
+  /**
+   * Detects whether the merkle tree is *mutated*, i.e. whether the last
+   * two hashes of any level with an even number of hashes are equal.
+   * <br /><br />
+   * With the `duplicate` strategy, a list of hashes whose last hashes
+   * are duplicated, e.g. `[a, b, c, c]`, produces the same merkle root
+   * as the original list, e.g. `[a, b, c]` (CVE-2012-2459). A block
+   * validator should thereby reject blocks of mutated merkle trees. The
+   * other strategies do not pair hashes with themselves and are never
+   * considered mutated.
+   *
+   * @access public
+   * @returns {boolean}  True if the last two hashes of a level are equal.
+   */
+  public detectMutation(): boolean {
+    if (this.strategy !== "duplicate") {
+      return false;
     }
 
-    // compute merkle root hash
-    return this.computeMerkleRoot();
+    return this.layers.some(
+      (layer) =>
+        layer.length > 1 &&
+        layer.length % 2 === 0 &&
+        Buffer.from(layer[layer.length - 2]).equals(layer[layer.length - 1]),
+    );
+  }
+
+  /**
+   * Verifies a merkle inclusion {@link proof}, i.e. whether hashing the
+   * {@link leaf} with the sibling hashes of the proof results in the
+   * merkle {@link root}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}          leaf            The hash of the leaf.
+   * @param   {MerkleProof}         proof           The sibling hashes from the leaf to the root.
+   * @param   {Uint8Array}          root            The expected merkle root hash.
+   * @param   {HashAlgorithm}       hashFunction    The hash function of the tree, or its' name.
+   * @param   {MerkleTreeOptions}   options         (Optional) The options of the tree, i.e. its' prefixes or tags.
+   * @returns {boolean}  True if the proof is valid for the leaf and root.
+   * @throws  {RangeError}  Given the name of a hash function that is not registered.
+   */
+  public static verify(
+    leaf: Uint8Array,
+    proof: MerkleProof,
+    root: Uint8Array,
+    hashFunction: HashAlgorithm,
+    options: MerkleTreeOptions = {},
+  ): boolean {
+    const hash = Hashes.resolve(hashFunction);
+    const computed = proof.reduce(
+      (node, sibling) =>
+        sibling.position === "left"
+          ? MerkleTree.hashNode(sibling.hash, node, hash, options)
+          : MerkleTree.hashNode(node, sibling.hash, hash, options),
+      MerkleTree.hashLeaf(leaf, hash, options),
+    );
+
+    return Buffer.from(computed).equals(root);
   }
 
   /**
-   * Computes the merkle root hash of a merkle tree.
+   * Verifies a merkle *multiproof*, i.e. whether hashing the {@link leaves}
+   * with the helper hashes of the proof results in the merkle {@link root}.
    * <br /><br />
-   * If the number of hashes is not *even*, the last hash of the
-   * tree will be cloned and added to the list of hashes.
+   * The leaves must be given in the order of the proof's indices and the
+   * {@link options} must contain the strategy of the tree, which determines
+   * how unpaired nodes are hashed.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array[]}        leaves          The hashes of the leaves, in the order of the proof's indices.
+   * @param   {MerkleMultiProof}    proof           The merkle multiproof.
+   * @param   {Uint8Array}          root            The expected merkle root hash.
+   * @param   {HashAlgorithm}       hashFunction    The hash function of the tree, or its' name.
+   * @param   {MerkleTreeOptions}   options         (Optional) The options of the tree, i.e. its' strategy, prefixes or tags.
+   * @returns {boolean}  True if the proof is valid for the leaves and root.
+   * @throws  {RangeError}  Given the name of a hash function that is not registered.
+   */
+  public static verifyMultiProof(
+    leaves: Uint8Array[],
+    proof: MerkleMultiProof,
+    root: Uint8Array,
+    hashFunction: HashAlgorithm,
+    options: MerkleTreeOptions = {},
+  ): boolean {
+    const hash = Hashes.resolve(hashFunction);
+    const strategy = options.strategy ?? "duplicate";
+    const { indices, leafCount } = proof;
+    const isValid = indices.every(
+      (index, i) =>
+        Number.isInteger(index) &&
+        index < leafCount &&
+        index >= (i ? indices[i - 1] + 1 : 0),
+    );
+
+    if (!indices.length || !isValid || leaves.length !== indices.length) {
+      return false;
+    }
+
+    // nodes are iterated by ascending index, on every level
+    let nodes = new Map(
+      indices.map((index, i) => [
+        index,
+        MerkleTree.hashLeaf(leaves[i], hash, options),
+      ]),
+    );
+
+    let zero = new Uint8Array(root.byteLength);
+    let helper = 0;
+    for (let width = leafCount; width > 1; width = (width + 1) >> 1) {
+      const parents = new Map<number, Uint8Array>();
+      for (const [index, node] of nodes) {
+        if (parents.has(index >> 1)) {
+          continue;
+        }
+
+        // the sibling is either known, a helper hash, or missing
+        // in which case the strategy determines the parent node
+        const sibling = index ^ 1;
+        let other = nodes.get(sibling);
+        if (other === undefined && sibling < width) {
+          other = proof.hashes[helper++];
+          if (other === undefined) {
+            return false;
+          }
+        } else if (other === undefined && strategy === "duplicate") {
+          other = node;
+        } else if (other === undefined && strategy === "pad") {
+          other = zero;
+        }
+
+        parents.set(
+          index >> 1,
+          other === undefined
+            ? node
+            : index % 2
+              ? MerkleTree.hashNode(other, node, hash, options)
+              : MerkleTree.hashNode(node, other, hash, options),
+        );
+      }
+
+      if (strategy === "pad") {
+        zero = MerkleTree.hashNode(zero, zero, hash, options);
+      }
+
+      nodes = parents;
+    }
+
+    const computed = nodes.get(0);
+    return (
+      helper === proof.hashes.length &&
+      computed !== undefined &&
+      Buffer.from(computed).equals(root)
+    );
+  }
+
+  /**
+   * Writes a merkle inclusion {@link proof} using a {@link writer}, i.e.
+   * its' number of hashes as a CompactSize integer, the size of hashes
+   * (one byte), the positions as a bitfield (set bits for `left`) and the
+   * sibling hashes.
+   *
+   * @static
+   * @access public
+   * @param   {Writer}        writer    The writer instance.
+   * @param   {MerkleProof}   proof     The merkle inclusion proof.
+   * @returns {void}
+   * @throws  {RangeError}  Given sibling hashes of different or more than 255 bytes.
+   */
+  public static writeProof(writer: Writer, proof: MerkleProof): void {
+    const hashSize = proof.length ? proof[0].hash.byteLength : 0;
+    if (hashSize > 255 || proof.some((n) => n.hash.byteLength !== hashSize)) {
+      throw new RangeError(
+        `Merkle proof hashes must be of the same size of up to 255 bytes.`,
+      );
+    }
+
+    const flags = new Uint8Array(Math.ceil(proof.length / 8));
+    proof.forEach((node, i) => {
+      if (node.position === "left") {
+        flags[i >> 3] |= 1 << (i & 7);
+      }
+    });
+
+    writer.writeVarInt(proof.length);
+    writer.writeUint8(hashSize);
+    writer.writeBuffer(flags);
+    proof.forEach((node) => writer.writeBuffer(node.hash));
+  }
+
+  /**
+   * Reads a merkle inclusion proof using a {@link reader}, i.e. the
+   * inverse of {@link writeProof}.
+   *
+   * @static
+   * @access public
+   * @param   {Reader}  reader    The reader instance.
+   * @returns {MerkleProof}  The merkle inclusion proof.
+   * @throws  {InvalidEncodingError}  Given unused bits of the bitfield that are set.
+   * @throws  {BufferUnderflowError}  Given truncated data.
+   */
+  public static readProof(reader: Reader): MerkleProof {
+    const length = reader.readVarInt();
+    const hashSize = reader.readUint8();
+    const offset = reader.offset;
+    const flags = reader.readBuffer(Math.ceil(length / 8));
+    if (length % 8 && flags[flags.length - 1] >> (length % 8)) {
+      throw new InvalidEncodingError(
+        `Merkle proof positions at offset ${offset} contain unused bits.`,
+        offset,
+      );
+    }
+
+    return Array.from({ length }, (_, i) => ({
+      hash: Buffer.from(reader.readBuffer(hashSize)),
+      position: (flags[i >> 3] >> (i & 7)) & 1 ? "left" : "right",
+    }));
+  }
+
+  /**
+   * Serializes a merkle inclusion {@link proof} as written with
+   * {@link writeProof}.
+   *
+   * @static
+   * @access public
+   * @param   {MerkleProof}   proof   The merkle inclusion proof.
+   * @returns {Uint8Array}  The serialized proof.
+   */
+  public static encodeProof(proof: MerkleProof): Uint8Array {
+    const size = new SizeWriter();
+    MerkleTree.writeProof(size, proof);
+
+    const writer = new Writer(Buffer.alloc(size.offset));
+    MerkleTree.writeProof(writer, proof);
+    return writer.finish();
+  }
+
+  /**
+   * Deserializes a merkle inclusion proof from {@link data}, i.e. the
+   * inverse of {@link encodeProof}.
+   *
+   * @static
+   * @access public
+   * @param   {Uint8Array}  data    The serialized proof.
+   * @returns {MerkleProof}  The merkle inclusion proof.
+   * @throws  {InvalidEncodingError}  Given invalid positions or trailing bytes.
+   * @throws  {BufferUnderflowError}  Given truncated data.
+   */
+  public static decodeProof(data: Uint8Array): MerkleProof {
+    const reader = new Reader(
+      Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+    );
+
+    const proof = MerkleTree.readProof(reader);
+    if (!reader.isEOF()) {
+      throw new InvalidEncodingError(
+        `Merkle proof contains ${reader.remaining()} trailing bytes after offset ${reader.offset}.`,
+        reader.offset,
+      );
+    }
+
+    return proof;
+  }
+
+  /**
+   * Verifies that {@link index} is the index of a leaf.
+   *
+   * @access protected
+   * @param   {number}  index   The index of the leaf.
+   * @returns {void}
+   * @throws  {RangeError}  Given an index out of bounds.
+   */
+  protected checkIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.hashes.length) {
+      throw new RangeError(`Merkle leaf index ${index} is out of bounds.`);
+    }
+  }
+
+  /**
+   * Returns the index of a {@link leaf} given its' index or its' hash.
+   *
+   * @access protected
+   * @param   {number | Uint8Array}   leaf    The index of the leaf, or its' hash.
+   * @returns {number}  The index of the leaf.
+   * @throws  {RangeError}  Given an index out of bounds or an unknown leaf hash.
+   */
+  protected findLeaf(leaf: number | Uint8Array): number {
+    const index =
+      typeof leaf === "number"
+        ? leaf
+        : this.hashes.findIndex((h) => Buffer.from(h).equals(leaf));
+
+    if (typeof leaf !== "number" && index < 0) {
+      throw new RangeError(
+        `Merkle leaf ${Buffer.from(leaf).toString("hex")} does not exist.`,
+      );
+    }
+
+    this.checkIndex(index);
+    return index;
+  }
+
+  /**
+   * Computes the *layers* of a merkle tree, i.e. the leaves followed by
+   * the hashes of every level up to the merkle root. With prefixes or
+   * tags, the leaves are hashed first.
    * <br /><br />
-   * This method uses the {@link hashFunction} hash function.
+   * This method uses the {@link hashFunction} hash function and stores
+   * the result in {@link layers}.
    *
    * @access protected
-   * @returns {Uint8Array}  The computed merkle root hash.
+   * @returns {Uint8Array[][]}  The layers, from the leaves to the root.
    */
-  protected computeMerkleRoot(): Uint8Array {
-    // merkle trees need an **even** number of hashes,
-    // if it's not the case we clone the last hash.
-    if (this.hashes.length % 2 !== 0) {
-      this.hashes.push(this.hashes[this.hashes.length - 1]);
+  protected computeLayers(): Uint8Array[][] {
+    this.layers = [
+      this.hashes.map((h) =>
+        MerkleTree.hashLeaf(h, this.hashFunction, this.options),
+      ),
+    ];
+
+    for (let level = 0; this.layers[level].length > 1; level++) {
+      const parents: Uint8Array[] = [];
+      for (let i = 0; i < this.layers[level].length; i += 2) {
+        parents.push(this.computeParent(level, i >> 1));
+      }
+
+      this.layers.push(parents);
     }
 
-    // iterate through hashes until there is only one left
-    const hashes: Uint8Array[] = this.hashes.slice();
-    while (hashes.length > 1) {
-      // moving 2-by-2 and concatenating hashes to form
-      // a "parent" node using a hashing algorithm of choice
-      for (let i = hashes.length; i > 1; i -= 2) {
-        const nodeHash = Buffer.concat([hashes[i - 2], hashes[i - 1]]);
-        hashes[i - 2] = this.hashFunction(nodeHash);
-        hashes.pop();
+    return this.layers;
+  }
+
+  /**
+   * Recomputes the hashes of the path from the leaf at {@link index} up
+   * to the merkle root, i.e. one hash per level, and adds a level if the
+   * root layer contains more than one hash.
+   *
+   * @access protected
+   * @param   {number}  index   The index of the leaf.
+   * @returns {Uint8Array}  The updated merkle root hash.
+   */
+  protected updatePath(index: number): Uint8Array {
+    for (let level = 0; this.layers[level].length > 1; level++) {
+      if (level + 1 === this.layers.length) {
+        this.layers.push([]);
       }
+
+      index >>= 1;
+      this.layers[level + 1][index] = this.computeParent(level, index);
+    }
+
+    return (this.merkleRoot = this.getRoot());
+  }
+
+  /**
+   * Computes the parent node at {@link index} of the layer above the
+   * {@link level}, i.e. the hash of a pair of nodes of the level.
+   * <br /><br />
+   * If the number of hashes of a level is not *even*, the last hash of
+   * the level is paired with itself (`duplicate`), paired with the hash
+   * of an empty subtree (`pad`) or promoted to the next level (`promote`
+   * and `sorted`).
+   *
+   * @access protected
+   * @param   {number}  level   The level of the child nodes, 0 for leaves.
+   * @param   {number}  index   The index of the parent node.
+   * @returns {Uint8Array}  The hash of the parent node.
+   */
+  protected computeParent(level: number, index: number): Uint8Array {
+    const left = this.layers[level][2 * index];
+    const right = this.getSibling(level, 2 * index);
+    return right === undefined ? left : this.hashPair(left, right);
+  }
+
+  /**
+   * Returns the sibling of the node at {@link index} of a {@link level},
+   * or `undefined` if the node is unpaired and promoted to the next level.
+   *
+   * @access protected
+   * @param   {number}  level   The level of the node, 0 for leaves.
+   * @param   {number}  index   The index of the node.
+   * @returns {Uint8Array | undefined}  The sibling hash, if any.
+   */
+  protected getSibling(level: number, index: number): Uint8Array | undefined {
+    const layer = this.layers[level];
+    const sibling = index ^ 1;
+    if (sibling < layer.length) {
+      return layer[sibling];
+    } else if (this.strategy === "duplicate") {
+      return layer[index];
+    } else if (this.strategy === "pad") {
+      return this.getZeroHash(level);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the hash of an *empty subtree* of a {@link level}, i.e. a
+   * zeroed {@link hashSize}-sized hash for leaves and the hash of a pair
+   * of empty subtrees of the level below otherwise.
+   *
+   * @access protected
+   * @param   {number}  level   The level of the subtree, 0 for leaves.
+   * @returns {Uint8Array}  The hash of the empty subtree.
+   */
+  protected getZeroHash(level: number): Uint8Array {
+    if (!this.zeroHashes.length) {
+      this.zeroHashes.push(new Uint8Array(this.hashSize));
+    }
+
+    while (this.zeroHashes.length <= level) {
+      const zero = this.zeroHashes[this.zeroHashes.length - 1];
+      this.zeroHashes.push(this.hashPair(zero, zero));
+    }
+
+    return this.zeroHashes[level];
+  }
+
+  /**
+   * Computes the hash of a parent node given its' {@link left} and
+   * {@link right} child nodes, using the options of the tree.
+   *
+   * @access protected
+   * @param   {Uint8Array}  left    The hash of the left child node.
+   * @param   {Uint8Array}  right   The hash of the right child node.
+   * @returns {Uint8Array}  The hash of the parent node.
+   */
+  protected hashPair(left: Uint8Array, right: Uint8Array): Uint8Array {
+    return MerkleTree.hashNode(left, right, this.hashFunction, this.options);
+  }
+
+  /**
+   * Computes the hash of a {@link leaf} given the {@link options} of a
+   * tree, i.e. the hash of the leaf prefixed with `0x00` (RFC 6962), the
+   * tagged hash of the leaf, or the leaf itself otherwise.
+   *
+   * @static
+   * @access protected
+   * @param   {Uint8Array}          leaf            The leaf.
+   * @param   {HashFunction}        hashFunction    The hash function of the tree.
+   * @param   {MerkleTreeOptions}   options         The options of the tree.
+   * @returns {Uint8Array}  The hash of the leaf.
+   */
+  protected static hashLeaf(
+    leaf: Uint8Array,
+    hashFunction: HashFunction,
+    options: MerkleTreeOptions,
+  ): Uint8Array {
+    if (options.tags !== undefined) {
+      return MerkleTree.hashTagged(options.tags.leaf, leaf, hashFunction);
+    } else if (options.prefixes) {
+      return hashFunction(Buffer.concat([Buffer.from([0x00]), leaf]));
+    }
+
+    return leaf;
+  }
+
+  /**
+   * Computes the hash of an inner node given its' {@link left} and
+   * {@link right} child nodes and the {@link options} of a tree, i.e.
+   * with a `0x01` prefix (RFC 6962) or as a tagged hash if enabled. The
+   * child nodes are sorted first with the `sorted` strategy.
+   *
+   * @static
+   * @access protected
+   * @param   {Uint8Array}          left            The hash of the left child node.
+   * @param   {Uint8Array}          right           The hash of the right child node.
+   * @param   {HashFunction}        hashFunction    The hash function of the tree.
+   * @param   {MerkleTreeOptions}   options         The options of the tree.
+   * @returns {Uint8Array}  The hash of the inner node.
+   */
+  protected static hashNode(
+    left: Uint8Array,
+    right: Uint8Array,
+    hashFunction: HashFunction,
+    options: MerkleTreeOptions,
+  ): Uint8Array {
+    if (options.strategy === "sorted" && Buffer.compare(left, right) > 0) {
+      [left, right] = [right, left];
+    }
+
+    if (options.tags !== undefined) {
+      return MerkleTree.hashTagged(
+        options.tags.node,
+        Buffer.concat([left, right]),
+        hashFunction,
+      );
+    } else if (options.prefixes) {
+      return hashFunction(Buffer.concat([Buffer.from([0x01]), left, right]));
     }
 
-    return hashes[0];
+    return hashFunction(Buffer.concat([left, right]));
+  }
+
+  /**
+   * Computes a BIP340-style *tagged hash* of {@link data}, i.e. the hash
+   * of the data prefixed twice with the SHA-256 hash of the {@link tag}.
+   *
+   * @static
+   * @access protected
+   * @param   {string}        tag             The tag, e.g. "TapLeaf".
+   * @param   {Uint8Array}    data            The data to hash.
+   * @param   {HashFunction}  hashFunction    The hash function of the tree.
+   * @returns {Uint8Array}  The tagged hash of the data.
+   */
+  protected static hashTagged(
+    tag: string,
+    data: Uint8Array,
+    hashFunction: HashFunction,
+  ): Uint8Array {
+    const tagHash = Hashes.sha256(Buffer.from(tag, "utf8"));
+    return hashFunction(Buffer.concat([tagHash, tagHash, data]));
   }
 }
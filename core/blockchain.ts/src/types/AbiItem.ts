@@ -0,0 +1,61 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @interface AbiParameter
+ * @description This interface describes an input or output parameter
+ * of a contract ABI, as found in the JSON ABI that is produced by the
+ * Solidity compiler.
+ * <br /><br />
+ * The {@link components} field is required for parameters of type
+ * `tuple` (and arrays thereof), and the {@link indexed} field is only
+ * used for the inputs of events.
+ * <br /><br />
+ * @example Using the `AbiParameter` interface
+ * ```ts
+ * const param: AbiParameter = { name: "amount", type: "uint256" };
+ * ```
+ */
+export interface AbiParameter {
+  name?: string;
+  type: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+  internalType?: string;
+}
+
+/**
+ * @interface AbiItem
+ * @description This interface describes an entry of a JSON ABI, i.e.
+ * a function, an event, an error, the constructor, or the fallback
+ * and receive functions of a contract.
+ * <br /><br />
+ * @example Using the `AbiItem` interface
+ * ```ts
+ * const transfer: AbiItem = {
+ *   type: "function",
+ *   name: "transfer",
+ *   inputs: [
+ *     { name: "to", type: "address" },
+ *     { name: "amount", type: "uint256" },
+ *   ],
+ *   outputs: [{ name: "", type: "bool" }],
+ * };
+ * ```
+ */
+export interface AbiItem {
+  type: "function" | "event" | "error" | "constructor" | "fallback" | "receive";
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  anonymous?: boolean;
+  stateMutability?: "pure" | "view" | "nonpayable" | "payable";
+}
@@ -0,0 +1,51 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * This type describes the checksum *variants* of the Bech32 encoding,
+ * i.e. `bech32` (BIP173) and `bech32m` (BIP350).
+ */
+export type Bech32Variant = "bech32" | "bech32m";
+
+/**
+ * @interface Bech32Result
+ * @description This interface describes a decoded Bech32 string, i.e.
+ * its' human-readable part (HRP), its' data as 5-bit words and the
+ * checksum variant that was detected.
+ * <br /><br />
+ * @example Using the `Bech32Result` interface
+ * ```ts
+ * const { hrp, words, variant } = Bech32.decode("a1lqfn3a");
+ * // hrp: "a", words: [], variant: "bech32m"
+ * ```
+ */
+export interface Bech32Result {
+  hrp: string;
+  words: Uint8Array;
+  variant: Bech32Variant;
+}
+
+/**
+ * @interface SegwitAddress
+ * @description This interface describes a decoded *segregated witness*
+ * address, i.e. its' witness version and its' witness program, e.g. the
+ * HASH160 of a public key (P2WPKH, version 0) or a tweaked public key
+ * (P2TR, version 1).
+ * <br /><br />
+ * @example Using the `SegwitAddress` interface
+ * ```ts
+ * const { version, program } = Bech32.decodeSegwit("bc", address);
+ * ```
+ */
+export interface SegwitAddress {
+  version: number;
+  program: Uint8Array;
+}
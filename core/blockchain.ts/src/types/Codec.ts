@@ -0,0 +1,130 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import type { Reader } from "../buffer/Reader";
+import type { Writer } from "../buffer/Writer";
+
+/**
+ * @interface Codec
+ * @description This interface defines the *requirements* for objects
+ * that encode values of type `T` with a {@link Writer} and decode them
+ * again with a {@link Reader}.
+ * <br /><br />
+ * Codecs are the building blocks of typed schemas, e.g. as created with
+ * {@link Template.struct}, and the values that they encode and decode are
+ * *plain* JavaScript values (numbers, bigints, buffers, objects).
+ * <br /><br />
+ * Codecs that are used as fields of a {@link Struct} receive the *parent*
+ * object as a last argument, i.e. the object being encoded, or the fields
+ * that have been decoded so far, such that the layout of a field can
+ * depend on previous fields (e.g. with {@link Codecs.when}).
+ * <br /><br />
+ * @example Using the `Codec` interface
+ * ```ts
+ * const bool: Codec<boolean> = {
+ *   encode: (writer, value) => writer.writeUint8(value ? 1 : 0),
+ *   decode: (reader) => reader.readUint8() !== 0,
+ * };
+ * ```
+ */
+export interface Codec<T> {
+  encode(writer: Writer, value: T, parent?: Record<string, any>): void;
+  decode(reader: Reader, parent?: Record<string, any>): T;
+}
+
+/**
+ * @type CodecValue
+ * @description This type *infers* the type of values that are encoded
+ * and decoded by a {@link Codec}.
+ * <br /><br />
+ * @example Using the `CodecValue` type
+ * ```ts
+ * type Version = CodecValue<typeof u32>; // number
+ * ```
+ */
+export type CodecValue<C> = C extends Codec<infer T> ? T : never;
+
+/**
+ * @type StructSchema
+ * @description This type defines a *named* schema of codecs, where the
+ * order of the keys determines the order of the fields in the buffer.
+ */
+export type StructSchema = Record<string, Codec<any>>;
+
+/**
+ * @type OptionalKeys
+ * @description This type selects the keys of a {@link StructSchema} of
+ * which the codec may produce `undefined`, e.g. optional fields.
+ */
+export type OptionalKeys<S extends StructSchema> = {
+  [K in keyof S]: undefined extends CodecValue<S[K]> ? K : never;
+}[keyof S];
+
+/**
+ * @type StructValue
+ * @description This type *infers* the type of objects that are encoded
+ * and decoded with a {@link StructSchema}. Fields of which the codec may
+ * produce `undefined` are optional.
+ * <br /><br />
+ * @example Using the `StructValue` type
+ * ```ts
+ * type Header = StructValue<{ version: typeof u32, prevHash: Codec<Uint8Array> }>;
+ * // { version: number, prevHash: Uint8Array }
+ * ```
+ */
+export type StructValue<S extends StructSchema> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: CodecValue<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: CodecValue<S[K]>;
+};
+
+/**
+ * @type UnionValue
+ * @description This type *infers* the type of values that are encoded
+ * and decoded with a discriminated union of codecs, i.e. objects with
+ * a `kind` (the tag) and the `value` of the corresponding variant.
+ * <br /><br />
+ * @example Using the `UnionValue` type
+ * ```ts
+ * type Payload = UnionValue<{ 0: typeof u32, 1: typeof varbytes }>;
+ * // { kind: 0, value: number } | { kind: 1, value: Uint8Array }
+ * ```
+ */
+export type UnionValue<V extends Record<number, Codec<any>>> = {
+  [K in keyof V]: { kind: K; value: CodecValue<V[K]> };
+}[keyof V];
+
+/**
+ * @type TupleValue
+ * @description This type *infers* the type of tuples that are encoded
+ * and decoded with a list of codecs, in order.
+ * <br /><br />
+ * @example Using the `TupleValue` type
+ * ```ts
+ * type Pair = TupleValue<[typeof u32, typeof bool]>; // [number, boolean]
+ * ```
+ */
+export type TupleValue<C extends Codec<any>[]> = {
+  [K in keyof C]: CodecValue<C[K]>;
+};
+
+/**
+ * @type ResultValue
+ * @description This type defines the values of *result* codecs, i.e.
+ * either a successful `ok` value or an `err` value.
+ * <br /><br />
+ * @example Using the `ResultValue` type
+ * ```ts
+ * const success: ResultValue<number, string> = { ok: 42 };
+ * const failure: ResultValue<number, string> = { err: "reason" };
+ * ```
+ */
+export type ResultValue<T, E> = { ok: T } | { err: E };
@@ -0,0 +1,64 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import type { Parameters } from "./Parameters";
+
+/**
+ * @interface EventLog
+ * @description This interface describes a log entry as emitted by the
+ * `LOG0` to `LOG4` instructions of the EVM, e.g. as found in the `logs`
+ * of a transaction receipt. Topics and data are accepted as bytes or
+ * as hexadecimal strings prefixed with `0x`.
+ * <br /><br />
+ * @example Using the `EventLog` interface
+ * ```ts
+ * const log: EventLog = {
+ *   address: "0xdac17f958d2ee523a2206206994597c13d831ec7",
+ *   topics: [
+ *     "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+ *     "0x0000000000000000000000005aaeb6053f3e94c9b9a09f33669435e7ef1beaed",
+ *     "0x000000000000000000000000fb6916095ca1df60bb79ce92ce3ea74c37c5d359",
+ *   ],
+ *   data: "0x00000000000000000000000000000000000000000000000000000000000003e8",
+ * };
+ * ```
+ */
+export interface EventLog {
+  address?: string;
+  topics: (Uint8Array | string)[];
+  data: Uint8Array | string;
+}
+
+/**
+ * @interface DecodedEvent
+ * @description This interface describes an {@link EventLog} that has
+ * been decoded with a contract ABI, i.e. the name of the event and its'
+ * arguments keyed by name. Indexed arguments of *dynamic* types, e.g.
+ * `string`, `bytes`, arrays and tuples, are stored in topics as their
+ * Keccak-256 hash and are thereby decoded as 32-byte hashes.
+ * <br /><br />
+ * @example Using the `DecodedEvent` interface
+ * ```ts
+ * const { name, args } = abi.decodeEventLog(log);
+ * ```
+ */
+export interface DecodedEvent<T extends Parameters = Record<string, any>> {
+  name: string;
+  args: T;
+  address?: string;
+}
+
+/**
+ * This type describes the topic filter of an `eth_getLogs` query, i.e.
+ * one entry per topic position that is either a hexadecimal topic, a
+ * list of alternative topics, or `null` to match any topic.
+ */
+export type TopicFilter = (string | string[] | null)[];
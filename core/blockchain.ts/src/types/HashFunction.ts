@@ -0,0 +1,22 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * This type describes a *hash function*, i.e. a function that maps data
+ * of any length to a fixed-size hash, e.g. {@link Hashes.sha256d}.
+ */
+export type HashFunction = (data: Uint8Array) => Uint8Array;
+
+/**
+ * This type describes a hash function, or the *name* of a hash function
+ * of the registry of {@link Hashes}, e.g. `"sha256d"` or `"keccak256"`.
+ */
+export type HashAlgorithm = HashFunction | string;
@@ -0,0 +1,56 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @interface MerkleProofNode
+ * @description This interface describes a *sibling* hash of a merkle
+ * inclusion proof, i.e. the hash that is concatenated with the current
+ * hash to compute its' parent, and its' position (`left` or `right`)
+ * relative to the current hash.
+ * <br /><br />
+ * @example Using the `MerkleProofNode` interface
+ * ```ts
+ * const node: MerkleProofNode = { hash: sibling, position: "right" };
+ * ```
+ */
+export interface MerkleProofNode {
+  hash: Uint8Array;
+  position: "left" | "right";
+}
+
+/**
+ * This type describes a merkle *inclusion proof*, i.e. the sibling hashes
+ * from a leaf up to the merkle root, as produced by
+ * {@link MerkleTree.getProof}.
+ */
+export type MerkleProof = MerkleProofNode[];
+
+/**
+ * @interface MerkleMultiProof
+ * @description This interface describes a merkle *multiproof*, i.e. a
+ * proof of the inclusion of several leaves that contains the minimal
+ * set of *helper* hashes needed to compute the merkle root, as produced
+ * by {@link MerkleTree.getMultiProof}.
+ * <br /><br />
+ * The indices of the leaves are sorted in ascending order and the helper
+ * hashes are sorted by level, from the leaves to the root, and by index.
+ * The number of leaves of the tree determines which nodes are unpaired.
+ * <br /><br />
+ * @example Using the `MerkleMultiProof` interface
+ * ```ts
+ * const proof: MerkleMultiProof = { indices: [0, 3], leafCount: 4, hashes: [h1, h2] };
+ * ```
+ */
+export interface MerkleMultiProof {
+  indices: number[];
+  leafCount: number;
+  hashes: Uint8Array[];
+}
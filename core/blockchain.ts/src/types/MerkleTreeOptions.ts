@@ -0,0 +1,63 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * This type describes the *strategies* that determine how the hashes of
+ * a merkle tree level are paired:
+ * | Strategy | Description |
+ * | --- | --- |
+ * | `duplicate` | The last hash of odd levels is paired with itself (Bitcoin). |
+ * | `promote` | The last hash of odd levels is promoted to the next level (RFC 6962, Certificate Transparency). |
+ * | `sorted` | Pairs are sorted before hashing and unpaired hashes are promoted (OpenZeppelin `MerkleProof`). |
+ * | `pad` | Leaves are padded with zero hashes to a power of two (SSZ). |
+ */
+export type MerkleStrategy = "duplicate" | "promote" | "sorted" | "pad";
+
+/**
+ * @interface MerkleTreeTags
+ * @description This interface describes the tags of BIP340-style *tagged
+ * hashes* for leaves and inner nodes of a merkle tree, e.g. `TapLeaf`
+ * and `TapBranch` in BIP341.
+ * <br /><br />
+ * @example Using the `MerkleTreeTags` interface
+ * ```ts
+ * const tags: MerkleTreeTags = { leaf: "TapLeaf", node: "TapBranch" };
+ * ```
+ */
+export interface MerkleTreeTags {
+  leaf: string;
+  node: string;
+}
+
+/**
+ * @interface MerkleTreeOptions
+ * @description This interface describes the options of a merkle tree:
+ * | Option | Description |
+ * | --- | --- |
+ * | `strategy` | The {@link MerkleStrategy} that determines how hashes are paired, defaults to `duplicate` (Bitcoin). |
+ * | `prefixes` | Whether leaves and inner nodes are hashed with a `0x00` and `0x01` prefix respectively (RFC 6962), defaults to `false`. |
+ * | `tags` | The {@link MerkleTreeTags} of BIP340-style tagged hashes of leaves and inner nodes, cannot be combined with `prefixes`. |
+ * <br /><br />
+ * With either `prefixes` or `tags`, leaves and inner nodes are hashed
+ * differently, which prevents second-preimage attacks where an inner
+ * node is presented as a leaf.
+ * <br /><br />
+ * @example Using the `MerkleTreeOptions` interface
+ * ```ts
+ * const tree = new MerkleTree(leaves, "keccak256", 32, { strategy: "sorted" });
+ * const ct = new MerkleTree(entries, "sha256", 32, { strategy: "promote", prefixes: true });
+ * ```
+ */
+export interface MerkleTreeOptions {
+  strategy?: MerkleStrategy;
+  prefixes?: boolean;
+  tags?: MerkleTreeTags;
+}
@@ -0,0 +1,31 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+
+/**
+ * @type RlpInput
+ * @description This type defines the values that can be encoded with
+ * {@link Rlp.encode}, i.e. byte strings, integers, strings (hexadecimal
+ * if prefixed with `0x`, UTF-8 otherwise) and nested lists thereof.
+ * <br /><br />
+ * @example Using the `RlpInput` type
+ * ```ts
+ * const input: RlpInput = ["0x0102", 1024, 1n, "dog", [new Uint8Array()]];
+ * ```
+ */
+export type RlpInput =
+  Uint8Array | number | bigint | string | null | undefined | RlpInput[];
+
+/**
+ * @type RlpValue
+ * @description This type defines the values that are decoded with
+ * {@link Rlp.decode}, i.e. byte strings and nested lists thereof.
+ */
+export type RlpValue = Uint8Array | RlpValue[];
@@ -12,14 +12,42 @@
 /**
  * @interface TemplateField
  * @description This interfaces serves to map binary data to one
- * of: buffer, uint8, uint16, uint32 or uint64 data types.
+ * of: buffer, uint8 to uint256, int8 to int256, varint or varbytes
+ * data types.
+ * <br /><br />
+ * Note that for integer types, the {@link data} field contains the
+ * *big-endian* bytes of the integer value (in two's complement notation
+ * for signed integers), whereas for the `varbytes`
+ * type, it contains the bytes that will be prefixed with their length.
+ * <br /><br />
+ * Integer fields are written using a *little-endian* byte order, unless
+ * the optional {@link littleEndian} field is set to `false`.
  * <br /><br />
  * @example Using the `TemplateField` interface
  * ```ts
  * const fst_field = { type: "uint8", data: new Uint8Array([1]) };
  * const snd_field = { type: "uint8", data: new Uint8Array([2]) };
+ * const trd_field = { type: "varint", data: new Uint8Array([1, 0]) }; // 256
+ * const be_field = { type: "uint16", data: new Uint8Array([1, 0]), littleEndian: false };
+ * ```
  */
 export interface TemplateField {
-  type: "buffer" | "uint8" | "uint16" | "uint32" | "uint64";
+  type:
+    | "buffer"
+    | "uint8"
+    | "uint16"
+    | "uint32"
+    | "uint64"
+    | "uint128"
+    | "uint256"
+    | "int8"
+    | "int16"
+    | "int32"
+    | "int64"
+    | "int128"
+    | "int256"
+    | "varint"
+    | "varbytes";
   data: Uint8Array;
+  littleEndian?: boolean;
 }
@@ -0,0 +1,38 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  API
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// internal dependencies
+import type { TemplateField } from "./TemplateField";
+
+/**
+ * @interface TemplateFieldSchema
+ * @description This interface describes the *layout* of a
+ * {@link TemplateField}, i.e. its' type and byte order, without
+ * its' data. Schemas are used to read fields from a buffer with
+ * {@link Template.fromBuffer}.
+ * <br /><br />
+ * Note that the {@link length} field is *required* for fields of
+ * type `buffer` because their size cannot be determined from the
+ * type, and is ignored for other types.
+ * <br /><br />
+ * @example Using the `TemplateFieldSchema` interface
+ * ```ts
+ * const schema: TemplateFieldSchema[] = [
+ *   { type: "uint32" }, // version
+ *   { type: "buffer", length: 32 }, // previous block hash
+ *   { type: "varbytes" }, // script
+ * ];
+ * ```
+ */
+export interface TemplateFieldSchema {
+  type: TemplateField["type"];
+  length?: number;
+  littleEndian?: boolean;
+}
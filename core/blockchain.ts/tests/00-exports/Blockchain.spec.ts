@@ -22,8 +22,37 @@ describe("Blockchain", () => {
   });
 
   it("should export buffer classes", () => {
+    expect(Blockchain_ts.BitReader).to.not.be.undefined;
+    expect(Blockchain_ts.BitWriter).to.not.be.undefined;
+    expect(Blockchain_ts.Codecs).to.not.be.undefined;
     expect(Blockchain_ts.Reader).to.not.be.undefined;
+    expect(Blockchain_ts.SizeWriter).to.not.be.undefined;
+    expect(Blockchain_ts.StreamReader).to.not.be.undefined;
+    expect(Blockchain_ts.Struct).to.not.be.undefined;
     expect(Blockchain_ts.Template).to.not.be.undefined;
     expect(Blockchain_ts.Writer).to.not.be.undefined;
   });
+
+  it("should export encoding classes", () => {
+    expect(Blockchain_ts.Abi).to.not.be.undefined;
+    expect(Blockchain_ts.Base58).to.not.be.undefined;
+    expect(Blockchain_ts.Bech32).to.not.be.undefined;
+    expect(Blockchain_ts.Borsh).to.not.be.undefined;
+    expect(Blockchain_ts.Rlp).to.not.be.undefined;
+    expect(Blockchain_ts.Scale).to.not.be.undefined;
+  });
+
+  it("should export hash functions", () => {
+    expect(Blockchain_ts.Hashes).to.not.be.undefined;
+    expect(Blockchain_ts.Hashes.sha256d).to.not.be.undefined;
+  });
+
+  it("should export error classes", () => {
+    expect(Blockchain_ts.BufferOverflowError).to.not.be.undefined;
+    expect(Blockchain_ts.BufferUnderflowError).to.not.be.undefined;
+    expect(Blockchain_ts.ChecksumError).to.not.be.undefined;
+    expect(Blockchain_ts.IntegerOverflowError).to.not.be.undefined;
+    expect(Blockchain_ts.InvalidEncodingError).to.not.be.undefined;
+    expect(Blockchain_ts.NonCanonicalEncodingError).to.not.be.undefined;
+  });
 });
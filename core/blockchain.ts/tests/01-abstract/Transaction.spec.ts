@@ -15,6 +15,8 @@ import sinon from "sinon";
 // internal dependencies
 import { Transaction } from "../../src/abstract/Transaction";
 import { Reader } from "../../src/buffer/Reader";
+import { Abi } from "../../src/encoding/Abi";
+import type { EventLog } from "../../src/types/EventLog";
 
 // mock a concrete implementation of a Transaction
 class MockTransaction extends Transaction {
@@ -85,4 +87,46 @@ describe("Transaction", () => {
       expect(fakeToBuffer.callCount).to.be.equal(1);
     });
   });
+
+  describe("decodeLogs()", () => {
+    const abi = new Abi([
+      {
+        type: "event",
+        name: "Deposit",
+        inputs: [
+          { name: "owner", type: "address", indexed: true },
+          { name: "amount", type: "uint256" },
+        ],
+      },
+    ]);
+
+    const owner = "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed";
+    const log: EventLog = {
+      topics: [
+        Abi.getEventTopic("Deposit(address,uint256)"),
+        Abi.encode(["address"], [owner]),
+      ],
+      data: Abi.encode(["uint256"], [42]),
+    };
+
+    it("should return no logs by default", () => {
+      const tx_0 = new MockTransaction();
+      expect(tx_0.getLogs()).to.deep.equal([]);
+      expect(tx_0.decodeLogs(abi)).to.deep.equal([]);
+    });
+
+    it("should decode logs of child classes", () => {
+      const tx_0 = new MockTransaction();
+      sinon.replace(
+        tx_0,
+        "getLogs",
+        sinon.fake(() => [log, { topics: [], data: "0x" }]),
+      );
+
+      const events = tx_0.decodeLogs(abi);
+      expect(events).to.have.length(1);
+      expect(events[0].name).to.equal("Deposit");
+      expect(events[0].args).to.deep.equal({ owner, amount: 42n });
+    });
+  });
 });
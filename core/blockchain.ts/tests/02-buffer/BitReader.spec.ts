@@ -0,0 +1,85 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { BitReader } from "../../src/buffer/BitReader";
+import { BufferUnderflowError } from "../../src/errors/BufferUnderflowError";
+
+describe("BitReader", () => {
+  describe("constructor()", () => {
+    it("should compute size in bits and default to MSB-first", () => {
+      const reader = new BitReader(Buffer.from("0102", "hex"));
+
+      expect(reader.size).to.be.equal(16);
+      expect(reader.offset).to.be.equal(0);
+      expect(reader.msbFirst).to.be.true;
+    });
+  });
+
+  describe("readBits()", () => {
+    it("should read bits MSB-first", () => {
+      const reader = new BitReader(Buffer.from("b4ff", "hex")); // 10110100
+
+      expect(reader.readBits(3)).to.be.equal(5n); // 101
+      expect(reader.readBit()).to.be.equal(1);
+      expect(reader.readBits(8)).to.be.equal(0x4fn); // 0100 1111
+      expect(reader.offset).to.be.equal(12);
+    });
+
+    it("should read bits LSB-first", () => {
+      const reader = new BitReader(Buffer.from("b4ff", "hex"), false);
+
+      expect(reader.readBits(3)).to.be.equal(4n); // 100
+      expect(reader.readBit()).to.be.equal(0);
+      expect(reader.readBits(8)).to.be.equal(0xfbn); // 1111 1011
+    });
+
+    it("should read up to 64 bits across bytes", () => {
+      const reader_0 = new BitReader(Buffer.from("0123456789abcdef", "hex")),
+        reader_1 = new BitReader(Buffer.from("0123456789abcdef", "hex"), false);
+
+      expect(reader_0.readBits(64)).to.be.equal(0x0123456789abcdefn);
+      expect(reader_1.readBits(64)).to.be.equal(0xefcdab8967452301n);
+    });
+
+    it("should throw RangeError given invalid number of bits", () => {
+      const reader = new BitReader(Buffer.alloc(16));
+
+      expect(() => reader.readBits(65)).to.throw(RangeError);
+      expect(() => reader.readBits(-1)).to.throw(RangeError);
+    });
+
+    it("should throw BufferUnderflowError given too few remaining bits", () => {
+      const reader = new BitReader(Buffer.from("ff", "hex"));
+      reader.readBits(5);
+
+      expect(() => reader.readBits(4)).to.throw(BufferUnderflowError);
+      expect(reader.remaining()).to.be.equal(3);
+    });
+  });
+
+  describe("alignToByte()", () => {
+    it("should move the cursor to the next byte boundary", () => {
+      const reader = new BitReader(Buffer.from("ff01", "hex"));
+      reader.readBits(3);
+
+      expect(reader.isAligned()).to.be.false;
+      expect(reader.alignToByte().offset).to.be.equal(8);
+      expect(reader.isAligned()).to.be.true;
+      expect(reader.byteOffset()).to.be.equal(1);
+      expect(reader.alignToByte().offset).to.be.equal(8);
+      expect(reader.readBits(8)).to.be.equal(1n);
+      expect(reader.isEOF()).to.be.true;
+    });
+  });
+});
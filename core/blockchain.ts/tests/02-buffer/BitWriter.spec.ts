@@ -0,0 +1,92 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { BitReader } from "../../src/buffer/BitReader";
+import { BitWriter } from "../../src/buffer/BitWriter";
+import { IntegerOverflowError } from "../../src/errors/IntegerOverflowError";
+
+describe("BitWriter", () => {
+  describe("writeBits()", () => {
+    it("should write bits MSB-first", () => {
+      const data = new BitWriter().writeBits(5, 3).writeBit(1).finish();
+
+      expect(data.toString("hex")).to.be.equal("b0");
+    });
+
+    it("should write bits LSB-first", () => {
+      const data = new BitWriter(false).writeBits(4, 3).writeBit(0).finish();
+
+      expect(data.toString("hex")).to.be.equal("04");
+    });
+
+    it("should write up to 64 bits across bytes", () => {
+      const writer_0 = new BitWriter().writeBits(0x0123456789abcdefn, 64),
+        writer_1 = new BitWriter(false).writeBits(0xefcdab8967452301n, 64);
+
+      expect(writer_0.finish().toString("hex")).to.be.equal("0123456789abcdef");
+      expect(writer_1.finish().toString("hex")).to.be.equal("0123456789abcdef");
+    });
+
+    it("should grow the buffer when full", () => {
+      const writer = new BitWriter();
+      for (let i = 0; i < 300; i++) {
+        writer.writeBits(i & 0xff, 8);
+      }
+
+      expect(writer.finish().length).to.be.equal(300);
+      expect(writer.finish()[299]).to.be.equal(299 & 0xff);
+    });
+
+    it("should throw given invalid values", () => {
+      const writer = new BitWriter();
+
+      expect(() => writer.writeBits(8, 3)).to.throw(IntegerOverflowError);
+      expect(() => writer.writeBits(-1, 3)).to.throw(RangeError);
+      expect(() => writer.writeBits(0, 65)).to.throw(RangeError);
+      expect(writer.offset).to.be.equal(0);
+    });
+  });
+
+  describe("alignToByte()", () => {
+    it("should pad with zero bits to the next byte boundary", () => {
+      const writer = new BitWriter().writeBits(7, 3).alignToByte();
+
+      expect(writer.isAligned()).to.be.true;
+      expect(writer.offset).to.be.equal(8);
+      expect(writer.writeBits(1, 8).finish().toString("hex")).to.be.equal(
+        "e001",
+      );
+    });
+  });
+
+  describe("round-trip", () => {
+    [true, false].forEach((msbFirst) => {
+      it(`should be read back by BitReader (msbFirst=${msbFirst})`, () => {
+        const values: [bigint, number][] = [
+          [1n, 1],
+          [5n, 3],
+          [0x1234n, 13],
+          [0xfedcba9876543210n, 64],
+          [0n, 7],
+        ];
+
+        const writer = new BitWriter(msbFirst);
+        values.forEach(([v, n]) => writer.writeBits(v, n));
+
+        const reader = new BitReader(writer.finish(), msbFirst);
+        values.forEach(([v, n]) => expect(reader.readBits(n)).to.be.equal(v));
+      });
+    });
+  });
+});
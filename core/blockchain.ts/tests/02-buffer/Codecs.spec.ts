@@ -0,0 +1,207 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { Codecs } from "../../src/buffer/Codecs";
+import { Reader } from "../../src/buffer/Reader";
+import { Template } from "../../src/buffer/Template";
+import { Writer } from "../../src/buffer/Writer";
+import { BufferUnderflowError } from "../../src/errors/BufferUnderflowError";
+import { InvalidEncodingError } from "../../src/errors/InvalidEncodingError";
+import type { Codec } from "../../src/types/Codec";
+
+const {
+  array,
+  bool,
+  bytes,
+  flag,
+  i32,
+  optional,
+  u8,
+  u16,
+  u32,
+  u64,
+  union,
+  varbytes,
+  vector,
+  when,
+} = Codecs;
+
+// encodes a value with a codec and returns the hexadecimal bytes
+const encode = <T>(codec: Codec<T>, value: T): string =>
+  Buffer.from(
+    (() => {
+      const writer = Writer.createGrowable();
+      codec.encode(writer, value);
+      return writer.finish();
+    })(),
+  ).toString("hex");
+
+// decodes a value with a codec from hexadecimal bytes
+const decode = <T>(codec: Codec<T>, hex: string): T =>
+  codec.decode(new Reader(Buffer.from(hex, "hex")));
+
+describe("Codecs", () => {
+  describe("vector()", () => {
+    it("should prefix items with their count", () => {
+      expect(encode(vector(u16), [1, 2])).to.be.equal("0201000200");
+      expect(decode(vector(u16), "0201000200")).to.be.deep.equal([1, 2]);
+      expect(decode(vector(u16), "00")).to.be.deep.equal([]);
+    });
+  });
+
+  describe("vector() and array() limits", () => {
+    const empty: Codec<null> = {
+      encode: () => undefined,
+      decode: () => null,
+    };
+
+    it("should throw BufferUnderflowError given more items than bytes", () => {
+      expect(() => decode(vector(u8), "030102")).to.throw(BufferUnderflowError);
+      expect(() => decode(vector(empty), "feffffffff")).to.throw(
+        BufferUnderflowError,
+      );
+      expect(() =>
+        decode(
+          array(empty, () => 2),
+          "",
+        ),
+      ).to.throw(BufferUnderflowError);
+    });
+
+    it("should accept items without bytes up to a maximum length", () => {
+      expect(decode(vector(empty, 3), "03")).to.be.deep.equal([
+        null,
+        null,
+        null,
+      ]);
+      expect(() => decode(vector(empty, 3), "feffffffff")).to.throw(
+        InvalidEncodingError,
+      );
+      expect(() => decode(array(empty, 4, 3), "")).to.throw(
+        InvalidEncodingError,
+      );
+    });
+  });
+
+  describe("array()", () => {
+    it("should encode a fixed number of items without prefix", () => {
+      expect(encode(array(u8, 3), [1, 2, 3])).to.be.equal("010203");
+      expect(decode(array(u8, 3), "01020304")).to.be.deep.equal([1, 2, 3]);
+    });
+
+    it("should throw RangeError given wrong number of items", () => {
+      expect(() => encode(array(u8, 3), [1, 2])).to.throw(RangeError);
+    });
+  });
+
+  describe("optional()", () => {
+    it("should prefix values with a presence byte", () => {
+      expect(encode(optional(u16), 1)).to.be.equal("010100");
+      expect(encode(optional(u16), undefined)).to.be.equal("00");
+      expect(decode(optional(u16), "010100")).to.be.equal(1);
+      expect(decode(optional(u16), "00")).to.be.undefined;
+    });
+
+    it("should throw InvalidEncodingError given invalid presence bytes", () => {
+      expect(() => decode(optional(u16), "020100")).to.throw(
+        InvalidEncodingError,
+      );
+    });
+  });
+
+  describe("bool", () => {
+    it("should encode booleans as 0 or 1", () => {
+      expect(encode(bool, true)).to.be.equal("01");
+      expect(decode(bool, "00")).to.be.equal(false);
+      expect(decode(bool, "01")).to.be.equal(true);
+    });
+
+    it("should throw InvalidEncodingError given other bytes", () => {
+      expect(() => decode(bool, "02")).to.throw(InvalidEncodingError);
+    });
+  });
+
+  describe("when()", () => {
+    it("should read fields guarded by a condition on previous fields", () => {
+      // prepare
+      const Message = Template.struct({
+        hasChecksum: u8,
+        checksum: when((m) => m.hasChecksum === 1, u32),
+      });
+
+      // act & assert
+      expect(
+        Message.fromBuffer(Buffer.from("0104030201", "hex")),
+      ).to.be.deep.equal({ hasChecksum: 1, checksum: 0x01020304 });
+      expect(Message.fromBuffer(Buffer.from("00", "hex"))).to.be.deep.equal({
+        hasChecksum: 0,
+      });
+      expect(
+        Buffer.from(Message.toBuffer({ hasChecksum: 0 })).toString("hex"),
+      ).to.be.equal("00");
+    });
+  });
+
+  describe("flag()", () => {
+    it("should consume marker bytes only if present", () => {
+      const marker = flag(Buffer.from("0001", "hex"));
+      const reader = new Reader(Buffer.from("000102", "hex"));
+
+      expect(marker.decode(reader)).to.be.true;
+      expect(marker.decode(reader)).to.be.false;
+      expect(reader.offset).to.be.equal(2);
+      expect(encode(marker, true)).to.be.equal("0001");
+      expect(encode(marker, false)).to.be.equal("");
+    });
+  });
+
+  describe("union()", () => {
+    const Payload = union(u8, { 0: u64, 1: varbytes, 2: i32 });
+
+    it("should prefix variants with their tag", () => {
+      expect(encode(Payload, { kind: 0, value: 1n })).to.be.equal(
+        "00" + "0100000000000000",
+      );
+      expect(encode(Payload, { kind: 2, value: -1 })).to.be.equal(
+        "02" + "ffffffff",
+      );
+      expect(decode(Payload, "0102aabb")).to.be.deep.equal({
+        kind: 1,
+        value: Buffer.from("aabb", "hex"),
+      });
+    });
+
+    it("should throw RangeError given unknown tag when encoding", () => {
+      expect(() => encode(Payload, { kind: 3, value: 1n } as never)).to.throw(
+        RangeError,
+      );
+    });
+
+    it("should throw InvalidEncodingError given unknown tag when decoding", () => {
+      expect(() => decode(Payload, "03")).to.throw(
+        InvalidEncodingError,
+        "Union tag 3 at offset 0 is unknown.",
+      );
+    });
+  });
+
+  describe("bytes()", () => {
+    it("should read and write a fixed number of bytes", () => {
+      expect(decode(bytes(2), "aabbcc")).to.be.deep.equal(
+        Buffer.from("aabb", "hex"),
+      );
+      expect(() => encode(bytes(2), new Uint8Array(3))).to.throw(RangeError);
+    });
+  });
+});
@@ -13,6 +13,9 @@ import { expect } from "chai";
 
 // internal dependencies
 import { Reader } from "../../src/buffer/Reader";
+import { BufferUnderflowError } from "../../src/errors/BufferUnderflowError";
+import { IntegerOverflowError } from "../../src/errors/IntegerOverflowError";
+import { NonCanonicalEncodingError } from "../../src/errors/NonCanonicalEncodingError";
 
 describe("Reader", () => {
   describe("constructor()", () => {
@@ -31,6 +34,14 @@ describe("Reader", () => {
       expect(reader_1.offset).to.be.equal(1);
     });
 
+    it("should use little-endian byte order by default", () => {
+      const reader_0 = new Reader(Buffer.from("00", "hex")),
+        reader_1 = new Reader(Buffer.from("00", "hex"), 0, false);
+
+      expect(reader_0.littleEndian).to.be.true;
+      expect(reader_1.littleEndian).to.be.false;
+    });
+
     it("should use correct buffer size", () => {
       const reader_0 = new Reader(Buffer.from("00010203", "hex")),
         reader_1 = new Reader(Buffer.from("000102", "hex"));
@@ -257,4 +268,663 @@ describe("Reader", () => {
       expect(Buffer.from(byte_1).toString("hex")).to.be.equal("06");
     });
   });
+
+  describe("readVarInt()", () => {
+    it("should read one (1) byte for values below 0xFD", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("00FC", "hex"));
+
+      // act
+      const value_0 = reader.readVarInt();
+      const value_1 = reader.readVarInt();
+
+      // assert
+      expect(reader.offset).to.be.equal(2);
+      expect(value_0).to.be.equal(0);
+      expect(value_1).to.be.equal(252);
+    });
+
+    it("should read prefixed values of 16, 32 and 64 bits", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from("FDFD00" + "FE00000100" + "FF0000000001000000", "hex"),
+      );
+
+      // act
+      const value_16 = reader.readVarInt();
+      const value_32 = reader.readVarInt();
+      const value_64 = reader.readVarInt();
+
+      // assert
+      expect(reader.offset).to.be.equal(3 + 5 + 9);
+      expect(value_16).to.be.equal(253);
+      expect(value_32).to.be.equal(65_536);
+      expect(value_64).to.be.equal(4_294_967_296);
+    });
+
+    it("should reject non-canonical encodings", () => {
+      // prepare
+      const reader_16 = new Reader(Buffer.from("FDFC00", "hex")),
+        reader_32 = new Reader(Buffer.from("FEFFFF0000", "hex")),
+        reader_64 = new Reader(Buffer.from("FFFFFFFFFF00000000", "hex"));
+
+      // act & assert
+      expect(() => reader_16.readVarInt()).to.throw(NonCanonicalEncodingError);
+      expect(() => reader_32.readVarInt()).to.throw(NonCanonicalEncodingError);
+      expect(() => reader_64.readVarInt()).to.throw(NonCanonicalEncodingError);
+    });
+
+    it("should include the offset of non-canonical encodings", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("01FD0100", "hex"), 1);
+
+      // act
+      let error: NonCanonicalEncodingError | undefined;
+      try {
+        reader.readVarInt();
+      } catch (e) {
+        error = e as NonCanonicalEncodingError;
+      }
+
+      // assert
+      expect(error).to.not.be.undefined;
+      expect(error?.offset).to.be.equal(1);
+    });
+
+    it("should reject values bigger than Number.MAX_SAFE_INTEGER", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("FFFFFFFFFFFFFFFFFF", "hex"));
+
+      // act & assert
+      expect(() => reader.readVarInt()).to.throw(IntegerOverflowError);
+    });
+  });
+
+  describe("readBigVarInt()", () => {
+    it("should read values of up to 64 bits", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("01FFFFFFFFFFFFFFFFFF", "hex"));
+
+      // act
+      const value_8 = reader.readBigVarInt();
+      const value_64 = reader.readBigVarInt();
+
+      // assert
+      expect(reader.offset).to.be.equal(10);
+      expect(value_8).to.be.equal(1n); // bigint literal
+      expect(value_64).to.be.equal(18_446_744_073_709_551_615n);
+    });
+  });
+
+  describe("readVarBytes()", () => {
+    it("should read length-prefixed bytes", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("03010203" + "00" + "04", "hex"));
+
+      // act
+      const buffer_3 = reader.readVarBytes();
+      const buffer_0 = reader.readVarBytes();
+
+      // assert
+      expect(reader.offset).to.be.equal(5);
+      expect(Buffer.from(buffer_3).toString("hex")).to.be.equal("010203");
+      expect(buffer_0.byteLength).to.be.equal(0);
+    });
+  });
+
+  describe("readUleb128()", () => {
+    it("should read unsigned LEB128 integers", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from("00" + "7F" + "8001" + "E58E26", "hex"),
+      );
+
+      // act
+      const values = [
+        reader.readUleb128(),
+        reader.readUleb128(),
+        reader.readUleb128(),
+        reader.readUleb128(),
+      ];
+
+      // assert
+      expect(reader.offset).to.be.equal(1 + 1 + 2 + 3);
+      expect(values).to.be.deep.equal([0, 127, 128, 624_485]);
+    });
+
+    it("should reject over-long encodings", () => {
+      // prepare
+      const reader_0 = new Reader(Buffer.from("8000", "hex")),
+        reader_1 = new Reader(Buffer.from("FF8000", "hex"));
+
+      // act & assert
+      expect(() => reader_0.readUleb128()).to.throw(NonCanonicalEncodingError);
+      expect(() => reader_1.readUleb128()).to.throw(NonCanonicalEncodingError);
+    });
+
+    it("should reject values bigger than Number.MAX_SAFE_INTEGER", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("80808080808080808001", "hex")); // 2^63
+
+      // act & assert
+      expect(() => reader.readUleb128()).to.throw(IntegerOverflowError);
+    });
+  });
+
+  describe("readBigUleb128()", () => {
+    it("should read unsigned LEB128 integers of up to 64 bits", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("FFFFFFFFFFFFFFFFFF01", "hex"));
+
+      // act
+      const value = reader.readBigUleb128();
+
+      // assert
+      expect(reader.offset).to.be.equal(10);
+      expect(value).to.be.equal(18_446_744_073_709_551_615n);
+    });
+
+    it("should reject values that do not fit in given bits", () => {
+      // prepare
+      const reader_64 = new Reader(Buffer.from("FFFFFFFFFFFFFFFFFF03", "hex")),
+        reader_32 = new Reader(Buffer.from("8080808010", "hex")), // 2^32
+        reader_long = new Reader(Buffer.from("8080808080808080808080", "hex"));
+
+      // act & assert
+      expect(() => reader_64.readBigUleb128()).to.throw(IntegerOverflowError);
+      expect(() => reader_32.readBigUleb128(32)).to.throw(IntegerOverflowError);
+      expect(() => reader_long.readBigUleb128()).to.throw(IntegerOverflowError);
+    });
+  });
+
+  describe("readSleb128()", () => {
+    it("should read signed LEB128 integers", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from("00" + "7F" + "3F" + "8001" + "807F" + "C0BB78", "hex"),
+      );
+
+      // act
+      const values = [
+        reader.readSleb128(),
+        reader.readSleb128(),
+        reader.readSleb128(),
+        reader.readSleb128(),
+        reader.readSleb128(),
+        reader.readSleb128(),
+      ];
+
+      // assert
+      expect(reader.offset).to.be.equal(1 + 1 + 1 + 2 + 2 + 3);
+      expect(values).to.be.deep.equal([0, -1, 63, 128, -128, -123_456]);
+    });
+
+    it("should reject redundant sign-extension groups", () => {
+      // prepare
+      const reader_pos = new Reader(Buffer.from("8100", "hex")), // 1
+        reader_neg = new Reader(Buffer.from("FF7F", "hex")); // -1
+
+      // act & assert
+      expect(() => reader_pos.readSleb128()).to.throw(
+        NonCanonicalEncodingError,
+      );
+      expect(() => reader_neg.readSleb128()).to.throw(
+        NonCanonicalEncodingError,
+      );
+    });
+  });
+
+  describe("readBigSleb128()", () => {
+    it("should read signed LEB128 integers of up to 64 bits", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from(
+          "808080808080808080" + "7F" + "FFFFFFFFFFFFFFFFFF" + "00",
+          "hex",
+        ),
+      );
+
+      // act
+      const value_min = reader.readBigSleb128();
+      const value_max = reader.readBigSleb128();
+
+      // assert
+      expect(value_min).to.be.equal(-(2n ** 63n));
+      expect(value_max).to.be.equal(2n ** 63n - 1n);
+    });
+
+    it("should reject values that do not fit in given bits", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("8001", "hex")); // 128
+
+      // act & assert
+      expect(() => reader.readBigSleb128(8)).to.throw(IntegerOverflowError);
+    });
+  });
+
+  describe("readZigZagLeb128()", () => {
+    it("should read zig-zag encoded integers", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from("00010203" + "FE01" + "FF01", "hex"),
+      );
+
+      // act
+      const values = [
+        reader.readZigZagLeb128(),
+        reader.readZigZagLeb128(),
+        reader.readZigZagLeb128(),
+        reader.readZigZagLeb128(),
+        reader.readZigZagLeb128(),
+        reader.readZigZagLeb128(),
+      ];
+
+      // assert
+      expect(values).to.be.deep.equal([0, -1, 1, -2, 127, -128]);
+    });
+  });
+
+  describe("readBigZigZagLeb128()", () => {
+    it("should read zig-zag encoded integers of up to 64 bits", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from("FEFFFFFFFFFFFFFFFF01" + "FFFFFFFFFFFFFFFFFF01", "hex"),
+      );
+
+      // act
+      const value_max = reader.readBigZigZagLeb128();
+      const value_min = reader.readBigZigZagLeb128();
+
+      // assert
+      expect(value_max).to.be.equal(2n ** 63n - 1n);
+      expect(value_min).to.be.equal(-(2n ** 63n));
+    });
+  });
+
+  describe("byte order", () => {
+    const bytes = "0102030405060708";
+
+    it("should read big-endian integers given constructor option", () => {
+      // prepare
+      const reader = new Reader(Buffer.from(bytes + bytes, "hex"), 0, false);
+
+      // act
+      const value_16 = reader.readUint16();
+      const value_32 = reader.readUint32();
+      reader.offset = 8;
+      const value_64 = reader.readUint64();
+
+      // assert
+      expect(value_16).to.be.equal(0x0102);
+      expect(value_32).to.be.equal(0x03040506);
+      expect(value_64).to.be.equal(0x0102030405060708n);
+    });
+
+    it("should read integers with byte order given per call", () => {
+      // prepare
+      const reader = new Reader(Buffer.from(bytes, "hex"));
+
+      // act
+      const value_be = reader.readUint16(false);
+      const value_le = reader.readUint16(true);
+
+      // assert
+      expect(value_be).to.be.equal(0x0102);
+      expect(value_le).to.be.equal(0x0403);
+    });
+
+    it("should read integers with BE and LE variants", () => {
+      // prepare
+      const reader_be = new Reader(Buffer.from(bytes + bytes + bytes, "hex")),
+        reader_le = new Reader(
+          Buffer.from(bytes + bytes + bytes, "hex"),
+          0,
+          false,
+        );
+
+      // assert
+      expect(reader_be.readUint16BE()).to.be.equal(0x0102);
+      expect(reader_be.readUint32BE()).to.be.equal(0x03040506);
+      reader_be.offset = 8;
+      expect(reader_be.readUint64BE()).to.be.equal(0x0102030405060708n);
+      expect(reader_le.readUint16LE()).to.be.equal(0x0201);
+      expect(reader_le.readUint32LE()).to.be.equal(0x06050403);
+      reader_le.offset = 8;
+      expect(reader_le.readUint64LE()).to.be.equal(0x0807060504030201n);
+    });
+
+    it("should always read variable-length integers as little-endian", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("FD0001", "hex"), 0, false);
+
+      // act
+      const value = reader.readVarInt();
+
+      // assert
+      expect(value).to.be.equal(256);
+    });
+  });
+
+  describe("readInt8() to readInt64()", () => {
+    it("should read signed integers in two's complement notation", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from("FF" + "FEFF" + "FDFFFFFF" + "FCFFFFFFFFFFFFFF", "hex"),
+      );
+
+      // act
+      const value_8 = reader.readInt8();
+      const value_16 = reader.readInt16();
+      const value_32 = reader.readInt32();
+      const value_64 = reader.readInt64();
+
+      // assert
+      expect(reader.offset).to.be.equal(1 + 2 + 4 + 8);
+      expect(value_8).to.be.equal(-1);
+      expect(value_16).to.be.equal(-2);
+      expect(value_32).to.be.equal(-3);
+      expect(value_64).to.be.equal(-4n); // bigint literal
+    });
+
+    it("should read positive signed integers", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("7F" + "FF7F" + "01000000", "hex"));
+
+      // assert
+      expect(reader.readInt8()).to.be.equal(127);
+      expect(reader.readInt16()).to.be.equal(32_767);
+      expect(reader.readInt32()).to.be.equal(1);
+    });
+
+    it("should use byte order given per call", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from("FFFE" + "FFFFFFFFFFFFFFFC", "hex"),
+      );
+
+      // assert
+      expect(reader.readInt16(false)).to.be.equal(-2);
+      expect(reader.readInt64(false)).to.be.equal(-4n); // bigint literal
+    });
+  });
+
+  describe("readUint128() and readUint256()", () => {
+    it("should read wide unsigned integers", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.concat([
+          Buffer.from("01" + "00".repeat(14) + "80", "hex"),
+          Buffer.from("FF".repeat(32), "hex"),
+        ]),
+      );
+
+      // act
+      const value_128 = reader.readUint128();
+      const value_256 = reader.readUint256();
+
+      // assert
+      expect(reader.offset).to.be.equal(16 + 32);
+      expect(value_128).to.be.equal((1n << 127n) + 1n);
+      expect(value_256).to.be.equal(2n ** 256n - 1n);
+    });
+
+    it("should read wide big-endian unsigned integers", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from(
+          "01" + "00".repeat(14) + "80" + "00".repeat(31) + "2A",
+          "hex",
+        ),
+        0,
+        false,
+      );
+
+      // assert
+      expect(reader.readUint128()).to.be.equal((1n << 120n) + 128n);
+      expect(reader.readUint256()).to.be.equal(42n);
+    });
+  });
+
+  describe("readInt128() and readInt256()", () => {
+    it("should read wide signed integers", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from("FE" + "FF".repeat(15) + "00".repeat(31) + "80", "hex"),
+      );
+
+      // assert
+      expect(reader.readInt128()).to.be.equal(-2n);
+      expect(reader.readInt256()).to.be.equal(-(2n ** 255n));
+    });
+  });
+
+  describe("strict mode", () => {
+    it("should be enabled by default", () => {
+      const reader_0 = new Reader(Buffer.from("00", "hex")),
+        reader_1 = new Reader(Buffer.from("00", "hex"), 0, true, false);
+
+      expect(reader_0.strict).to.be.true;
+      expect(reader_1.strict).to.be.false;
+    });
+
+    it("should reject offsets outside of the buffer", () => {
+      expect(() => new Reader(Buffer.from("00", "hex"), 2)).to.throw(
+        BufferUnderflowError,
+      );
+      expect(() => new Reader(Buffer.from("00", "hex"), -1)).to.throw(
+        BufferUnderflowError,
+      );
+      expect(new Reader(Buffer.from("00", "hex"), 1).offset).to.be.equal(1);
+    });
+
+    it("should reset offsets outside of the buffer given non-strict", () => {
+      const reader = new Reader(Buffer.from("00", "hex"), 2, true, false);
+
+      expect(reader.offset).to.be.equal(0);
+    });
+
+    it("should throw when reading past the end of the buffer", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("0001", "hex"));
+
+      // act & assert
+      expect(() => reader.readUint32()).to.throw(BufferUnderflowError);
+      expect(reader.offset).to.be.equal(0); // unchanged
+      expect(() => reader.readBuffer(3)).to.throw(BufferUnderflowError);
+      reader.readUint16();
+      expect(() => reader.readUint8()).to.throw(BufferUnderflowError);
+    });
+
+    it("should include offset, requested and available bytes", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("000102", "hex"), 1);
+
+      // act
+      let error: BufferUnderflowError | undefined;
+      try {
+        reader.readUint64();
+      } catch (e) {
+        error = e as BufferUnderflowError;
+      }
+
+      // assert
+      expect(error).to.be.instanceOf(RangeError);
+      expect(error?.offset).to.be.equal(1);
+      expect(error?.requested).to.be.equal(8);
+      expect(error?.available).to.be.equal(2);
+    });
+
+    it("should reject truncated variable-length data", () => {
+      // prepare
+      const reader_0 = new Reader(Buffer.from("FD01", "hex")),
+        reader_1 = new Reader(Buffer.from("050102", "hex")),
+        reader_2 = new Reader(Buffer.from("8080", "hex"));
+
+      // act & assert
+      expect(() => reader_0.readVarInt()).to.throw(BufferUnderflowError);
+      expect(() => reader_1.readVarBytes()).to.throw(BufferUnderflowError);
+      expect(() => reader_2.readUleb128()).to.throw(BufferUnderflowError);
+    });
+
+    it("should not throw given non-strict", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("0001", "hex"), 0, true, false);
+
+      // act
+      const buffer = reader.readBuffer(4);
+      const byte = reader.readUint8();
+
+      // assert
+      expect(buffer.byteLength).to.be.equal(2);
+      expect(byte).to.be.undefined;
+    });
+  });
+
+  describe("peekUint8() and peekBuffer()", () => {
+    let reader: Reader;
+    beforeEach(() => {
+      reader = new Reader(Buffer.from("00010203", "hex"), 1);
+    });
+
+    it("should read without moving the cursor", () => {
+      // act
+      const byte = reader.peekUint8();
+      const buffer = reader.peekBuffer(2);
+
+      // assert
+      expect(reader.offset).to.be.equal(1);
+      expect(byte).to.be.equal(1);
+      expect(Buffer.from(buffer).toString("hex")).to.be.equal("0102");
+    });
+
+    it("should throw when peeking past the end of the buffer", () => {
+      // act & assert
+      expect(() => reader.peekBuffer(4)).to.throw(BufferUnderflowError);
+      expect(reader.offset).to.be.equal(1);
+    });
+  });
+
+  describe("seek() and skip()", () => {
+    let reader: Reader;
+    beforeEach(() => {
+      reader = new Reader(Buffer.from("00010203", "hex"));
+    });
+
+    it("should move the cursor to an absolute position", () => {
+      // act
+      reader.seek(3);
+      const byte_3 = reader.readUint8();
+      reader.seek(0);
+      const byte_0 = reader.readUint8();
+
+      // assert
+      expect(byte_3).to.be.equal(3);
+      expect(byte_0).to.be.equal(0);
+    });
+
+    it("should move the cursor forward", () => {
+      // act
+      const byte = reader.skip(1).skip(1).readUint8();
+
+      // assert
+      expect(byte).to.be.equal(2);
+    });
+
+    it("should throw when moving outside of the buffer", () => {
+      // act & assert
+      expect(() => reader.seek(5)).to.throw(BufferUnderflowError);
+      expect(() => reader.seek(-1)).to.throw(BufferUnderflowError);
+      expect(() => reader.skip(5)).to.throw(BufferUnderflowError);
+      expect(reader.offset).to.be.equal(0);
+    });
+  });
+
+  describe("mark() and reset()", () => {
+    it("should move the cursor back to the marked position", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("00010203", "hex"));
+
+      // act
+      reader.readUint8();
+      reader.mark();
+      const first = reader.readUint16();
+      const second = reader.reset().readUint16();
+
+      // assert
+      expect(first).to.be.equal(second);
+      expect(reader.offset).to.be.equal(3);
+    });
+
+    it("should move the cursor to the start given no mark", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("00010203", "hex"));
+
+      // act
+      reader.readUint32();
+      reader.reset();
+
+      // assert
+      expect(reader.offset).to.be.equal(0);
+    });
+  });
+
+  describe("remaining() and isEOF()", () => {
+    it("should return the number of remaining bytes", () => {
+      // prepare
+      const reader = new Reader(Buffer.from("00010203", "hex"));
+
+      // act & assert
+      expect(reader.remaining()).to.be.equal(4);
+      expect(reader.isEOF()).to.be.false;
+      reader.readUint16();
+      expect(reader.remaining()).to.be.equal(2);
+      reader.readUint16();
+      expect(reader.remaining()).to.be.equal(0);
+      expect(reader.isEOF()).to.be.true;
+    });
+  });
+
+  describe("subReader()", () => {
+    let reader: Reader;
+    beforeEach(() => {
+      reader = new Reader(Buffer.from("0001020304", "hex"), 0, false);
+    });
+
+    it("should create a bounded child reader", () => {
+      // act
+      reader.readUint8();
+      const child = reader.subReader(2);
+
+      // assert
+      expect(reader.offset).to.be.equal(3);
+      expect(child.offset).to.be.equal(0);
+      expect(child.size).to.be.equal(2);
+      expect(child.readUint16()).to.be.equal(0x0102); // big-endian
+      expect(() => child.readUint8()).to.throw(BufferUnderflowError);
+    });
+
+    it("should share the memory of the parent reader", () => {
+      // act
+      const child = reader.subReader(2);
+      reader.buffer[1] = 0xff;
+
+      // assert
+      expect(child.buffer.buffer).to.be.equal(reader.buffer.buffer);
+      expect(child.buffer[1]).to.be.equal(0xff);
+    });
+
+    it("should inherit byte order and strictness", () => {
+      // act
+      const child = reader.subReader(2);
+
+      // assert
+      expect(child.littleEndian).to.be.false;
+      expect(child.strict).to.be.true;
+    });
+
+    it("should throw when exceeding the parent reader", () => {
+      // act & assert
+      expect(() => reader.subReader(6)).to.throw(BufferUnderflowError);
+    });
+  });
 });
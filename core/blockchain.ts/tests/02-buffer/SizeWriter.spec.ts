@@ -0,0 +1,105 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { SizeWriter } from "../../src/buffer/SizeWriter";
+import { Writer } from "../../src/buffer/Writer";
+
+describe("SizeWriter", () => {
+  describe("constructor()", () => {
+    it("should start counting at zero", () => {
+      const writer = new SizeWriter();
+
+      expect(writer.offset).to.be.equal(0);
+      expect(writer.size).to.be.equal(0);
+    });
+
+    it("should accept optional littleEndian input", () => {
+      const writer_0 = new SizeWriter(),
+        writer_1 = new SizeWriter(false);
+
+      expect(writer_0.littleEndian).to.be.true;
+      expect(writer_1.littleEndian).to.be.false;
+    });
+  });
+
+  describe("write methods", () => {
+    let writer: SizeWriter;
+    beforeEach(() => {
+      writer = new SizeWriter();
+    });
+
+    it("should count fixed-size integers", () => {
+      // act
+      writer.writeUint8(1).writeUint16(1).writeUint32(1).writeUint64(1n);
+
+      // assert
+      expect(writer.offset).to.be.equal(1 + 2 + 4 + 8);
+    });
+
+    it("should count signed and wide integers", () => {
+      // act
+      writer.writeInt8(-1).writeInt64(-1n).writeUint128(1n).writeInt256(-1n);
+
+      // assert
+      expect(writer.offset).to.be.equal(1 + 8 + 16 + 32);
+    });
+
+    it("should count buffers", () => {
+      // act
+      writer
+        .writeBuffer(new Uint8Array(32))
+        .writeBuffer(new Uint8Array([1, 2, 3]), 1);
+
+      // assert
+      expect(writer.offset).to.be.equal(32 + 2);
+    });
+
+    it("should count variable-length integers and buffers", () => {
+      // act
+      writer
+        .writeVarInt(252)
+        .writeVarInt(65_536)
+        .writeVarBytes(new Uint8Array(300))
+        .writeUleb128(624_485)
+        .writeSleb128(-123_456);
+
+      // assert
+      expect(writer.offset).to.be.equal(1 + 5 + (3 + 300) + 3 + 3);
+    });
+
+    it("should validate values like a writer", () => {
+      expect(() => writer.writeVarInt(-1)).to.throw(RangeError);
+      expect(() => writer.writeUint256(-1n)).to.throw(RangeError);
+    });
+  });
+
+  describe("dry run", () => {
+    it("should compute exact size of a serialization", () => {
+      // prepare
+      const serialize = (w: Writer) =>
+        w
+          .writeUint32(1)
+          .writeVarBytes(new Uint8Array([1, 2, 3]))
+          .writeUint64(2n);
+
+      // act
+      const size = serialize(new SizeWriter()).offset;
+      const writer = serialize(new Writer(Buffer.allocUnsafe(size)));
+
+      // assert
+      expect(size).to.be.equal(4 + (1 + 3) + 8);
+      expect(writer.offset).to.be.equal(writer.size);
+    });
+  });
+});
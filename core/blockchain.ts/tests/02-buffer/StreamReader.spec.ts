@@ -0,0 +1,261 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+import { Readable } from "stream";
+
+// internal dependencies
+import { Reader } from "../../src/buffer/Reader";
+import { StreamReader } from "../../src/buffer/StreamReader";
+import { BufferUnderflowError } from "../../src/errors/BufferUnderflowError";
+
+// creates an async iterable that yields the chunks one by one
+async function* chunked(...chunks: string[]): AsyncGenerator<Uint8Array> {
+  for (const chunk of chunks) {
+    yield Buffer.from(chunk, "hex");
+  }
+}
+
+describe("StreamReader", () => {
+  describe("constructor()", () => {
+    it("should start reading at offset zero", () => {
+      const stream = new StreamReader(chunked("01"));
+
+      expect(stream.offset).to.be.equal(0);
+      expect(stream.littleEndian).to.be.true;
+    });
+
+    it("should accept optional littleEndian input", async () => {
+      const stream = new StreamReader(chunked("0001"), false);
+
+      expect(stream.littleEndian).to.be.false;
+      expect(await stream.readUint16()).to.be.equal(1);
+    });
+  });
+
+  describe("read methods", () => {
+    it("should read values spanning multiple chunks", async () => {
+      const stream = new StreamReader(
+        chunked("01", "0200", "0304", "05", "06", "08090a0b0c0d0e0f"),
+      );
+
+      expect(await stream.readUint8()).to.be.equal(1);
+      expect(await stream.readUint16()).to.be.equal(2);
+      expect(await stream.readUint32BE()).to.be.equal(0x03040506);
+      expect(await stream.readUint64LE()).to.be.equal(0x0f0e0d0c0b0a0908n);
+      expect(stream.offset).to.be.equal(15);
+      expect(await stream.isEOF()).to.be.true;
+    });
+
+    it("should read buffers and variable-length integers", async () => {
+      const stream = new StreamReader(
+        chunked("fd", "2c01", "03aa", "bbcc", "ac02"),
+      );
+
+      expect(await stream.readVarInt()).to.be.equal(300);
+      expect(await stream.readVarBytes()).to.be.deep.equal(
+        Buffer.from("aabbcc", "hex"),
+      );
+      expect(await stream.readUleb128()).to.be.equal(300);
+    });
+
+    it("should peek without moving the cursor", async () => {
+      const stream = new StreamReader(chunked("01", "02"));
+
+      expect(await stream.peekBuffer(2)).to.be.deep.equal(
+        Buffer.from("0102", "hex"),
+      );
+      expect(stream.offset).to.be.equal(0);
+      expect(await stream.readUint8()).to.be.equal(1);
+    });
+
+    it("should skip bytes across chunks", async () => {
+      const stream = new StreamReader(chunked("0102", "0304", "05"));
+
+      await stream.skip(4);
+
+      expect(stream.offset).to.be.equal(4);
+      expect(await stream.readUint8()).to.be.equal(5);
+    });
+
+    it("should read from a Node.js Readable", async () => {
+      const stream = new StreamReader(
+        Readable.from([Buffer.from("0100", "hex"), Buffer.from("00", "hex")]),
+      );
+
+      expect(await stream.readUint16()).to.be.equal(1);
+      expect(await stream.readInt8()).to.be.equal(0);
+    });
+
+    it("should throw BufferUnderflowError given stream that ends early", async () => {
+      const stream = new StreamReader(chunked("01", "02", "03"));
+      await stream.readUint8();
+
+      let error: BufferUnderflowError | undefined;
+      try {
+        await stream.readUint32();
+      } catch (e) {
+        error = e as BufferUnderflowError;
+      }
+
+      expect(error).to.be.instanceOf(BufferUnderflowError);
+      expect(error?.offset).to.be.equal(1);
+      expect(error?.requested).to.be.equal(4);
+    });
+
+    it("should throw BufferUnderflowError given skip past end of stream", async () => {
+      const stream = new StreamReader(chunked("0102"));
+
+      let error: unknown;
+      try {
+        await stream.skip(3);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).to.be.instanceOf(BufferUnderflowError);
+    });
+  });
+
+  describe("decode()", () => {
+    it("should retry the decoder until enough bytes are received", async () => {
+      const stream = new StreamReader(chunked("02", "aa", "bb", "01", "cc"));
+      const decoder = (r: Reader) => r.readBuffer(r.readUint8());
+
+      expect(await stream.decode(decoder)).to.be.deep.equal(
+        Buffer.from("aabb", "hex"),
+      );
+      expect(await stream.decode(decoder)).to.be.deep.equal(
+        Buffer.from("cc", "hex"),
+      );
+    });
+
+    it("should not catch errors other than BufferUnderflowError", async () => {
+      const stream = new StreamReader(chunked("01"));
+
+      let error: unknown;
+      try {
+        await stream.decode(() => {
+          throw new TypeError("invalid");
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).to.be.instanceOf(TypeError);
+    });
+
+    it("should throw BufferUnderflowError given sub-reader underflow", async () => {
+      const stream = new StreamReader(chunked("0102", "0304", "05"));
+
+      let error: BufferUnderflowError | undefined;
+      try {
+        await stream.decode((r) => r.subReader(2).readUint32());
+      } catch (e) {
+        error = e as BufferUnderflowError;
+      }
+
+      expect(error).to.be.instanceOf(BufferUnderflowError);
+      expect(error?.requested).to.be.equal(4);
+      expect(error?.available).to.be.equal(2);
+    });
+
+    it("should not pull more chunks given malformed records", async () => {
+      // prepare
+      let pulled = 0;
+      async function* counted(): AsyncGenerator<Uint8Array> {
+        for (let i = 0; i < 100; i++) {
+          pulled++;
+          // records of 4 bytes with an item length of 255 bytes
+          yield Buffer.from("04ff000000", "hex");
+        }
+      }
+      const stream = new StreamReader(counted());
+
+      // act
+      let error: BufferUnderflowError | undefined;
+      try {
+        await stream.decode((r) => {
+          const record = r.subReader(r.readUint8());
+          return record.readBuffer(record.readUint8());
+        });
+      } catch (e) {
+        error = e as BufferUnderflowError;
+      }
+
+      // assert
+      expect(error).to.be.instanceOf(BufferUnderflowError);
+      expect(error?.requested).to.be.equal(255);
+      expect(pulled).to.be.equal(1);
+    });
+
+    it("should not pull more chunks given reads within buffered bytes", async () => {
+      let pulled = 0;
+      async function* counted(): AsyncGenerator<Uint8Array> {
+        for (let i = 0; i < 100; i++) {
+          pulled++;
+          yield Buffer.from("0102030405", "hex");
+        }
+      }
+      const stream = new StreamReader(counted());
+
+      let error: unknown;
+      try {
+        await stream.decode((r) => r.readBuffer(r.readUint8() - 2));
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).to.be.instanceOf(BufferUnderflowError);
+      expect(pulled).to.be.equal(1);
+    });
+
+    it("should throw BufferUnderflowError given negative length", async () => {
+      const stream = new StreamReader(chunked("0102", "0304"));
+
+      let error: unknown;
+      try {
+        await stream.readBuffer(-1);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).to.be.instanceOf(BufferUnderflowError);
+    });
+  });
+
+  describe("iterate()", () => {
+    it("should iterate over consecutive values", async () => {
+      const stream = new StreamReader(chunked("0100", "00", "0002", "000000"));
+      const values: number[] = [];
+
+      for await (const value of stream.iterate((r) => r.readUint32())) {
+        values.push(value);
+      }
+
+      expect(values).to.be.deep.equal([1, 2]);
+      expect(stream.offset).to.be.equal(8);
+    });
+  });
+
+  describe("subReader()", () => {
+    it("should return a bounded reader over the next bytes", async () => {
+      const stream = new StreamReader(chunked("0102", "0304"));
+
+      const reader = await stream.subReader(3);
+
+      expect(reader.size).to.be.equal(3);
+      expect(reader.readUint8()).to.be.equal(1);
+      expect(stream.offset).to.be.equal(3);
+      expect(await stream.readUint8()).to.be.equal(4);
+    });
+  });
+});
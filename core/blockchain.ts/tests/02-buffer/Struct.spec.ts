@@ -0,0 +1,221 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { Codecs } from "../../src/buffer/Codecs";
+import { Reader } from "../../src/buffer/Reader";
+import { Struct } from "../../src/buffer/Struct";
+import { Template } from "../../src/buffer/Template";
+import { Writer } from "../../src/buffer/Writer";
+import { BufferUnderflowError } from "../../src/errors/BufferUnderflowError";
+
+const { bytes, u32, u64, u64be, i16, i32, varint, varbytes, bool } = Codecs;
+const { vector, array, flag, when } = Codecs;
+
+// genesis block header of the Bitcoin network
+const genesis =
+  "01000000" +
+  "00".repeat(32) +
+  "3ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a" +
+  "29ab5f49" +
+  "ffff001d" +
+  "1dac2b7c";
+
+describe("Struct", () => {
+  const Header = Template.struct({
+    version: u32,
+    prevHash: bytes(32),
+    merkleRoot: bytes(32),
+    time: u32,
+    bits: u32,
+    nonce: u32,
+  });
+
+  describe("constructor()", () => {
+    it("should be created with Template.struct", () => {
+      expect(Header).to.be.instanceOf(Struct);
+      expect(Object.keys(Header.schema)).to.be.deep.equal([
+        "version",
+        "prevHash",
+        "merkleRoot",
+        "time",
+        "bits",
+        "nonce",
+      ]);
+    });
+  });
+
+  describe("fromBuffer()", () => {
+    it("should decode plain values using the schema", () => {
+      // act
+      const header = Header.fromBuffer(Buffer.from(genesis, "hex"));
+
+      // assert
+      expect(header.version).to.be.equal(1);
+      expect(Buffer.from(header.merkleRoot).toString("hex")).to.be.equal(
+        "3ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a",
+      );
+      expect(header.time).to.be.equal(1231006505);
+      expect(header.bits).to.be.equal(0x1d00ffff);
+      expect(header.nonce).to.be.equal(2083236893);
+    });
+
+    it("should throw BufferUnderflowError given insufficient bytes", () => {
+      expect(() => Header.fromBuffer(Buffer.alloc(79))).to.throw(
+        BufferUnderflowError,
+      );
+    });
+  });
+
+  describe("toBuffer()", () => {
+    it("should round-trip a block header", () => {
+      // prepare
+      const header = Header.fromBuffer(Buffer.from(genesis, "hex"));
+
+      // act
+      const buffer = Header.toBuffer(header);
+
+      // assert
+      expect(Header.getSize(header)).to.be.equal(80);
+      expect(Buffer.from(buffer).toString("hex")).to.be.equal(genesis);
+    });
+
+    it("should encode variable-length fields in order", () => {
+      // prepare
+      const Output = Template.struct({
+        value: u64be,
+        delta: i16,
+        spent: bool,
+        count: varint,
+        script: varbytes,
+      });
+
+      // act
+      const buffer = Output.toBuffer({
+        value: 1n,
+        delta: -2,
+        spent: true,
+        count: 300,
+        script: new Uint8Array([0xaa, 0xbb]),
+      });
+
+      // assert
+      expect(Buffer.from(buffer).toString("hex")).to.be.equal(
+        "0000000000000001" + "feff" + "01" + "fd2c01" + "02aabb",
+      );
+      expect(Output.fromBuffer(buffer)).to.be.deep.equal({
+        value: 1n,
+        delta: -2,
+        spent: true,
+        count: 300,
+        script: Buffer.from("aabb", "hex"),
+      });
+    });
+
+    it("should throw RangeError given buffer of wrong length", () => {
+      const header = Header.fromBuffer(Buffer.from(genesis, "hex"));
+
+      expect(() =>
+        Header.toBuffer({ ...header, prevHash: new Uint8Array(31) }),
+      ).to.throw(RangeError);
+    });
+  });
+
+  describe("encode()", () => {
+    it("should be usable as nested codec", () => {
+      // prepare
+      const Block = Template.struct({ header: Header, txCount: varint });
+      const writer = Writer.createGrowable();
+
+      // act
+      Block.encode(writer, {
+        header: Header.fromBuffer(Buffer.from(genesis, "hex")),
+        txCount: 1,
+      });
+      const block = Block.decode(new Reader(Buffer.from(writer.finish())));
+
+      // assert
+      expect(writer.offset).to.be.equal(81);
+      expect(block.header.nonce).to.be.equal(2083236893);
+      expect(block.txCount).to.be.equal(1);
+    });
+  });
+
+  describe("composite schemas", () => {
+    const OutPoint = Template.struct({ hash: bytes(32), index: u32 });
+    const Input = Template.struct({
+      prevout: OutPoint,
+      script: varbytes,
+      sequence: u32,
+    });
+    const Output = Template.struct({ value: u64, script: varbytes });
+    const Transaction = Template.struct({
+      version: i32,
+      segwit: flag(Buffer.from("0001", "hex")),
+      inputs: vector(Input),
+      outputs: vector(Output),
+      witnesses: when(
+        (tx) => tx.segwit,
+        array(vector(varbytes), (tx) => tx.inputs.length),
+      ),
+      locktime: u32,
+    });
+
+    const input = "11".repeat(32) + "01000000" + "00" + "feffffff",
+      output = "e803000000000000" + "02" + "5100";
+
+    it("should decode a legacy transaction", () => {
+      // prepare
+      const hex = "02000000" + "01" + input + "01" + output + "00000000";
+
+      // act
+      const tx = Transaction.fromBuffer(Buffer.from(hex, "hex"));
+
+      // assert
+      expect(tx.segwit).to.be.false;
+      expect(tx.witnesses).to.be.undefined;
+      expect(tx.inputs[0].prevout.index).to.be.equal(1);
+      expect(tx.inputs[0].sequence).to.be.equal(0xfffffffe);
+      expect(tx.outputs[0].value).to.be.equal(1000n);
+      expect(Buffer.from(Transaction.toBuffer(tx)).toString("hex")).to.be.equal(
+        hex,
+      );
+    });
+
+    it("should decode a segregated witness transaction", () => {
+      // prepare
+      const witness = "02" + "02aabb" + "01cc";
+      const hex =
+        "02000000" +
+        "0001" +
+        "01" +
+        input +
+        "01" +
+        output +
+        witness +
+        "00000000";
+
+      // act
+      const tx = Transaction.fromBuffer(Buffer.from(hex, "hex"));
+
+      // assert
+      expect(tx.segwit).to.be.true;
+      expect(tx.witnesses).to.be.deep.equal([
+        [Buffer.from("aabb", "hex"), Buffer.from("cc", "hex")],
+      ]);
+      expect(Buffer.from(Transaction.toBuffer(tx)).toString("hex")).to.be.equal(
+        hex,
+      );
+    });
+  });
+});
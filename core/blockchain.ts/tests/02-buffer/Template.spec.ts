@@ -12,7 +12,12 @@
 import { expect } from "chai";
 
 // internal dependencies
+import { Reader } from "../../src/buffer/Reader";
 import { Template } from "../../src/buffer/Template";
+import { BufferUnderflowError } from "../../src/errors/BufferUnderflowError";
+import { Hashes } from "../../src/hashes/Hashes";
+
+const { sha256d } = Hashes;
 
 describe("Template", () => {
   describe("constructor()", () => {
@@ -37,6 +42,16 @@ describe("Template", () => {
       expect(tpl_1.fields).to.not.be.empty;
       expect(tpl_1.byteLength).to.be.equal(1 + 2 + 4);
     });
+
+    it("should compute correct byte length of variable-length fields", () => {
+      const tpl_1 = new Template([
+        { type: "varint", data: new Uint8Array([1]) },
+        { type: "varint", data: new Uint8Array([1, 0]) },
+        { type: "varbytes", data: new Uint8Array([1, 2, 3]) },
+      ]);
+
+      expect(tpl_1.byteLength).to.be.equal(1 + 3 + (1 + 3));
+    });
   });
 
   describe("toBuffer()", () => {
@@ -181,5 +196,265 @@ describe("Template", () => {
         buffer_hex,
       ); // endianness kept
     });
+
+    it("should correctly encode varint fields", () => {
+      // prepare
+      const tpl_2 = new Template([
+        { type: "varint", data: new Uint8Array([252]) }, // FC
+        { type: "varint", data: new Uint8Array([1, 0]) }, // FD0001
+        { type: "varint", data: new Uint8Array([1, 0, 0, 0, 0]) }, // FF0000000001000000
+      ]);
+
+      // act
+      const buffer: Uint8Array = tpl_2.toBuffer();
+
+      // assert
+      expect(buffer.byteLength).to.be.equal(1 + 3 + 9);
+      expect(Buffer.from(buffer).toString("hex").toUpperCase()).to.be.equal(
+        "FCFD0001FF0000000001000000",
+      );
+    });
+
+    it("should correctly encode varbytes fields", () => {
+      // prepare
+      const tpl_2 = new Template([
+        { type: "varbytes", data: new Uint8Array([1, 2, 3]) },
+        { type: "uint8", data: new Uint8Array([4]) },
+      ]);
+
+      // act
+      const buffer: Uint8Array = tpl_2.toBuffer();
+
+      // assert
+      expect(buffer.byteLength).to.be.equal(1 + 3 + 1);
+      expect(Buffer.from(buffer).toString("hex").toUpperCase()).to.be.equal(
+        "0301020304",
+      );
+    });
+
+    it("should use byte order of fields", () => {
+      // prepare
+      const tpl_2 = new Template([
+        { type: "uint16", data: new Uint8Array([1, 2]), littleEndian: false },
+        {
+          type: "uint32",
+          data: new Uint8Array([3, 4, 5, 6]),
+          littleEndian: false,
+        },
+        { type: "uint16", data: new Uint8Array([1, 2]), littleEndian: true },
+      ]);
+
+      // act
+      const buffer: Uint8Array = tpl_2.toBuffer();
+
+      // assert
+      expect(Buffer.from(buffer).toString("hex").toUpperCase()).to.be.equal(
+        "01020304050602" + "01",
+      );
+    });
+
+    it("should correctly encode signed integer fields", () => {
+      // prepare
+      const tpl_2 = new Template([
+        { type: "int8", data: new Uint8Array([0xff]) }, // -1
+        { type: "int16", data: new Uint8Array([0xff, 0xfe]) }, // -2
+        { type: "int32", data: new Uint8Array([0xff, 0xff, 0xff, 0xfd]) }, // -3
+      ]);
+
+      // act
+      const buffer: Uint8Array = tpl_2.toBuffer();
+
+      // assert
+      expect(buffer.byteLength).to.be.equal(1 + 2 + 4);
+      expect(Buffer.from(buffer).toString("hex").toUpperCase()).to.be.equal(
+        "FF" + "FEFF" + "FDFFFFFF",
+      );
+    });
+
+    it("should correctly encode wide integer fields", () => {
+      // prepare
+      const value = Buffer.from("01" + "00".repeat(30) + "02", "hex");
+      const tpl_2 = new Template([
+        { type: "uint256", data: Uint8Array.from(value) },
+        { type: "uint256", data: Uint8Array.from(value), littleEndian: false },
+      ]);
+
+      // act
+      const buffer: Uint8Array = tpl_2.toBuffer();
+
+      // assert
+      expect(buffer.byteLength).to.be.equal(32 + 32);
+      expect(Buffer.from(buffer).toString("hex").toUpperCase()).to.be.equal(
+        "02" + "00".repeat(30) + "01" + "01" + "00".repeat(30) + "02",
+      );
+    });
+  });
+
+  describe("toBuffer() integer fields", () => {
+    it("should read field data at its' byte offset", () => {
+      // prepare
+      const shared = new Uint8Array([0xaa, 0xbb, 0x01, 0x02, 0x03, 0x04]);
+      const tpl_2 = new Template([
+        { type: "uint32", data: shared.subarray(2), littleEndian: false },
+      ]);
+
+      // act
+      const buffer: Uint8Array = tpl_2.toBuffer();
+
+      // assert
+      expect(Buffer.from(buffer).toString("hex")).to.be.equal("01020304");
+    });
+
+    it("should write high-bit values without sign errors", () => {
+      // prepare
+      const tpl_2 = new Template([
+        { type: "uint8", data: new Uint8Array([0x80]) },
+        { type: "uint16", data: new Uint8Array([0xff, 0x00]) },
+        { type: "uint64", data: new Uint8Array([0x80, 0, 0, 0, 0, 0, 0, 0]) },
+      ]);
+
+      // act
+      const buffer: Uint8Array = tpl_2.toBuffer();
+
+      // assert
+      expect(Buffer.from(buffer).toString("hex")).to.be.equal(
+        "80" + "00ff" + "0000000000000080",
+      );
+    });
+  });
+
+  describe("getHash()", () => {
+    it("should hash the buffer with a hash function or its' name", () => {
+      const template = new Template([
+        { type: "uint32", data: new Uint8Array([0, 0, 0, 1]) },
+        { type: "varbytes", data: Buffer.from("abc") },
+      ]);
+
+      const expected = Buffer.from(sha256d(template.toBuffer())).toString(
+        "hex",
+      );
+      expect(Buffer.from(template.getHash("sha256d")).toString("hex")).to.equal(
+        expected,
+      );
+      expect(Buffer.from(template.getHash(sha256d)).toString("hex")).to.equal(
+        expected,
+      );
+      expect(() => template.getHash("unknown")).to.throw(RangeError);
+    });
+  });
+
+  describe("getSchema()", () => {
+    it("should return the types, lengths and byte orders of fields", () => {
+      // prepare
+      const tpl_2 = new Template([
+        { type: "uint32", data: new Uint8Array([0, 0, 0, 1]) },
+        { type: "buffer", data: new Uint8Array(32) },
+        { type: "uint16", data: new Uint8Array([1, 2]), littleEndian: false },
+      ]);
+
+      // assert
+      expect(tpl_2.getSchema()).to.be.deep.equal([
+        { type: "uint32" },
+        { type: "buffer", length: 32 },
+        { type: "uint16", littleEndian: false },
+      ]);
+    });
+  });
+
+  describe("fromBuffer()", () => {
+    it("should read fields using a schema", () => {
+      // prepare
+      const reader = new Reader(
+        Buffer.from(
+          "01" + "0302" + "0102" + "fd0001" + "03aabbcc" + "ff",
+          "hex",
+        ),
+      );
+
+      // act
+      const tpl_2 = Template.fromBuffer(reader, [
+        { type: "uint8" },
+        { type: "uint16" },
+        { type: "uint16", littleEndian: false },
+        { type: "varint" },
+        { type: "varbytes" },
+        { type: "int8" },
+      ]);
+
+      // assert
+      expect(reader.offset).to.be.equal(13);
+      expect(
+        tpl_2.fields.map((f) => Buffer.from(f.data).toString("hex")),
+      ).to.be.deep.equal(["01", "0203", "0102", "0100", "aabbcc", "ff"]);
+      expect(tpl_2.fields[2].littleEndian).to.be.false;
+    });
+
+    it("should round-trip a block header layout", () => {
+      // prepare
+      const header = Buffer.from(
+        "01000000" + // version
+          "00".repeat(32) + // previous block hash
+          "3ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a" + // merkle root
+          "29ab5f49" + // time
+          "ffff001d" + // bits
+          "1dac2b7c", // nonce
+        "hex",
+      );
+      const schema = [
+        { type: "uint32" as const },
+        { type: "buffer" as const, length: 32 },
+        { type: "buffer" as const, length: 32 },
+        { type: "uint32" as const },
+        { type: "uint32" as const },
+        { type: "uint32" as const },
+      ];
+
+      // act
+      const tpl_2 = Template.fromBuffer(new Reader(header), schema);
+
+      // assert
+      expect(tpl_2.byteLength).to.be.equal(80);
+      expect(tpl_2.getSchema()).to.be.deep.equal(schema);
+      expect(Buffer.from(tpl_2.toBuffer())).to.be.deep.equal(header);
+    });
+
+    it("should round-trip integer fields of all types", () => {
+      // prepare
+      const tpl_2 = new Template([
+        { type: "uint8", data: new Uint8Array([0xff]) },
+        { type: "uint16", data: new Uint8Array([0xff, 0xfe]) },
+        { type: "uint32", data: new Uint8Array([0x80, 0, 0, 1]) },
+        { type: "uint64", data: new Uint8Array([0xff, 0, 0, 0, 0, 0, 0, 1]) },
+        { type: "int32", data: new Uint8Array([0xff, 0xff, 0xff, 0xfd]) },
+        { type: "int64", data: new Uint8Array(8).fill(0xff) },
+        { type: "uint128", data: new Uint8Array(16).fill(0xab) },
+        {
+          type: "int256",
+          data: new Uint8Array(32).fill(0xcd),
+          littleEndian: false,
+        },
+        { type: "varint", data: new Uint8Array([1, 0, 0, 0, 0]) },
+      ]);
+      const buffer = Buffer.from(tpl_2.toBuffer());
+
+      // act
+      const tpl_3 = Template.fromBuffer(new Reader(buffer), tpl_2.getSchema());
+
+      // assert
+      expect(tpl_3.fields).to.be.deep.equal(tpl_2.fields);
+      expect(Buffer.from(tpl_3.toBuffer())).to.be.deep.equal(buffer);
+    });
+
+    it("should throw RangeError given buffer field without length", () => {
+      expect(() =>
+        Template.fromBuffer(new Reader(Buffer.alloc(4)), [{ type: "buffer" }]),
+      ).to.throw(RangeError);
+    });
+
+    it("should throw BufferUnderflowError given insufficient bytes", () => {
+      expect(() =>
+        Template.fromBuffer(new Reader(Buffer.alloc(3)), [{ type: "uint32" }]),
+      ).to.throw(BufferUnderflowError);
+    });
   });
 });
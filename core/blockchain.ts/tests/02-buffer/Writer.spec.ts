@@ -13,6 +13,8 @@ import { expect } from "chai";
 
 // internal dependencies
 import { Writer } from "../../src/buffer/Writer";
+import { BufferOverflowError } from "../../src/errors/BufferOverflowError";
+import { IntegerOverflowError } from "../../src/errors/IntegerOverflowError";
 
 describe("Writer", () => {
   describe("constructor()", () => {
@@ -31,6 +33,14 @@ describe("Writer", () => {
       expect(writer_1.offset).to.be.equal(1);
     });
 
+    it("should use little-endian byte order by default", () => {
+      const writer_0 = new Writer(Buffer.from("00", "hex")),
+        writer_1 = new Writer(Buffer.from("00", "hex"), 0, false);
+
+      expect(writer_0.littleEndian).to.be.true;
+      expect(writer_1.littleEndian).to.be.false;
+    });
+
     it("should use correct buffer size", () => {
       const writer_0 = new Writer(Buffer.from("00010203", "hex")),
         writer_1 = new Writer(Buffer.from("000102", "hex"));
@@ -266,4 +276,499 @@ describe("Writer", () => {
       expect(writer.buffer.subarray(0, 2).toString("hex")).to.be.equal("0304");
     });
   });
+
+  describe("getVarIntSize()", () => {
+    it("should return correct size of variable-length integers", () => {
+      expect(Writer.getVarIntSize(0)).to.be.equal(1);
+      expect(Writer.getVarIntSize(252)).to.be.equal(1);
+      expect(Writer.getVarIntSize(253)).to.be.equal(3);
+      expect(Writer.getVarIntSize(65_535)).to.be.equal(3);
+      expect(Writer.getVarIntSize(65_536)).to.be.equal(5);
+      expect(Writer.getVarIntSize(4_294_967_295)).to.be.equal(5);
+      expect(Writer.getVarIntSize(4_294_967_296n)).to.be.equal(9);
+    });
+  });
+
+  describe("writeVarInt()", () => {
+    let writer: Writer;
+    beforeEach(() => {
+      writer = new Writer(Buffer.alloc(18));
+    });
+
+    it("should write one (1) byte for values below 0xFD", () => {
+      // act
+      writer.writeVarInt(0).writeVarInt(252);
+
+      // assert
+      expect(writer.offset).to.be.equal(2);
+      expect(writer.buffer.subarray(0, 2).toString("hex")).to.be.equal("00fc");
+    });
+
+    it("should write prefixed values of 16, 32 and 64 bits", () => {
+      // act
+      writer
+        .writeVarInt(253)
+        .writeVarInt(65_536)
+        .writeVarInt(18_446_744_073_709_551_615n);
+
+      // assert
+      expect(writer.offset).to.be.equal(3 + 5 + 9);
+      expect(writer.buffer.subarray(0, 17).toString("hex")).to.be.equal(
+        "fdfd00" + "fe00000100" + "ffffffffffffffffff",
+      );
+    });
+
+    it("should reject values that do not fit in 64 bits", () => {
+      expect(() => writer.writeVarInt(-1)).to.throw(RangeError);
+      expect(() => writer.writeVarInt(2n ** 64n)).to.throw(
+        IntegerOverflowError,
+      );
+    });
+  });
+
+  describe("writeVarBytes()", () => {
+    it("should write length-prefixed bytes", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(5));
+
+      // act
+      writer
+        .writeVarBytes(new Uint8Array([1, 2, 3]))
+        .writeVarBytes(new Uint8Array());
+
+      // assert
+      expect(writer.offset).to.be.equal(5);
+      expect(writer.buffer.toString("hex")).to.be.equal("0301020300");
+    });
+  });
+
+  describe("writeUleb128()", () => {
+    let writer: Writer;
+    beforeEach(() => {
+      writer = new Writer(Buffer.alloc(16));
+    });
+
+    it("should write unsigned LEB128 integers", () => {
+      // act
+      writer.writeUleb128(0).writeUleb128(128).writeUleb128(624_485n);
+
+      // assert
+      expect(writer.offset).to.be.equal(1 + 2 + 3);
+      expect(writer.buffer.subarray(0, 6).toString("hex")).to.be.equal(
+        "00" + "8001" + "e58e26",
+      );
+    });
+
+    it("should write unsigned LEB128 integers of up to 64 bits", () => {
+      // act
+      writer.writeUleb128(2n ** 64n - 1n);
+
+      // assert
+      expect(writer.offset).to.be.equal(10);
+      expect(writer.buffer.subarray(0, 10).toString("hex")).to.be.equal(
+        "ffffffffffffffffff01",
+      );
+    });
+
+    it("should reject values that do not fit in given bits", () => {
+      expect(() => writer.writeUleb128(-1)).to.throw(RangeError);
+      expect(() => writer.writeUleb128(2n ** 64n)).to.throw(
+        IntegerOverflowError,
+      );
+      expect(() => writer.writeUleb128(256, 8)).to.throw(IntegerOverflowError);
+    });
+  });
+
+  describe("writeSleb128()", () => {
+    let writer: Writer;
+    beforeEach(() => {
+      writer = new Writer(Buffer.alloc(16));
+    });
+
+    it("should write signed LEB128 integers", () => {
+      // act
+      writer
+        .writeSleb128(0)
+        .writeSleb128(-1)
+        .writeSleb128(63)
+        .writeSleb128(64)
+        .writeSleb128(-128)
+        .writeSleb128(-123_456n);
+
+      // assert
+      expect(writer.offset).to.be.equal(1 + 1 + 1 + 2 + 2 + 3);
+      expect(writer.buffer.subarray(0, 10).toString("hex")).to.be.equal(
+        "00" + "7f" + "3f" + "c000" + "807f" + "c0bb78",
+      );
+    });
+
+    it("should reject values that do not fit in given bits", () => {
+      expect(() => writer.writeSleb128(2n ** 63n)).to.throw(
+        IntegerOverflowError,
+      );
+      expect(() => writer.writeSleb128(-129, 8)).to.throw(IntegerOverflowError);
+    });
+  });
+
+  describe("writeZigZagLeb128()", () => {
+    it("should write zig-zag encoded integers", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(6));
+
+      // act
+      writer
+        .writeZigZagLeb128(0)
+        .writeZigZagLeb128(-1)
+        .writeZigZagLeb128(1)
+        .writeZigZagLeb128(-2)
+        .writeZigZagLeb128(-128n);
+
+      // assert
+      expect(writer.buffer.toString("hex")).to.be.equal("00010203" + "ff01");
+    });
+  });
+
+  describe("byte order", () => {
+    it("should write big-endian integers given constructor option", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(14), 0, false);
+
+      // act
+      writer
+        .writeUint16(0x0102)
+        .writeUint32(0x03040506)
+        .writeUint64(0x0708090a0b0c0d0en);
+
+      // assert
+      expect(writer.buffer.toString("hex")).to.be.equal(
+        "0102030405060708090a0b0c0d0e",
+      );
+    });
+
+    it("should write integers with byte order given per call", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(4));
+
+      // act
+      writer.writeUint16(0x0102, false).writeUint16(0x0102, true);
+
+      // assert
+      expect(writer.buffer.toString("hex")).to.be.equal("01020201");
+    });
+
+    it("should write integers with BE and LE variants", () => {
+      // prepare
+      const writer_be = new Writer(Buffer.alloc(14)),
+        writer_le = new Writer(Buffer.alloc(14), 0, false);
+
+      // act
+      writer_be
+        .writeUint16BE(0x0102)
+        .writeUint32BE(0x03040506)
+        .writeUint64BE(0x0708090a0b0c0d0en);
+      writer_le
+        .writeUint16LE(0x0201)
+        .writeUint32LE(0x06050403)
+        .writeUint64LE(0x0e0d0c0b0a090807n);
+
+      // assert
+      expect(writer_be.buffer.toString("hex")).to.be.equal(
+        "0102030405060708090a0b0c0d0e",
+      );
+      expect(writer_le.buffer.toString("hex")).to.be.equal(
+        "0102030405060708090a0b0c0d0e",
+      );
+    });
+
+    it("should always write variable-length integers as little-endian", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(3), 0, false);
+
+      // act
+      writer.writeVarInt(256);
+
+      // assert
+      expect(writer.buffer.toString("hex")).to.be.equal("fd0001");
+    });
+  });
+
+  describe("writeInt8() to writeInt64()", () => {
+    it("should write signed integers in two's complement notation", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(15));
+
+      // act
+      writer.writeInt8(-1).writeInt16(-2).writeInt32(-3).writeInt64(-4n);
+
+      // assert
+      expect(writer.offset).to.be.equal(1 + 2 + 4 + 8);
+      expect(writer.buffer.toString("hex")).to.be.equal(
+        "ff" + "feff" + "fdffffff" + "fcffffffffffffff",
+      );
+    });
+
+    it("should use byte order given per call", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(6));
+
+      // act
+      writer.writeInt16(-2, false).writeInt32(-3, false);
+
+      // assert
+      expect(writer.buffer.toString("hex")).to.be.equal("fffe" + "fffffffd");
+    });
+
+    it("should write the limits of signed integers", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(14));
+
+      // act
+      writer.writeInt8(-128).writeInt8(127).writeInt16(-32768);
+      writer.writeInt16(32767).writeInt32(-2147483648).writeInt32(2147483647);
+
+      // assert
+      expect(writer.buffer.toString("hex")).to.be.equal(
+        "807f" + "0080ff7f" + "00000080ffffff7f",
+      );
+    });
+
+    it("should throw IntegerOverflowError given values out of range", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(8));
+
+      // assert
+      expect(() => writer.writeInt8(128)).to.throw(IntegerOverflowError);
+      expect(() => writer.writeInt8(-129)).to.throw(IntegerOverflowError);
+      expect(() => writer.writeInt16(32768)).to.throw(IntegerOverflowError);
+      expect(() => writer.writeInt32(-2147483649)).to.throw(
+        IntegerOverflowError,
+      );
+      expect(() => writer.writeInt32(1.5)).to.throw(IntegerOverflowError);
+      expect(() => writer.writeInt64(1n << 63n)).to.throw(IntegerOverflowError);
+      expect(writer.offset).to.be.equal(0);
+    });
+  });
+
+  describe("writeUint128() and writeUint256()", () => {
+    it("should write wide unsigned integers", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(48));
+
+      // act
+      writer.writeUint128((1n << 127n) + 1n).writeUint256(2n ** 256n - 1n);
+
+      // assert
+      expect(writer.offset).to.be.equal(16 + 32);
+      expect(writer.buffer.toString("hex")).to.be.equal(
+        "01" + "00".repeat(14) + "80" + "ff".repeat(32),
+      );
+    });
+
+    it("should write wide big-endian unsigned integers", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(48), 0, false);
+
+      // act
+      writer.writeUint128((1n << 120n) + 128n).writeUint256(42n);
+
+      // assert
+      expect(writer.buffer.toString("hex")).to.be.equal(
+        "01" + "00".repeat(14) + "80" + "00".repeat(31) + "2a",
+      );
+    });
+
+    it("should reject values that do not fit", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(32));
+
+      // act & assert
+      expect(() => writer.writeUint128(-1n)).to.throw(RangeError);
+      expect(() => writer.writeUint128(2n ** 128n)).to.throw(
+        IntegerOverflowError,
+      );
+      expect(() => writer.writeUint256(2n ** 256n)).to.throw(
+        IntegerOverflowError,
+      );
+    });
+  });
+
+  describe("writeInt128() and writeInt256()", () => {
+    it("should write wide signed integers", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(48));
+
+      // act
+      writer.writeInt128(-2n).writeInt256(-(2n ** 255n));
+
+      // assert
+      expect(writer.buffer.toString("hex")).to.be.equal(
+        "fe" + "ff".repeat(15) + "00".repeat(31) + "80",
+      );
+    });
+
+    it("should reject values that do not fit", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(32));
+
+      // act & assert
+      expect(() => writer.writeInt128(2n ** 127n)).to.throw(
+        IntegerOverflowError,
+      );
+      expect(() => writer.writeInt256(-(2n ** 255n) - 1n)).to.throw(
+        IntegerOverflowError,
+      );
+    });
+  });
+
+  describe("strict mode", () => {
+    it("should be enabled by default", () => {
+      const writer_0 = new Writer(Buffer.alloc(1)),
+        writer_1 = new Writer(Buffer.alloc(1), 0, true, false);
+
+      expect(writer_0.strict).to.be.true;
+      expect(writer_1.strict).to.be.false;
+    });
+
+    it("should throw when writing past the end of the buffer", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(2));
+
+      // act & assert
+      expect(() => writer.writeUint32(1)).to.throw(BufferOverflowError);
+      expect(writer.offset).to.be.equal(0); // unchanged
+      expect(() => writer.writeBuffer(new Uint8Array(3))).to.throw(
+        BufferOverflowError,
+      );
+      writer.writeUint16(1);
+      expect(() => writer.writeUint8(1)).to.throw(BufferOverflowError);
+    });
+
+    it("should include offset, requested and available bytes", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(3), 1);
+
+      // act
+      let error: BufferOverflowError | undefined;
+      try {
+        writer.writeUint64(1n);
+      } catch (e) {
+        error = e as BufferOverflowError;
+      }
+
+      // assert
+      expect(error).to.be.instanceOf(RangeError);
+      expect(error?.offset).to.be.equal(1);
+      expect(error?.requested).to.be.equal(8);
+      expect(error?.available).to.be.equal(2);
+    });
+
+    it("should drop bytes past the end given non-strict", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(2), 0, true, false);
+
+      // act
+      writer.writeBuffer(new Uint8Array([1, 2, 3])).writeUint8(4);
+
+      // assert
+      expect(writer.offset).to.be.equal(4);
+      expect(writer.buffer.toString("hex")).to.be.equal("0102");
+    });
+
+    it("should drop integer bytes past the end given non-strict", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(3), 0, false, false);
+
+      // act
+      writer.writeUint16(0x0102).writeUint32(0x03040506);
+      writer.writeUint64(1n).writeUint256(1n);
+
+      // assert
+      expect(writer.offset).to.be.equal(46);
+      expect(writer.buffer.toString("hex")).to.be.equal("010203");
+    });
+  });
+
+  describe("createGrowable()", () => {
+    it("should create a growable writer", () => {
+      const writer_0 = Writer.createGrowable(),
+        writer_1 = Writer.createGrowable(4, false);
+
+      expect(writer_0.growable).to.be.true;
+      expect(writer_0.size).to.be.equal(Writer.DEFAULT_CAPACITY);
+      expect(writer_1.size).to.be.equal(4);
+      expect(writer_1.littleEndian).to.be.false;
+    });
+
+    it("should not be growable by default", () => {
+      const writer = new Writer(Buffer.alloc(1));
+
+      expect(writer.growable).to.be.false;
+    });
+
+    it("should grow buffer by doubling its size", () => {
+      // prepare
+      const writer = Writer.createGrowable(4);
+
+      // act
+      writer.writeUint32(1);
+      writer.writeUint8(2);
+
+      // assert
+      expect(writer.offset).to.be.equal(5);
+      expect(writer.size).to.be.equal(8);
+    });
+
+    it("should grow buffer to fit big writes", () => {
+      // prepare
+      const writer = Writer.createGrowable(4);
+
+      // act
+      writer.writeBuffer(new Uint8Array(100));
+
+      // assert
+      expect(writer.offset).to.be.equal(100);
+      expect(writer.size).to.be.equal(100);
+    });
+
+    it("should keep previously written bytes", () => {
+      // prepare
+      const writer = Writer.createGrowable(1);
+
+      // act
+      writer.writeUint8(1).writeUint16(0x0302).writeUint32(0x07060504);
+
+      // assert
+      expect(Buffer.from(writer.finish()).toString("hex")).to.be.equal(
+        "01020304050607",
+      );
+    });
+  });
+
+  describe("finish()", () => {
+    it("should return written bytes only", () => {
+      // prepare
+      const writer = Writer.createGrowable();
+
+      // act
+      const buffer = writer
+        .writeUint16(1)
+        .writeVarBytes(new Uint8Array([2]))
+        .finish();
+
+      // assert
+      expect(buffer.byteLength).to.be.equal(2 + 2);
+      expect(Buffer.from(buffer).toString("hex")).to.be.equal("01000102");
+    });
+
+    it("should return written bytes of fixed-size writers", () => {
+      // prepare
+      const writer = new Writer(Buffer.alloc(4));
+
+      // act
+      const buffer = writer.writeUint8(1).finish();
+
+      // assert
+      expect(buffer.byteLength).to.be.equal(1);
+    });
+  });
 });
@@ -12,8 +12,14 @@
 import { expect } from "chai";
 
 // internal dependencies
+import { Reader } from "../../src/buffer/Reader";
+import { Writer } from "../../src/buffer/Writer";
+import { InvalidEncodingError } from "../../src/errors/InvalidEncodingError";
+import { Hashes } from "../../src/hashes/Hashes";
 import { MerkleTree } from "../../src/struct/MerkleTree";
 
+const { sha256, sha256d } = Hashes;
+
 // this non-hash-function reduces the buffer size
 // by half, knowing that the MerkleTree class
 // concatenates pairs of hashes before using it.
@@ -56,27 +62,30 @@ describe("MerkleTree", () => {
       expect(tree.hashes.length).to.be.equal(4);
     });
 
-    it("should add a leaf for odd arrays of hashes", () => {
+    it("should not modify odd arrays of hashes", () => {
       // prepare
       const hash =
         "000102030405060708090A0B0C0D0E0F" + "000102030405060708090A0B0C0D0E0F"; // 32 bytes
+      const hashes = [
+        Uint8Array.from(Buffer.from(hash, "hex")),
+        Uint8Array.from(Buffer.from(hash, "hex")),
+        Uint8Array.from(Buffer.from(hash, "hex")),
+      ];
 
       // act
       const tree = new MerkleTree(
-        [
-          Uint8Array.from(Buffer.from(hash, "hex")),
-          Uint8Array.from(Buffer.from(hash, "hex")),
-          Uint8Array.from(Buffer.from(hash, "hex")),
-        ],
+        hashes,
         fakeHashFunction, // fake hash function
       );
 
       // assert
+      expect(hashes.length).to.be.equal(3);
       expect(tree.hashes).to.not.be.undefined;
-      expect(tree.hashes.length).to.be.equal(4);
+      expect(tree.hashes.length).to.be.equal(3);
+      expect(tree.hashes).to.not.equal(hashes);
     });
 
-    it("should clone last leaf for odd arrays of hashes", () => {
+    it("should pair last leaf with itself for odd arrays of hashes", () => {
       // prepare
       const hash =
         "000102030405060708090A0B0C0D0E0F" + "000102030405060708090A0B0C0D0E0F"; // 32 bytes
@@ -94,11 +103,22 @@ describe("MerkleTree", () => {
       );
 
       // assert
-      expect(tree.hashes).to.not.be.undefined;
-      expect(tree.hashes.length).to.be.equal(4);
+      const layers = tree.getLayers();
+      expect(layers.map((l) => l.length)).to.deep.equal([3, 2, 1]);
       expect(
-        Buffer.from(tree.hashes[3]).toString("hex").toUpperCase(),
-      ).to.be.equal(hash_test);
+        Buffer.from(layers[1][1]).toString("hex").toUpperCase(),
+      ).to.be.equal(
+        Buffer.from(
+          fakeHashFunction(
+            Buffer.concat([
+              Buffer.from(hash_test, "hex"),
+              Buffer.from(hash_test, "hex"),
+            ]),
+          ),
+        )
+          .toString("hex")
+          .toUpperCase(),
+      );
     });
 
     it("should accept optional hashSize and use if empty", () => {
@@ -144,8 +164,9 @@ describe("MerkleTree", () => {
 
     it("should use hash function to create a merkle root leaf", () => {
       // prepare
+      // two levels of sums of four hashes: (01 + 01) + (01 + 01) = 04
       const resultHash =
-        "000306090C0F1215181B1E2124272A2D000306090C0F1215181B1E2124272A2D";
+        "0004080C1014181C2024282C3034383C0004080C1014181C2024282C3034383C";
 
       // act
       const merkleRoot = tree.getRoot();
@@ -183,7 +204,7 @@ describe("MerkleTree", () => {
       ).to.be.equal(resultHash);
     });
 
-    it("should run four (4) rounds given five (5) hashes", () => {
+    it("should pair the last hash of odd levels given five (5) hashes", () => {
       // prepare
       const inputHash1 =
         "000102030405060708090A0B0C0D0E0F000102030405060708090A0B0C0D0E0F";
@@ -196,10 +217,11 @@ describe("MerkleTree", () => {
       const inputHash5 =
         "000102030405060708090A0B0C0D0E0F000102030405060708090A0B0C0D0E0F";
 
-      // result for one round is simply a sum done byte-by-byte
-      // e.g. when running four rounds we have: 01 + 01 + 01 + 01 + 01 = 05
+      // result for one round is simply a sum done byte-by-byte, and
+      // the last hash of levels with an odd number of hashes is paired
+      // with itself: 5 (+1) leaves, 3 (+1) and 2 nodes, i.e. 01 * 8 = 08
       const resultHash =
-        "00050A0F14191E23282D32373C41464B00050A0F14191E23282D32373C41464B";
+        "0008101820283038404850586068707800081018202830384048505860687078";
 
       // act
       const new_tree = new MerkleTree(
@@ -219,4 +241,571 @@ describe("MerkleTree", () => {
       ).to.be.equal(resultHash);
     });
   });
+
+  describe("hash functions by name", () => {
+    const hashes = [1, 2, 3, 4].map((i) => new Uint8Array(32).fill(i));
+
+    it("should resolve hash functions of the registry", () => {
+      const byName = new MerkleTree(hashes.slice(), "sha256d");
+      const byFunction = new MerkleTree(hashes.slice(), sha256d);
+
+      expect(Buffer.from(byName.getRoot()).toString("hex")).to.equal(
+        Buffer.from(byFunction.getRoot()).toString("hex"),
+      );
+    });
+
+    it("should throw RangeError given unknown hash functions", () => {
+      expect(() => new MerkleTree(hashes.slice(), "sha1024")).to.throw(
+        RangeError,
+      );
+    });
+  });
+
+  describe("getProof() and verify()", () => {
+    // transactions of bitcoin block 100000, in internal byte order
+    const txids = [
+      "8c14f0db3df150123e6f3dbbf30f8b955a8249b62ac1d1ff16284aefa3d06d87",
+      "fff2525b8931402dd09222c50775608f75787bd2b87e56995a7bdd30f79702c4",
+      "6359f0868171b1d194cbee1af2f16ea598ae8fad666d9b012c8ed2b79a236ec4",
+      "e9a66845e05d5abc0ad04ec80f774a7e585c6e8db975962d069a522137b80c1d",
+    ].map((h) => Buffer.from(h, "hex").reverse());
+    const merkleRoot = Buffer.from(
+      "f3e94742aca4b5ef85488dc37c06c3282295ffec960994b2c0d5ac2a25a95766",
+      "hex",
+    ).reverse();
+
+    it("should compute the merkle root of a bitcoin block", () => {
+      const tree = new MerkleTree(txids.slice(), "sha256d");
+      expect(Buffer.from(tree.getRoot()).equals(merkleRoot)).to.equal(true);
+    });
+
+    it("should produce proofs that verify for every leaf", () => {
+      const tree = new MerkleTree(txids.slice(), "sha256d");
+      txids.forEach((txid, i) => {
+        const proof = tree.getProof(i);
+        expect(proof).to.have.length(2);
+        expect(MerkleTree.verify(txid, proof, merkleRoot, sha256d)).to.equal(
+          true,
+        );
+      });
+
+      expect(tree.getProof(2).map((n) => n.position)).to.deep.equal([
+        "right",
+        "left",
+      ]);
+    });
+
+    it("should find leaves by hash", () => {
+      const tree = new MerkleTree(txids.slice(), "sha256d");
+      const proof = tree.getProof(txids[3]);
+      expect(Buffer.from(proof[0].hash).equals(txids[2])).to.equal(true);
+      expect(proof[0].position).to.equal("left");
+    });
+
+    it("should pair the last hash of odd levels with itself", () => {
+      const leaves = [1, 2, 3, 4, 5].map((i) => new Uint8Array(32).fill(i));
+      const tree = new MerkleTree(leaves.slice(), "sha256d");
+      const proof = tree.getProof(4);
+
+      expect(proof).to.have.length(3);
+      expect(Buffer.from(proof[0].hash).equals(leaves[4])).to.equal(true);
+      expect(
+        MerkleTree.verify(leaves[4], proof, tree.getRoot(), "sha256d"),
+      ).to.equal(true);
+    });
+
+    it("should reject proofs of other leaves or roots", () => {
+      const tree = new MerkleTree(txids.slice(), "sha256d");
+      const proof = tree.getProof(0);
+      expect(
+        MerkleTree.verify(txids[1], proof, merkleRoot, "sha256d"),
+      ).to.equal(false);
+      expect(
+        MerkleTree.verify(txids[0], proof, new Uint8Array(32), "sha256d"),
+      ).to.equal(false);
+    });
+
+    it("should throw RangeError given unknown leaves", () => {
+      const tree = new MerkleTree(txids.slice(), "sha256d");
+      expect(() => tree.getProof(4)).to.throw(RangeError);
+      expect(() => tree.getProof(-1)).to.throw(RangeError);
+      expect(() => tree.getProof(new Uint8Array(32))).to.throw(RangeError);
+    });
+  });
+
+  describe("strategies", () => {
+    const leaves = [1, 2, 3, 4, 5].map((i) => new Uint8Array(32).fill(i));
+    const pair = (a: Uint8Array, b: Uint8Array) =>
+      sha256d(Buffer.concat([a, b]));
+    const h01 = pair(leaves[0], leaves[1]);
+    const h23 = pair(leaves[2], leaves[3]);
+
+    it("should default to duplicate the last hash of odd levels", () => {
+      const tree = new MerkleTree(leaves.slice(), "sha256d");
+      const h44 = pair(leaves[4], leaves[4]);
+      const expected = pair(pair(h01, h23), pair(h44, h44));
+      expect(Buffer.from(tree.getRoot()).equals(expected)).to.equal(true);
+    });
+
+    it("should promote the last hash of odd levels (RFC 6962)", () => {
+      const tree = new MerkleTree(leaves.slice(), "sha256d", 32, {
+        strategy: "promote",
+      });
+      const expected = pair(pair(h01, h23), leaves[4]);
+      expect(Buffer.from(tree.getRoot()).equals(expected)).to.equal(true);
+      expect(tree.hashes).to.have.length(5);
+    });
+
+    it("should sort pairs of hashes before hashing", () => {
+      const reversed = leaves.slice(0, 4).reverse();
+      const tree = new MerkleTree(reversed, "sha256d", 32, {
+        strategy: "sorted",
+      });
+      const expected = pair(h01, h23);
+      expect(Buffer.from(tree.getRoot()).equals(expected)).to.equal(true);
+    });
+
+    it("should pad leaves with zero hashes to a power of two", () => {
+      const tree = new MerkleTree(leaves.slice(), "sha256d", 32, {
+        strategy: "pad",
+      });
+      const zero = new Uint8Array(32);
+      const zz = pair(zero, zero);
+      const expected = pair(pair(h01, h23), pair(pair(leaves[4], zero), zz));
+      expect(Buffer.from(tree.getRoot()).equals(expected)).to.equal(true);
+      expect(tree.hashes).to.have.length(5);
+    });
+
+    (["duplicate", "promote", "sorted", "pad"] as const).forEach((strategy) => {
+      it(`should produce proofs that verify with ${strategy} strategy`, () => {
+        for (let count = 1; count <= 9; count++) {
+          const hashes = Array.from({ length: count }, (_, i) =>
+            sha256d(new Uint8Array([i])),
+          );
+          const tree = new MerkleTree(hashes.slice(), "sha256d", 32, {
+            strategy,
+          });
+          hashes.forEach((hash, i) => {
+            expect(
+              MerkleTree.verify(
+                hash,
+                tree.getProof(i),
+                tree.getRoot(),
+                "sha256d",
+              ),
+            ).to.equal(true);
+          });
+        }
+      });
+    });
+
+    it("should omit siblings of promoted hashes from proofs", () => {
+      const tree = new MerkleTree(leaves.slice(), "sha256d", 32, {
+        strategy: "promote",
+      });
+      const proof = tree.getProof(4);
+      expect(proof).to.have.length(1);
+      expect(proof[0].position).to.equal("left");
+      expect(Buffer.from(proof[0].hash).equals(pair(h01, h23))).to.equal(true);
+    });
+  });
+
+  describe("domain separation", () => {
+    // test vectors of the certificate-transparency project (RFC 6962)
+    const entries = [
+      "",
+      "00",
+      "10",
+      "2021",
+      "3031",
+      "40414243",
+      "5051525354555657",
+      "606162636465666768696a6b6c6d6e6f",
+    ].map((h) => Buffer.from(h, "hex"));
+    const roots = [
+      "6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d",
+      "fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125",
+      "aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77",
+      "d37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7",
+      "4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4",
+      "76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef",
+      "ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c",
+      "5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328",
+    ];
+    const options = { strategy: "promote", prefixes: true } as const;
+
+    it("should compute RFC 6962 merkle tree hashes with prefixes", () => {
+      roots.forEach((root, i) => {
+        const tree = new MerkleTree(
+          entries.slice(0, i + 1),
+          sha256,
+          32,
+          options,
+        );
+        expect(Buffer.from(tree.getRoot()).toString("hex")).to.equal(root);
+      });
+    });
+
+    it("should verify proofs of leaves with prefixes", () => {
+      const tree = new MerkleTree(entries.slice(0, 7), sha256, 32, options);
+      entries.slice(0, 7).forEach((entry, i) => {
+        const proof = tree.getProof(i);
+        expect(
+          MerkleTree.verify(entry, proof, tree.getRoot(), sha256, options),
+        ).to.equal(true);
+        expect(
+          MerkleTree.verify(entry, proof, tree.getRoot(), sha256),
+        ).to.equal(false);
+      });
+    });
+
+    it("should not accept inner nodes as leaves with prefixes", () => {
+      const leaves = [1, 2, 3, 4].map((i) => new Uint8Array(32).fill(i));
+      const inner = [
+        sha256(Buffer.concat([leaves[0], leaves[1]])),
+        sha256(Buffer.concat([leaves[2], leaves[3]])),
+      ];
+
+      // without prefixes, the inner nodes are a second preimage
+      expect(
+        Buffer.from(new MerkleTree(inner, sha256).getRoot()).equals(
+          new MerkleTree(leaves.slice(), sha256).getRoot(),
+        ),
+      ).to.equal(true);
+      expect(
+        Buffer.from(
+          new MerkleTree(inner, sha256, 32, { prefixes: true }).getRoot(),
+        ).equals(
+          new MerkleTree(leaves.slice(), sha256, 32, {
+            prefixes: true,
+          }).getRoot(),
+        ),
+      ).to.equal(false);
+    });
+
+    it("should compute tagged hashes of leaves and nodes", () => {
+      const tags = { leaf: "TapLeaf", node: "TapBranch" };
+      const tagged = (tag: string, data: Uint8Array) => {
+        const t = sha256(Buffer.from(tag));
+        return sha256(Buffer.concat([t, t, data]));
+      };
+
+      const leaves = [1, 2].map((i) => new Uint8Array(32).fill(i));
+      const tree = new MerkleTree(leaves.slice(), sha256, 32, { tags });
+      const expected = tagged(
+        "TapBranch",
+        Buffer.concat([
+          tagged("TapLeaf", leaves[0]),
+          tagged("TapLeaf", leaves[1]),
+        ]),
+      );
+      expect(Buffer.from(tree.getRoot()).equals(expected)).to.equal(true);
+      expect(
+        MerkleTree.verify(leaves[1], tree.getProof(1), expected, sha256, {
+          tags,
+        }),
+      ).to.equal(true);
+    });
+
+    it("should throw RangeError given both prefixes and tags", () => {
+      expect(
+        () =>
+          new MerkleTree([], sha256, 32, {
+            prefixes: true,
+            tags: { leaf: "a", node: "b" },
+          }),
+      ).to.throw(RangeError);
+    });
+  });
+
+  describe("detectMutation()", () => {
+    const leaves = [1, 2, 3, 4, 5, 6].map((i) => new Uint8Array(32).fill(i));
+
+    it("should not flag trees of odd numbers of hashes", () => {
+      expect(
+        new MerkleTree(leaves.slice(0, 3), "sha256d").detectMutation(),
+      ).to.equal(false);
+      expect(
+        new MerkleTree(leaves.slice(), "sha256d").detectMutation(),
+      ).to.equal(false);
+    });
+
+    it("should flag duplicated last hashes (CVE-2012-2459)", () => {
+      const original = new MerkleTree(leaves.slice(0, 3), "sha256d");
+      const mutated = new MerkleTree(
+        [leaves[0], leaves[1], leaves[2], leaves[2]],
+        "sha256d",
+      );
+
+      expect(
+        Buffer.from(mutated.getRoot()).equals(original.getRoot()),
+      ).to.equal(true);
+      expect(mutated.detectMutation()).to.equal(true);
+    });
+
+    it("should flag duplicated subtrees of inner levels", () => {
+      const original = new MerkleTree(leaves.slice(), "sha256d");
+      const mutated = new MerkleTree(
+        [...leaves, leaves[4], leaves[5]],
+        "sha256d",
+      );
+
+      expect(
+        Buffer.from(mutated.getRoot()).equals(original.getRoot()),
+      ).to.equal(true);
+      expect(mutated.detectMutation()).to.equal(true);
+    });
+
+    it("should not flag trees of other strategies", () => {
+      const tree = new MerkleTree([leaves[0], leaves[0]], "sha256d", 32, {
+        strategy: "promote",
+      });
+      expect(tree.detectMutation()).to.equal(false);
+    });
+  });
+
+  describe("updateLeaf() and append()", () => {
+    const leaves = [1, 2, 3, 4, 5, 6, 7, 8, 9].map((i) =>
+      new Uint8Array(32).fill(i),
+    );
+    const strategies = ["duplicate", "promote", "sorted", "pad"] as const;
+
+    it("should return leaves and layers", () => {
+      const tree = new MerkleTree(leaves.slice(0, 5), "sha256d");
+      expect(tree.getLeaf(4)).to.equal(leaves[4]);
+      expect(tree.getLayers().map((l) => l.length)).to.deep.equal([5, 3, 2, 1]);
+      expect(tree.getLayers()[3][0]).to.equal(tree.getRoot());
+      expect(() => tree.getLeaf(5)).to.throw(RangeError);
+    });
+
+    strategies.forEach((strategy) => {
+      it(`should update leaves with ${strategy} strategy`, () => {
+        const tree = new MerkleTree(leaves.slice(0, 7), "sha256d", 32, {
+          strategy,
+        });
+        const hash = new Uint8Array(32).fill(0xff);
+        const root = tree.updateLeaf(6, hash);
+
+        const expected = new MerkleTree(
+          [...leaves.slice(0, 6), hash],
+          "sha256d",
+          32,
+          { strategy },
+        );
+        expect(Buffer.from(root).equals(expected.getRoot())).to.equal(true);
+        expect(tree.merkleRoot).to.equal(root);
+        expect(tree.getLeaf(6)).to.equal(hash);
+        expect(tree.getLayers()).to.deep.equal(expected.getLayers());
+      });
+
+      it(`should append leaves with ${strategy} strategy`, () => {
+        const tree = new MerkleTree([], "sha256d", 32, { strategy });
+        leaves.forEach((leaf, i) => {
+          const root = tree.append(leaf);
+          const expected = new MerkleTree(
+            leaves.slice(0, i + 1),
+            "sha256d",
+            32,
+            {
+              strategy,
+            },
+          );
+          expect(Buffer.from(root).equals(expected.getRoot())).to.equal(true);
+          expect(tree.getLayers()).to.deep.equal(expected.getLayers());
+        });
+      });
+    });
+
+    it("should recompute one hash per level", () => {
+      let calls = 0;
+      const counter = (data: Uint8Array) => {
+        calls++;
+        return sha256d(data);
+      };
+      const tree = new MerkleTree(leaves.slice(0, 8), counter);
+
+      calls = 0;
+      tree.updateLeaf(3, new Uint8Array(32));
+      expect(calls).to.equal(3);
+
+      calls = 0;
+      tree.append(new Uint8Array(32));
+      expect(calls).to.equal(4);
+    });
+
+    it("should not modify arrays of hashes", () => {
+      const hashes = leaves.slice(0, 4);
+      const tree = new MerkleTree(hashes, "sha256d");
+      tree.updateLeaf(0, leaves[8]);
+      tree.append(leaves[8]);
+
+      expect(hashes).to.deep.equal(leaves.slice(0, 4));
+      expect(tree.hashes).to.have.length(5);
+    });
+
+    it("should throw RangeError given unknown leaves", () => {
+      const tree = new MerkleTree(leaves.slice(0, 4), "sha256d");
+      expect(() => tree.updateLeaf(4, leaves[4])).to.throw(RangeError);
+      expect(() => tree.updateLeaf(-1, leaves[4])).to.throw(RangeError);
+    });
+  });
+
+  describe("getMultiProof() and verifyMultiProof()", () => {
+    const leaves = [1, 2, 3, 4, 5, 6, 7, 8].map((i) =>
+      new Uint8Array(32).fill(i),
+    );
+    const tree = new MerkleTree(leaves.slice(), "sha256d");
+
+    it("should omit siblings that are computed from leaves", () => {
+      const proof = tree.getMultiProof([0, 1, 2, 3]);
+      expect(proof.indices).to.deep.equal([0, 1, 2, 3]);
+      expect(proof.leafCount).to.equal(8);
+      expect(proof.hashes).to.deep.equal([tree.getLayers()[2][1]]);
+      expect(
+        MerkleTree.verifyMultiProof(
+          leaves.slice(0, 4),
+          proof,
+          tree.getRoot(),
+          "sha256d",
+        ),
+      ).to.equal(true);
+    });
+
+    it("should include shared siblings once", () => {
+      const proof = tree.getMultiProof([7, 0]);
+      expect(proof.indices).to.deep.equal([0, 7]);
+      expect(proof.hashes).to.have.length(4);
+      expect(
+        tree.getProof(0).length + tree.getProof(7).length,
+      ).to.be.greaterThan(proof.hashes.length);
+      expect(
+        MerkleTree.verifyMultiProof(
+          [leaves[0], leaves[7]],
+          proof,
+          tree.getRoot(),
+          "sha256d",
+        ),
+      ).to.equal(true);
+    });
+
+    it("should find leaves by hash and ignore duplicates", () => {
+      const proof = tree.getMultiProof([leaves[5], 2, 5]);
+      expect(proof.indices).to.deep.equal([2, 5]);
+      expect(proof).to.deep.equal(tree.getMultiProof([2, 5]));
+    });
+
+    (["duplicate", "promote", "sorted", "pad"] as const).forEach((strategy) => {
+      it(`should produce multiproofs that verify with ${strategy} strategy`, () => {
+        const options = { strategy, prefixes: true };
+        for (let count = 1; count <= 7; count++) {
+          const t = new MerkleTree(
+            leaves.slice(0, count),
+            "sha256d",
+            32,
+            options,
+          );
+          for (let mask = 1; mask < 1 << count; mask++) {
+            const indices = [...Array(count).keys()].filter(
+              (i) => mask & (1 << i),
+            );
+            const proof = t.getMultiProof(indices);
+            expect(
+              MerkleTree.verifyMultiProof(
+                indices.map((i) => leaves[i]),
+                proof,
+                t.getRoot(),
+                "sha256d",
+                options,
+              ),
+            ).to.equal(true);
+          }
+        }
+      });
+    });
+
+    it("should reject invalid multiproofs", () => {
+      const proof = tree.getMultiProof([1, 4]);
+      const root = tree.getRoot();
+      const verify = (l: Uint8Array[], p = proof) =>
+        MerkleTree.verifyMultiProof(l, p, root, "sha256d");
+
+      expect(verify([leaves[1], leaves[4]])).to.equal(true);
+      expect(verify([leaves[4], leaves[1]])).to.equal(false);
+      expect(verify([leaves[1], leaves[5]])).to.equal(false);
+      expect(verify([leaves[1]])).to.equal(false);
+      expect(
+        verify([leaves[1], leaves[4]], { ...proof, indices: [4, 1] }),
+      ).to.equal(false);
+      expect(
+        verify([leaves[1], leaves[4]], { ...proof, indices: [1, 8] }),
+      ).to.equal(false);
+      expect(
+        verify([leaves[1], leaves[4]], {
+          ...proof,
+          hashes: proof.hashes.slice(1),
+        }),
+      ).to.equal(false);
+      expect(
+        verify([leaves[1], leaves[4]], {
+          ...proof,
+          hashes: [...proof.hashes, root],
+        }),
+      ).to.equal(false);
+    });
+
+    it("should throw RangeError given no leaves or unknown leaves", () => {
+      expect(() => tree.getMultiProof([])).to.throw(RangeError);
+      expect(() => tree.getMultiProof([8])).to.throw(RangeError);
+      expect(() => tree.getMultiProof([new Uint8Array(32)])).to.throw(
+        RangeError,
+      );
+    });
+  });
+
+  describe("encodeProof() and decodeProof()", () => {
+    const leaves = [1, 2, 3, 4, 5, 6, 7, 8, 9].map((i) =>
+      new Uint8Array(32).fill(i),
+    );
+    const tree = new MerkleTree(leaves, "sha256d");
+
+    it("should serialize the positions as a bitfield", () => {
+      const proof = tree.getProof(7);
+      const data = MerkleTree.encodeProof(proof);
+
+      // count, hash size, positions (left, left, left, right) and hashes
+      expect(Buffer.from(data.subarray(0, 3)).toString("hex")).to.equal(
+        "042007",
+      );
+      expect(data).to.have.length(3 + 4 * 32);
+
+      const decoded = MerkleTree.decodeProof(data);
+      expect(decoded.map((n) => n.position)).to.deep.equal(
+        proof.map((n) => n.position),
+      );
+      expect(
+        MerkleTree.verify(leaves[7], decoded, tree.getRoot(), "sha256d"),
+      ).to.equal(true);
+    });
+
+    it("should read and write proofs embedded in other data", () => {
+      const writer = Writer.createGrowable();
+      writer.writeUint32(7);
+      MerkleTree.writeProof(writer, tree.getProof(7));
+
+      const reader = new Reader(Buffer.from(writer.finish()));
+      expect(reader.readUint32()).to.equal(7);
+      expect(MerkleTree.readProof(reader)).to.have.length(4);
+      expect(reader.isEOF()).to.equal(true);
+    });
+
+    it("should reject unused bits and trailing bytes", () => {
+      const data = Buffer.from(MerkleTree.encodeProof(tree.getProof(7)));
+      expect(() =>
+        MerkleTree.decodeProof(Buffer.concat([data, data])),
+      ).to.throw(InvalidEncodingError);
+
+      data[2] |= 0x10;
+      expect(() => MerkleTree.decodeProof(data)).to.throw(InvalidEncodingError);
+    });
+  });
 });
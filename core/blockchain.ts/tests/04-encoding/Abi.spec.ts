@@ -0,0 +1,450 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+import { createHash } from "crypto";
+
+// internal dependencies
+import { Abi } from "../../src/encoding/Abi";
+import { IntegerOverflowError } from "../../src/errors/IntegerOverflowError";
+import { InvalidEncodingError } from "../../src/errors/InvalidEncodingError";
+import { Keccak } from "../../src/hashes/Keccak";
+import type { AbiItem } from "../../src/types/AbiItem";
+import type { Parameters } from "../../src/types/Parameters";
+
+const { keccak256, sha3_256 } = Keccak;
+
+// concatenates 32-byte words given as hexadecimal strings
+const words = (...values: (string | number)[]): string =>
+  values
+    .map((v) => (typeof v === "number" ? v.toString(16).padStart(64, "0") : v))
+    .join("");
+
+// right-pads UTF-8 text to 32 bytes
+const text = (value: string): string =>
+  Buffer.from(value).toString("hex").padEnd(64, "0");
+
+const hex = (data: Uint8Array): string => Buffer.from(data).toString("hex");
+
+const erc20: AbiItem[] = [
+  {
+    type: "function",
+    name: "transfer",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "balanceOf",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "balance", type: "uint" }],
+  },
+  {
+    type: "function",
+    name: "approve",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "approve",
+    inputs: [{ name: "spender", type: "address" }],
+  },
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { name: "from", type: "address", indexed: true },
+      { name: "to", type: "address", indexed: true },
+      { name: "value", type: "uint256" },
+    ],
+  },
+];
+
+interface TransferArgs extends Parameters {
+  to: string;
+  amount: bigint;
+}
+
+const recipient = "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed";
+
+describe("Abi", () => {
+  describe("keccak256()", () => {
+    it("should compute Keccak-256 and SHA3-256 hashes", () => {
+      expect(hex(keccak256(new Uint8Array()))).to.equal(
+        "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470",
+      );
+      expect(hex(sha3_256(new Uint8Array()))).to.equal(
+        "a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a",
+      );
+      // inputs that exceed the rate of the sponge (136 bytes)
+      const data = Buffer.alloc(200, "a");
+      expect(hex(sha3_256(data))).to.equal(
+        createHash("sha3-256").update(data).digest("hex"),
+      );
+    });
+  });
+
+  describe("getSignature()", () => {
+    it("should resolve aliases and expand tuples", () => {
+      expect(Abi.getSignature(erc20[1])).to.equal("balanceOf(address)");
+      expect(
+        Abi.getSignature({
+          type: "function",
+          name: "f",
+          inputs: [
+            { type: "uint[]" },
+            {
+              type: "tuple[2]",
+              components: [{ type: "int" }, { type: "bytes32" }],
+            },
+          ],
+        }),
+      ).to.equal("f(uint256[],(int256,bytes32)[2])");
+    });
+  });
+
+  describe("getSelector() and getEventTopic()", () => {
+    it("should hash canonical signatures with Keccak-256", () => {
+      expect(hex(Abi.getSelector(erc20[0]))).to.equal("a9059cbb");
+      expect(hex(Abi.getSelector("balanceOf(address)"))).to.equal("70a08231");
+      expect(hex(Abi.getEventTopic(erc20[4]))).to.equal(
+        "ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+      );
+    });
+  });
+
+  describe("encode()", () => {
+    // examples from the Solidity documentation (Contract ABI Specification)
+    it("should encode static types in place", () => {
+      expect(hex(Abi.encode(["uint32", "bool"], [69, true]))).to.equal(
+        words(0x45, 1),
+      );
+      expect(
+        hex(Abi.encode(["bytes3[2]"], [["0x616263", "0x646566"]])),
+      ).to.equal(words(text("abc"), text("def")));
+    });
+
+    it("should encode dynamic types with offsets", () => {
+      expect(
+        hex(
+          Abi.encode(
+            ["bytes", "bool", "uint256[]"],
+            [Buffer.from("dave"), true, [1, 2, 3]],
+          ),
+        ),
+      ).to.equal(words(0x60, 1, 0xa0, 4, text("dave"), 3, 1, 2, 3));
+
+      expect(
+        hex(
+          Abi.encode(
+            ["uint256", "uint32[]", "bytes10", "bytes"],
+            [
+              0x123,
+              [0x456, 0x789],
+              Buffer.from("1234567890"),
+              Buffer.from("Hello, world!"),
+            ],
+          ),
+        ),
+      ).to.equal(
+        words(0x123, 0x80, text("1234567890"), 0xe0, 2, 0x456, 0x789) +
+          words(0xd, text("Hello, world!")),
+      );
+    });
+
+    it("should encode nested dynamic arrays", () => {
+      expect(
+        hex(
+          Abi.encode(
+            ["uint256[][]", "string[]"],
+            [
+              [[1, 2], [3]],
+              ["one", "two", "three"],
+            ],
+          ),
+        ),
+      ).to.equal(
+        words(0x40, 0x140, 2, 0x40, 0xa0, 2, 1, 2, 1, 3) +
+          words(3, 0x60, 0xa0, 0xe0, 3, text("one"), 3, text("two")) +
+          words(5, text("three")),
+      );
+    });
+
+    it("should encode signed integers in two's complement", () => {
+      expect(hex(Abi.encode(["int8"], [-1]))).to.equal("f".repeat(64));
+      expect(hex(Abi.encode(["int256"], ["-2"]))).to.equal(
+        "f".repeat(63) + "e",
+      );
+    });
+
+    it("should encode unsigned integers up to 2^256-1", () => {
+      [2n ** 255n, 2n ** 256n - 1n].forEach((value) => {
+        const data = Abi.encode(["uint256"], [value]);
+        expect(Abi.decode(["uint256"], data)[0]).to.equal(value);
+      });
+      expect(hex(Abi.encode(["uint256"], [2n ** 256n - 1n]))).to.equal(
+        "f".repeat(64),
+      );
+      expect(() => Abi.encode(["uint256"], [2n ** 256n])).to.throw(
+        IntegerOverflowError,
+      );
+    });
+
+    it("should reject values that do not fit their type", () => {
+      expect(() => Abi.encode(["uint8"], [256])).to.throw(IntegerOverflowError);
+      expect(() => Abi.encode(["int8"], [128])).to.throw(IntegerOverflowError);
+      expect(() => Abi.encode(["uint256"], [-1])).to.throw(RangeError);
+      expect(() => Abi.encode(["address"], ["0x1234"])).to.throw(RangeError);
+      expect(() => Abi.encode(["bytes2[2]"], [["0x0000"]])).to.throw(
+        RangeError,
+      );
+      expect(() => Abi.encode(["uint256"], [1.5])).to.throw(TypeError);
+      expect(() => Abi.encode(["fixed128x18"], [1])).to.throw(TypeError);
+    });
+  });
+
+  describe("decode()", () => {
+    it("should decode values by name or by position", () => {
+      const data = Abi.encode(
+        [{ name: "to", type: "address" }, "uint256"],
+        [recipient, 1000n],
+      );
+      expect(
+        Abi.decode([{ name: "to", type: "address" }, "uint256"], data),
+      ).to.deep.equal({ to: recipient, 1: 1000n });
+    });
+
+    it("should decode tuples and arrays of tuples", () => {
+      const params = [
+        {
+          name: "orders",
+          type: "tuple[]",
+          components: [
+            { name: "maker", type: "address" },
+            { name: "note", type: "string" },
+            { name: "amounts", type: "int64[2]" },
+          ],
+        },
+        { name: "flag", type: "bool" },
+      ];
+      const values = {
+        orders: [
+          { maker: recipient, note: "first", amounts: [-1n, 2n] },
+          { maker: recipient, note: "", amounts: [3n, -4n] },
+        ],
+        flag: true,
+      };
+
+      const data = Abi.encode(params, values);
+      expect(Abi.decode(params, data)).to.deep.equal(values);
+    });
+
+    it("should decode bytes and fixed-size bytes", () => {
+      const data = Abi.encode(
+        ["bytes", "bytes4"],
+        ["0xdeadbeef", "0x01020304"],
+      );
+      const result = Abi.decode(["bytes", "bytes4"], data);
+      expect(hex(result[0])).to.equal("deadbeef");
+      expect(hex(result[1])).to.equal("01020304");
+    });
+
+    it("should reject values that are not valid for their type", () => {
+      expect(() => Abi.decode(["bool"], Buffer.from(words(2), "hex"))).to.throw(
+        InvalidEncodingError,
+      );
+      expect(() =>
+        Abi.decode(["uint8"], Buffer.from(words(256), "hex")),
+      ).to.throw(InvalidEncodingError);
+      expect(() =>
+        Abi.decode(["address"], Buffer.from("01" + "0".repeat(62), "hex")),
+      ).to.throw(InvalidEncodingError);
+      expect(() =>
+        Abi.decode(["bytes1"], Buffer.from("0001" + "0".repeat(60), "hex")),
+      ).to.throw(InvalidEncodingError);
+      expect(() =>
+        Abi.decode(["string"], Buffer.from(words(0x1000), "hex")),
+      ).to.throw(InvalidEncodingError);
+    });
+  });
+
+  describe("encodeFunctionData() and decodeFunctionData()", () => {
+    const abi = new Abi(JSON.stringify(erc20));
+
+    it("should prefix arguments with the function selector", () => {
+      const data = abi.encodeFunctionData("transfer", {
+        to: recipient,
+        amount: 1000n,
+      });
+      expect(hex(data)).to.equal(
+        "a9059cbb" + words(recipient.slice(2).padStart(64, "0"), 1000),
+      );
+
+      const { name, args } = abi.decodeFunctionData<TransferArgs>(data);
+      expect(name).to.equal("transfer");
+      expect(args.to).to.equal(recipient);
+      expect(args.amount).to.equal(1000n);
+    });
+
+    it("should find functions by name, signature or selector", () => {
+      expect(abi.getFunction("0xa9059cbb").name).to.equal("transfer");
+      expect(abi.getFunction("approve(address)").inputs).to.have.length(1);
+      expect(() => abi.getFunction("approve")).to.throw(RangeError);
+      expect(() => abi.getFunction("mint")).to.throw(RangeError);
+      expect(
+        abi.getEvent(
+          "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+        ).name,
+      ).to.equal("Transfer");
+    });
+
+    it("should decode function results", () => {
+      const result = abi.decodeFunctionResult(
+        "balanceOf",
+        Buffer.from(words(42), "hex"),
+      );
+      expect(result.balance).to.equal(42n);
+    });
+  });
+
+  describe("decodeEventLog()", () => {
+    const abi = new Abi([
+      ...erc20,
+      {
+        type: "event",
+        name: "Named",
+        inputs: [
+          { name: "label", type: "string", indexed: true },
+          { name: "owner", type: "address", indexed: true },
+          { name: "note", type: "string" },
+          { name: "id", type: "uint64" },
+        ],
+      },
+      {
+        type: "event",
+        name: "Anonymous",
+        anonymous: true,
+        inputs: [{ name: "id", type: "uint8", indexed: true }],
+      },
+    ]);
+
+    const transferTopic =
+      "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+    const sender = "0xfb6916095ca1df60bb79ce92ce3ea74c37c5d359";
+    const transferLog = {
+      address: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+      topics: [
+        transferTopic,
+        `0x${sender.slice(2).padStart(64, "0")}`,
+        `0x${recipient.slice(2).padStart(64, "0")}`,
+      ],
+      data: `0x${words(1000)}`,
+    };
+
+    it("should decode indexed arguments from topics", () => {
+      const { name, args, address } = abi.decodeEventLog(transferLog);
+      expect(name).to.equal("Transfer");
+      expect(address).to.equal(transferLog.address);
+      expect(args).to.deep.equal({ from: sender, to: recipient, value: 1000n });
+    });
+
+    it("should decode indexed dynamic arguments as hashes", () => {
+      const log = {
+        topics: [
+          Abi.getEventTopic("Named(string,address,string,uint64)"),
+          keccak256(Buffer.from("label")),
+          Buffer.from(recipient.slice(2).padStart(64, "0"), "hex"),
+        ],
+        data: Abi.encode(["string", "uint64"], ["hello", 7]),
+      };
+
+      const { name, args } = abi.decodeEventLog(log);
+      expect(name).to.equal("Named");
+      expect(hex(args.label)).to.equal(hex(keccak256(Buffer.from("label"))));
+      expect(args.owner).to.equal(recipient);
+      expect(args.note).to.equal("hello");
+      expect(args.id).to.equal(7n);
+    });
+
+    it("should decode anonymous events given their name", () => {
+      const log = { topics: [`0x${words(5)}`], data: "0x" };
+      expect(abi.decodeEventLog(log, "Anonymous").args).to.deep.equal({
+        id: 5n,
+      });
+      expect(() => abi.decodeEventLog(log)).to.throw(RangeError);
+      expect(() => abi.decodeEventLog({ topics: [], data: "0x" })).to.throw(
+        RangeError,
+      );
+    });
+
+    it("should reject logs with a wrong number of topics", () => {
+      const log = { ...transferLog, topics: transferLog.topics.slice(0, 2) };
+      expect(() => abi.decodeEventLog(log)).to.throw(RangeError);
+    });
+
+    it("should skip logs of unknown events or other contracts", () => {
+      const other = { topics: [`0x${words(1)}`], data: "0x" };
+      const logs = [other, transferLog, { ...transferLog, address: sender }];
+
+      expect(abi.decodeEventLogs(logs)).to.have.length(2);
+      expect(
+        abi.decodeEventLogs(logs, transferLog.address.toLowerCase()),
+      ).to.have.length(1);
+    });
+  });
+
+  describe("encodeEventTopics()", () => {
+    const abi = new Abi([
+      ...erc20,
+      {
+        type: "event",
+        name: "Named",
+        inputs: [
+          { name: "label", type: "string", indexed: true },
+          { name: "id", type: "uint64", indexed: true },
+        ],
+      },
+    ]);
+
+    const topic = (value: string) => `0x${value.padStart(64, "0")}`;
+
+    it("should build topic filters with wildcards", () => {
+      expect(abi.encodeEventTopics("Transfer")).to.deep.equal([
+        "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+      ]);
+      expect(
+        abi.encodeEventTopics("Transfer", { to: recipient }),
+      ).to.deep.equal([
+        "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+        null,
+        topic(recipient.slice(2)),
+      ]);
+    });
+
+    it("should match any of multiple values", () => {
+      expect(
+        abi.encodeEventTopics("Named", [null, [1, 2]]).slice(1),
+      ).to.deep.equal([null, [topic("1"), topic("2")]]);
+    });
+
+    it("should hash values of dynamic types", () => {
+      expect(abi.encodeEventTopics("Named", { label: "label" })[1]).to.equal(
+        `0x${hex(keccak256(Buffer.from("label")))}`,
+      );
+    });
+  });
+});
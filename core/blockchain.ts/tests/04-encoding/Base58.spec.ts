@@ -0,0 +1,80 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { Base58 } from "../../src/encoding/Base58";
+import { ChecksumError } from "../../src/errors/ChecksumError";
+import { InvalidEncodingError } from "../../src/errors/InvalidEncodingError";
+
+// test vectors from bitcoin/bitcoin (src/test/data/base58_encode_decode.json)
+const vectors: [string, string][] = [
+  ["", ""],
+  ["61", "2g"],
+  ["626262", "a3gV"],
+  ["636363", "aPEr"],
+  ["73696d706c792061206c6f6e6720737472696e67", "2cFupjhnEsSn59qHXstmK2ffpLv2"],
+  [
+    "00eb15231dfceb60925886b67d065299925915aeb172c06647",
+    "1NS17iag9jJgTHD1VXjvLCEnZuQ3rJDE9L",
+  ],
+  ["516b6fcd0f", "ABnLTmg"],
+  ["bf4f89001e670274dd", "3SEo3LWLoPntC"],
+  ["572e4794", "3EFU7m"],
+  ["ecac89cad93923c02321", "EJDM8drfXA6uyA"],
+  ["10c8511e", "Rt5zm"],
+  ["00000000000000000000", "1111111111"],
+];
+
+describe("Base58", () => {
+  describe("encode() and decode()", () => {
+    vectors.forEach(([hex, text]) => {
+      it(`should encode 0x${hex} as "${text}"`, () => {
+        expect(Base58.encode(Buffer.from(hex, "hex"))).to.equal(text);
+        expect(Buffer.from(Base58.decode(text)).toString("hex")).to.equal(hex);
+      });
+    });
+
+    it("should reject characters that are not part of the alphabet", () => {
+      expect(() => Base58.decode("3EFU0m"))
+        .to.throw(InvalidEncodingError)
+        .with.property("offset", 4);
+      expect(() => Base58.decode("Il")).to.throw(InvalidEncodingError);
+    });
+  });
+
+  describe("encodeCheck() and decodeCheck()", () => {
+    // address of the genesis block's coinbase output
+    const address = "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa";
+    const payload = "0062e907b15cbf27d5425399ebf6f0fb50ebb88f18";
+
+    it("should append and verify a double-SHA256 checksum", () => {
+      expect(Base58.encodeCheck(Buffer.from(payload, "hex"))).to.equal(address);
+      expect(Buffer.from(Base58.decodeCheck(address)).toString("hex")).to.equal(
+        payload,
+      );
+    });
+
+    it("should reject checksums that do not match", () => {
+      expect(() => Base58.decodeCheck(address.slice(0, -1) + "b")).to.throw(
+        ChecksumError,
+      );
+      expect(() =>
+        Base58.decodeCheck("1NS17iag9jJgTHD1VXjvLCEnZuQ3rJDE9L"),
+      ).to.throw(ChecksumError);
+    });
+
+    it("should reject data shorter than the checksum", () => {
+      expect(() => Base58.decodeCheck("3EF")).to.throw(InvalidEncodingError);
+    });
+  });
+});
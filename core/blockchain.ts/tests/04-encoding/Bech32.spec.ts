@@ -0,0 +1,169 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { Bech32 } from "../../src/encoding/Bech32";
+import { ChecksumError } from "../../src/errors/ChecksumError";
+import { InvalidEncodingError } from "../../src/errors/InvalidEncodingError";
+import type { Bech32Variant } from "../../src/types/Bech32Result";
+
+// test vectors from BIP173 and BIP350
+const valid: [string, Bech32Variant][] = [
+  ["A12UEL5L", "bech32"],
+  ["a12uel5l", "bech32"],
+  ["abcdef1qpzry9x8gf2tvdw0s3jn54khce6mua7lmqqqxw", "bech32"],
+  ["split1checkupstagehandshakeupstreamerranterredcaperred2y9e3w", "bech32"],
+  ["?1ezyfcl", "bech32"],
+  ["A1LQFN3A", "bech32m"],
+  ["a1lqfn3a", "bech32m"],
+  ["abcdef1l7aum6echk45nj3s0wdvt2fg8x9yrzpqzd3ryx", "bech32m"],
+  ["?1v759aa", "bech32m"],
+];
+
+const invalid: [string, string][] = [
+  ["pzry9x0s0muk", "no separator"],
+  ["1pzry9x0s0muk", "empty HRP"],
+  ["x1b4n0q5v", "invalid data character"],
+  ["li1dgmt3", "too short checksum"],
+  ["\x201nwldj5", "HRP character out of range"],
+  ["A12uEL5L", "mixed case"],
+];
+
+const p2wpkh = "751e76e8199196d454941c45d1b3a323f1433bd6";
+const p2tr = "79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798";
+
+describe("Bech32", () => {
+  describe("decode()", () => {
+    valid.forEach(([text, variant]) => {
+      it(`should decode "${text}" as ${variant}`, () => {
+        const result = Bech32.decode(text);
+        expect(result.variant).to.equal(variant);
+        expect(Bech32.encode(result.hrp, result.words, variant)).to.equal(
+          text.toLowerCase(),
+        );
+      });
+    });
+
+    invalid.forEach(([text, reason]) => {
+      it(`should reject "${text}" (${reason})`, () => {
+        expect(() => Bech32.decode(text)).to.throw(InvalidEncodingError);
+      });
+    });
+
+    it("should report the offset of invalid characters", () => {
+      expect(() => Bech32.decode("x1b4n0q5v"))
+        .to.throw(InvalidEncodingError)
+        .with.property("offset", 2);
+    });
+
+    it("should enforce length limits", () => {
+      const long = Bech32.encode("a", new Uint8Array(82));
+      expect(long).to.have.length(90);
+      expect(Bech32.decode(long).words).to.have.length(82);
+      expect(() => Bech32.encode("a", new Uint8Array(83))).to.throw(RangeError);
+      expect(() => Bech32.decode(long + "q")).to.throw(InvalidEncodingError);
+      expect(
+        Bech32.decode(Bech32.encode("a", new Uint8Array(83), "bech32", 91), 91)
+          .words,
+      ).to.have.length(83);
+    });
+
+    it("should locate a mistyped character", () => {
+      const text = "abcdef1qpzrz9x8gf2tvdw0s3jn54khce6mua7lmqqqxw";
+      expect(() => Bech32.decode(text))
+        .to.throw(ChecksumError)
+        .with.deep.property("positions", [11]);
+      expect(() => Bech32.decode("A1G7SGD8")).to.throw(ChecksumError);
+    });
+  });
+
+  describe("toWords() and fromWords()", () => {
+    it("should convert between bytes and 5-bit words", () => {
+      const bytes = Buffer.from(p2wpkh, "hex");
+      const words = Bech32.toWords(bytes);
+      expect(words).to.have.length(32);
+      expect(words.every((w) => w < 32)).to.equal(true);
+      expect(Buffer.from(Bech32.fromWords(words)).toString("hex")).to.equal(
+        p2wpkh,
+      );
+    });
+
+    it("should reject invalid padding", () => {
+      expect(() => Bech32.fromWords([31])).to.throw(InvalidEncodingError);
+      expect(() => Bech32.fromWords([0, 0, 0, 0, 0, 0])).to.throw(
+        InvalidEncodingError,
+      );
+      expect(() => Bech32.fromWords([32])).to.throw(RangeError);
+    });
+  });
+
+  describe("encodeSegwit() and decodeSegwit()", () => {
+    it("should encode v0 programs with bech32", () => {
+      const address = Bech32.encodeSegwit("bc", 0, Buffer.from(p2wpkh, "hex"));
+      expect(address).to.equal("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4");
+
+      const { version, program } = Bech32.decodeSegwit(
+        "bc",
+        address.toUpperCase(),
+      );
+      expect(version).to.equal(0);
+      expect(Buffer.from(program).toString("hex")).to.equal(p2wpkh);
+    });
+
+    it("should encode v1+ programs (Taproot) with bech32m", () => {
+      const address = Bech32.encodeSegwit("bc", 1, Buffer.from(p2tr, "hex"));
+      expect(address).to.equal(
+        "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0",
+      );
+      expect(Bech32.decodeSegwit("bc", address).version).to.equal(1);
+    });
+
+    it("should reject wrong HRPs, versions, lengths and variants", () => {
+      const program = Buffer.from(p2wpkh, "hex");
+      const address = Bech32.encodeSegwit("bc", 0, program);
+      expect(() => Bech32.decodeSegwit("tb", address)).to.throw(
+        InvalidEncodingError,
+      );
+      expect(() =>
+        Bech32.decodeSegwit(
+          "bc",
+          Bech32.encode("bc", [0, ...Bech32.toWords(program)], "bech32m"),
+        ),
+      ).to.throw(InvalidEncodingError);
+      expect(() =>
+        Bech32.decodeSegwit(
+          "bc",
+          Bech32.encode("bc", [1, ...Bech32.toWords(program)], "bech32"),
+        ),
+      ).to.throw(InvalidEncodingError);
+      expect(() => Bech32.encodeSegwit("bc", 17, program)).to.throw(RangeError);
+      expect(() =>
+        Bech32.encodeSegwit("bc", 0, program.subarray(0, 16)),
+      ).to.throw(RangeError);
+    });
+
+    it("should encode Cosmos addresses with custom HRPs", () => {
+      const address = Bech32.encode(
+        "cosmos",
+        Bech32.toWords(Buffer.from(p2wpkh, "hex")),
+      );
+      expect(address.startsWith("cosmos1")).to.equal(true);
+
+      const { hrp, words } = Bech32.decode(address);
+      expect(hrp).to.equal("cosmos");
+      expect(Buffer.from(Bech32.fromWords(words)).toString("hex")).to.equal(
+        p2wpkh,
+      );
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { Codecs } from "../../src/buffer/Codecs";
+import { Reader } from "../../src/buffer/Reader";
+import { Template } from "../../src/buffer/Template";
+import { Writer } from "../../src/buffer/Writer";
+import { Borsh } from "../../src/encoding/Borsh";
+import { InvalidEncodingError } from "../../src/errors/InvalidEncodingError";
+import { NonCanonicalEncodingError } from "../../src/errors/NonCanonicalEncodingError";
+import type { Codec } from "../../src/types/Codec";
+
+const { bytes: fixed, u8, u16, u64, u128 } = Codecs;
+
+// encodes a value with a codec and returns the hexadecimal bytes
+const encode = <T>(codec: Codec<T>, value: T): string => {
+  const writer = Writer.createGrowable();
+  codec.encode(writer, value);
+  return Buffer.from(writer.finish()).toString("hex");
+};
+
+// decodes a value with a codec from hexadecimal bytes
+const decode = <T>(codec: Codec<T>, hex: string): T =>
+  codec.decode(new Reader(Buffer.from(hex, "hex")));
+
+describe("Borsh", () => {
+  describe("bool", () => {
+    it("should reject bytes other than 0 and 1", () => {
+      expect(encode(Borsh.bool, true)).to.be.equal("01");
+      expect(decode(Borsh.bool, "00")).to.be.false;
+      expect(() => decode(Borsh.bool, "02")).to.throw(InvalidEncodingError);
+    });
+  });
+
+  describe("string and bytes", () => {
+    it("should prefix bytes with their u32 length", () => {
+      expect(encode(Borsh.string, "hello")).to.be.equal("0500000068656c6c6f");
+      expect(decode(Borsh.string, "0500000068656c6c6f")).to.be.equal("hello");
+      expect(encode(Borsh.bytes, new Uint8Array([0xaa]))).to.be.equal(
+        "01000000aa",
+      );
+    });
+  });
+
+  describe("vec()", () => {
+    it("should prefix items with their u32 count", () => {
+      expect(encode(Borsh.vec(u16), [1, 2])).to.be.equal("0200000001000200");
+      expect(decode(Borsh.vec(u16), "0200000001000200")).to.be.deep.equal([
+        1, 2,
+      ]);
+    });
+  });
+
+  describe("option()", () => {
+    it("should prefix values with 0 (None) or 1 (Some)", () => {
+      expect(encode(Borsh.option(u8), 5)).to.be.equal("0105");
+      expect(encode(Borsh.option(u8), undefined)).to.be.equal("00");
+      expect(decode(Borsh.option(u8), "0105")).to.be.equal(5);
+      expect(() => decode(Borsh.option(u8), "0205")).to.throw(
+        InvalidEncodingError,
+      );
+    });
+  });
+
+  describe("enumeration()", () => {
+    it("should prefix variants with their index", () => {
+      const codec = Borsh.enumeration({ 0: Borsh.unit, 1: u128 });
+
+      expect(encode(codec, { kind: 0, value: null })).to.be.equal("00");
+      expect(encode(codec, { kind: 1, value: 1n })).to.be.equal(
+        "01" + "01" + "00".repeat(15),
+      );
+      expect(decode(codec, "00")).to.be.deep.equal({ kind: 0, value: null });
+    });
+  });
+
+  describe("map() and set()", () => {
+    it("should encode entries in ascending order of keys", () => {
+      const codec = Borsh.map(Borsh.string, u8);
+      const hex = "02000000" + "0100000061" + "01" + "0100000062" + "02";
+
+      expect(
+        encode(
+          codec,
+          new Map([
+            ["b", 2],
+            ["a", 1],
+          ]),
+        ),
+      ).to.be.equal(hex);
+      expect(decode(codec, hex)).to.be.deep.equal(
+        new Map([
+          ["a", 1],
+          ["b", 2],
+        ]),
+      );
+      expect(encode(Borsh.set(u8), new Set([3, 1, 2]))).to.be.equal(
+        "03000000010203",
+      );
+    });
+
+    it("should sort byte array and string keys by their bytes", () => {
+      expect(
+        encode(
+          Borsh.set(Borsh.bytes),
+          new Set([Buffer.from([10]), Buffer.from([9])]),
+        ),
+      ).to.be.equal("02000000" + "0100000009" + "010000000a");
+
+      // "\uFFFF" (ef bf bf) sorts before "😀" (f0 9f 98 80) in UTF-8
+      const hex = "02000000" + "03000000efbfbf" + "04000000f09f9880";
+      expect(
+        encode(Borsh.set(Borsh.string), new Set(["😀", "\uFFFF"])),
+      ).to.be.equal(hex);
+      expect(decode(Borsh.set(Borsh.string), hex)).to.be.deep.equal(
+        new Set(["\uFFFF", "😀"]),
+      );
+    });
+
+    it("should accept custom key comparators", () => {
+      const descending = (a: number, b: number) => b - a;
+      expect(encode(Borsh.set(u8, descending), new Set([1, 3, 2]))).to.be.equal(
+        "03000000030201",
+      );
+    });
+
+    it("should throw NonCanonicalEncodingError given unsorted keys", () => {
+      expect(() => decode(Borsh.set(u8), "020000000201")).to.throw(
+        NonCanonicalEncodingError,
+      );
+      expect(() => decode(Borsh.set(u8), "020000000101")).to.throw(
+        NonCanonicalEncodingError,
+      );
+    });
+  });
+
+  describe("struct schemas", () => {
+    it("should decode account state", () => {
+      // prepare
+      const Account = Template.struct({
+        owner: fixed(32),
+        amount: u64,
+        delegate: Borsh.option(fixed(32)),
+        name: Borsh.string,
+        frozen: Borsh.bool,
+      });
+      const hex =
+        "11".repeat(32) + "e803000000000000" + "00" + "03000000616263" + "01";
+
+      // act
+      const account = Account.fromBuffer(Buffer.from(hex, "hex"));
+
+      // assert
+      expect(account.amount).to.be.equal(1000n);
+      expect(account.delegate).to.be.undefined;
+      expect(account.name).to.be.equal("abc");
+      expect(account.frozen).to.be.true;
+      expect(
+        Buffer.from(Account.toBuffer(account)).toString("hex"),
+      ).to.be.equal(hex);
+    });
+  });
+});
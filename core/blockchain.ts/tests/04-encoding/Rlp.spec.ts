@@ -0,0 +1,200 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { Reader } from "../../src/buffer/Reader";
+import { Writer } from "../../src/buffer/Writer";
+import { Rlp } from "../../src/encoding/Rlp";
+import { BufferUnderflowError } from "../../src/errors/BufferUnderflowError";
+import { InvalidEncodingError } from "../../src/errors/InvalidEncodingError";
+import { NonCanonicalEncodingError } from "../../src/errors/NonCanonicalEncodingError";
+import type { RlpInput, RlpValue } from "../../src/types/RlpInput";
+
+// converts decoded values to hexadecimal strings for comparison
+const toHex = (value: RlpValue): unknown =>
+  Array.isArray(value) ? value.map(toHex) : Buffer.from(value).toString("hex");
+
+const lorem = "Lorem ipsum dolor sit amet, consectetur adipisicing elit";
+const asdf = ["asdf", "qwer", "zxcv"];
+
+// test vectors from ethereum/tests (RLPTests/rlptest.json)
+const vectors: [string, RlpInput, string][] = [
+  ["emptystring", "", "80"],
+  ["bytestring00", new Uint8Array([0]), "00"],
+  ["bytestring01", new Uint8Array([1]), "01"],
+  ["bytestring7F", new Uint8Array([0x7f]), "7f"],
+  ["shortstring", "dog", "83646f67"],
+  [
+    "shortstring2",
+    lorem.slice(0, 55),
+    "b7" + Buffer.from(lorem.slice(0, 55)).toString("hex"),
+  ],
+  ["longstring", lorem, "b838" + Buffer.from(lorem).toString("hex")],
+  ["zero", 0, "80"],
+  ["smallint", 1, "01"],
+  ["smallint2", 16, "10"],
+  ["smallint3", 79, "4f"],
+  ["smallint4", 127, "7f"],
+  ["mediumint1", 128, "8180"],
+  ["mediumint2", 1000, "8203e8"],
+  ["mediumint3", 100000, "830186a0"],
+  [
+    "bigint",
+    83729609699884896815286331701780722n,
+    "8f102030405060708090a0b0c0d0e0f2",
+  ],
+  ["emptylist", [], "c0"],
+  ["stringlist", ["dog", "god", "cat"], "cc83646f6783676f6483636174"],
+  ["multilist", ["zw", [4], 1], "c6827a77c10401"],
+  [
+    "shortListMax1",
+    [
+      "asdf",
+      "qwer",
+      "zxcv",
+      "asdf",
+      "qwer",
+      "zxcv",
+      "asdf",
+      "qwer",
+      "zxcv",
+      "asdf",
+      "qwer",
+    ],
+    "f784617364668471776572847a78637684617364668471776572847a78637684617364668471776572847a78637684617364668471776572",
+  ],
+  [
+    "longList1",
+    [asdf, asdf, asdf, asdf],
+    "f840" + "cf84617364668471776572847a786376".repeat(4),
+  ],
+  ["listsoflists", [[[], []], []], "c4c2c0c0c0"],
+  ["listsoflists2", [[], [[]], [[], [[]]]], "c7c0c1c0c3c0c1c0"],
+  ["dictTest1", [["key1", "val1"]], "cbca846b6579318476616c31"],
+  ["hexstring", "0x0400", "820400"],
+];
+
+describe("Rlp", () => {
+  describe("encode()", () => {
+    vectors.forEach(([name, input, expected]) => {
+      it(`should encode test vector ${name}`, () => {
+        expect(Buffer.from(Rlp.encode(input)).toString("hex")).to.be.equal(
+          expected,
+        );
+      });
+    });
+
+    it("should encode null and undefined as empty string", () => {
+      expect(
+        Buffer.from(Rlp.encode([null, undefined])).toString("hex"),
+      ).to.be.equal("c28080");
+    });
+
+    it("should throw RangeError given invalid integers", () => {
+      expect(() => Rlp.encode(-1)).to.throw(RangeError);
+      expect(() => Rlp.encode(1.5)).to.throw(RangeError);
+      expect(() => Rlp.encode(-1n)).to.throw(RangeError);
+    });
+
+    it("should throw TypeError given invalid hexadecimal strings", () => {
+      expect(() => Rlp.encode("0x12zz")).to.throw(TypeError);
+      expect(() => Rlp.encode("0x123")).to.throw(TypeError);
+      expect(() => Rlp.encode(["0x", "0xg0"])).to.throw(TypeError);
+    });
+  });
+
+  describe("decode()", () => {
+    vectors.forEach(([name, input, hex]) => {
+      it(`should decode test vector ${name}`, () => {
+        const decoded = Rlp.decode(Buffer.from(hex, "hex"));
+
+        expect(toHex(decoded)).to.be.deep.equal(
+          toHex(Rlp.decode(Rlp.encode(input))),
+        );
+        expect(Buffer.from(Rlp.encode(decoded)).toString("hex")).to.be.equal(
+          hex,
+        );
+      });
+    });
+
+    it("should decode nested lists", () => {
+      expect(
+        toHex(Rlp.decode(Buffer.from("c6827a77c10401", "hex"))),
+      ).to.be.deep.equal(["7a77", ["04"], "01"]);
+    });
+
+    // invalid test vectors from ethereum/tests (RLPTests/invalidRLPTest.json)
+    [
+      ["bytesShouldBeSingleByte00", "8100"],
+      ["bytesShouldBeSingleByte7F", "817f"],
+      ["longstringInvalidLength", "b80100"],
+      ["leadingZerosInLongLengthList", "f900050102030405"],
+      ["leadingZerosInLongLengthString", "b9000500"],
+    ].forEach(([name, hex]) => {
+      it(`should throw NonCanonicalEncodingError given ${name}`, () => {
+        expect(() => Rlp.decode(Buffer.from(hex, "hex"))).to.throw(
+          NonCanonicalEncodingError,
+        );
+      });
+    });
+
+    it("should throw InvalidEncodingError given trailing bytes", () => {
+      expect(() => Rlp.decode(Buffer.from("8001", "hex"))).to.throw(
+        InvalidEncodingError,
+      );
+    });
+
+    it("should throw InvalidEncodingError given items that exceed their list", () => {
+      expect(() => Rlp.decode(Buffer.from("c1c2c0c0", "hex"))).to.throw(
+        InvalidEncodingError,
+      );
+    });
+
+    it("should throw BufferUnderflowError given truncated data", () => {
+      expect(() => Rlp.decode(Buffer.from("83646f", "hex"))).to.throw(
+        BufferUnderflowError,
+      );
+      expect(() => Rlp.decode(Buffer.from("c2", "hex"))).to.throw(
+        BufferUnderflowError,
+      );
+    });
+  });
+
+  describe("write() and read()", () => {
+    it("should embed RLP items in other structures", () => {
+      const writer = Writer.createGrowable();
+      writer.writeUint8(0x02);
+      Rlp.write(writer, ["cat", "dog"]);
+
+      const reader = new Reader(Buffer.from(writer.finish()));
+
+      expect(reader.readUint8()).to.be.equal(2);
+      expect(toHex(Rlp.read(reader))).to.be.deep.equal(["636174", "646f67"]);
+      expect(reader.isEOF()).to.be.true;
+    });
+  });
+
+  describe("toBigInt()", () => {
+    it("should convert byte strings to integers", () => {
+      expect(Rlp.toBigInt(Rlp.decode(Rlp.encode(1000)))).to.be.equal(1000n);
+      expect(Rlp.toBigInt(new Uint8Array()), "zero").to.be.equal(0n);
+    });
+
+    it("should reject lists and leading zeros", () => {
+      expect(() => Rlp.toBigInt([])).to.throw(TypeError);
+      expect(() => Rlp.toBigInt(new Uint8Array([0, 1]))).to.throw(
+        NonCanonicalEncodingError,
+      );
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+
+// internal dependencies
+import { Codecs } from "../../src/buffer/Codecs";
+import { Reader } from "../../src/buffer/Reader";
+import { Template } from "../../src/buffer/Template";
+import { Writer } from "../../src/buffer/Writer";
+import { Scale } from "../../src/encoding/Scale";
+import { InvalidEncodingError } from "../../src/errors/InvalidEncodingError";
+import { NonCanonicalEncodingError } from "../../src/errors/NonCanonicalEncodingError";
+import type { Codec } from "../../src/types/Codec";
+
+const { u8, u16, u32, bytes: fixed } = Codecs;
+
+// encodes a value with a codec and returns the hexadecimal bytes
+const encode = <T>(codec: Codec<T>, value: T): string => {
+  const writer = Writer.createGrowable();
+  codec.encode(writer, value);
+  return Buffer.from(writer.finish()).toString("hex");
+};
+
+// decodes a value with a codec from hexadecimal bytes
+const decode = <T>(codec: Codec<T>, hex: string): T =>
+  codec.decode(new Reader(Buffer.from(hex, "hex")));
+
+describe("Scale", () => {
+  describe("compact", () => {
+    // test vectors from parity-scale-codec
+    [
+      [0n, "00"],
+      [1n, "04"],
+      [42n, "a8"],
+      [63n, "fc"],
+      [64n, "0101"],
+      [69n, "1501"],
+      [16383n, "fdff"],
+      [16384n, "02000100"],
+      [65535n, "feff0300"],
+      [1073741823n, "feffffff"],
+      [1073741824n, "0300000040"],
+      [4294967295n, "03ffffffff"],
+      [100000000000000n, "0b00407a10f35a"],
+      [2n ** 64n - 1n, "13ffffffffffffffff"],
+    ].forEach(([value, hex]) => {
+      it(`should encode and decode ${value}`, () => {
+        expect(encode(Scale.bigCompact, value as bigint)).to.be.equal(hex);
+        expect(decode(Scale.bigCompact, hex as string)).to.be.equal(value);
+      });
+    });
+
+    it("should encode and decode numbers", () => {
+      expect(encode(Scale.compact, 69)).to.be.equal("1501");
+      expect(decode(Scale.compact, "1501")).to.be.equal(69);
+    });
+
+    it("should throw NonCanonicalEncodingError given non-minimal encodings", () => {
+      ["0100", "02000000", "0300000000", "07ffffffff00"].forEach((hex) =>
+        expect(() => decode(Scale.bigCompact, hex)).to.throw(
+          NonCanonicalEncodingError,
+        ),
+      );
+    });
+
+    it("should throw RangeError given negative values", () => {
+      expect(() => encode(Scale.bigCompact, -1n)).to.throw(RangeError);
+    });
+  });
+
+  describe("bool", () => {
+    it("should reject bytes other than 0 and 1", () => {
+      expect(decode(Scale.bool, "01")).to.be.true;
+      expect(() => decode(Scale.bool, "02")).to.throw(InvalidEncodingError);
+    });
+  });
+
+  describe("option()", () => {
+    it("should prefix values with 0 (None) or 1 (Some)", () => {
+      expect(encode(Scale.option(u32), 1)).to.be.equal("0101000000");
+      expect(encode(Scale.option(u32), undefined)).to.be.equal("00");
+      expect(decode(Scale.option(u32), "0101000000")).to.be.equal(1);
+      expect(decode(Scale.option(u32), "00")).to.be.undefined;
+      expect(() => decode(Scale.option(u32), "02")).to.throw(
+        InvalidEncodingError,
+      );
+    });
+
+    it("should encode Option<bool> as one byte", () => {
+      const codec = Scale.option(Scale.bool);
+
+      expect(encode(codec, undefined)).to.be.equal("00");
+      expect(encode(codec, true)).to.be.equal("01");
+      expect(encode(codec, false)).to.be.equal("02");
+      expect(decode(codec, "02")).to.be.false;
+    });
+  });
+
+  describe("result()", () => {
+    const codec = Scale.result(u8, Scale.bool);
+
+    it("should prefix values with 0 (Ok) or 1 (Err)", () => {
+      expect(encode(codec, { ok: 42 })).to.be.equal("002a");
+      expect(encode(codec, { err: false })).to.be.equal("0100");
+      expect(decode(codec, "002a")).to.be.deep.equal({ ok: 42 });
+      expect(decode(codec, "0100")).to.be.deep.equal({ err: false });
+    });
+  });
+
+  describe("vec()", () => {
+    it("should prefix items with their compact count", () => {
+      const values = [4, 8, 15, 16, 23, 42];
+      const hex = "18" + "040008000f00100017002a00";
+
+      expect(encode(Scale.vec(u16), values)).to.be.equal(hex);
+      expect(decode(Scale.vec(u16), hex)).to.be.deep.equal(values);
+    });
+  });
+
+  describe("bytes and str", () => {
+    it("should prefix bytes with their compact length", () => {
+      expect(encode(Scale.str, "hello")).to.be.equal("1468656c6c6f");
+      expect(decode(Scale.str, "1468656c6c6f")).to.be.equal("hello");
+      expect(encode(Scale.bytes, new Uint8Array([1, 2]))).to.be.equal("080102");
+    });
+  });
+
+  describe("enumeration()", () => {
+    const codec = Scale.enumeration({ 0: u8, 1: Scale.str, 2: Scale.unit });
+
+    it("should prefix variants with their index", () => {
+      expect(encode(codec, { kind: 0, value: 42 })).to.be.equal("002a");
+      expect(encode(codec, { kind: 2, value: null })).to.be.equal("02");
+      expect(decode(codec, "01" + "1468656c6c6f")).to.be.deep.equal({
+        kind: 1,
+        value: "hello",
+      });
+    });
+  });
+
+  describe("tuple()", () => {
+    it("should concatenate values without prefix", () => {
+      const codec = Scale.tuple(Scale.compact, Scale.bool);
+
+      expect(encode(codec, [3, false])).to.be.equal("0c00");
+      expect(decode(codec, "0c00")).to.be.deep.equal([3, false]);
+    });
+  });
+
+  describe("struct schemas", () => {
+    it("should model a Substrate block header", () => {
+      // prepare
+      const Header = Template.struct({
+        parentHash: fixed(32),
+        number: Scale.compact,
+        stateRoot: fixed(32),
+        extrinsicsRoot: fixed(32),
+        digest: Scale.vec(
+          Scale.enumeration({ 6: Scale.tuple(u32, Scale.bytes) }),
+        ),
+      });
+      const header = {
+        parentHash: Buffer.alloc(32, 1),
+        number: 1000,
+        stateRoot: Buffer.alloc(32, 2),
+        extrinsicsRoot: Buffer.alloc(32, 3),
+        digest: [
+          {
+            kind: 6 as const,
+            value: [0x45424142, Buffer.from("aa", "hex")] as [
+              number,
+              Uint8Array,
+            ],
+          },
+        ],
+      };
+
+      // act
+      const buffer = Header.toBuffer(header);
+
+      // assert
+      expect(buffer.byteLength).to.be.equal(32 + 2 + 32 + 32 + 1 + 1 + 4 + 2);
+      expect(Header.fromBuffer(buffer)).to.be.deep.equal(header);
+    });
+  });
+});
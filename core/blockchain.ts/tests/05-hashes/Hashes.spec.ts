@@ -0,0 +1,157 @@
+/**
+ * This file is part of Blockchain A-Z by re:Software S.L. shared under LGPL-3.0
+ * Copyright (C) 2024-present re:Software S.L. (www.resoftware.es),
+ * All rights reserved.
+ *
+ * @package     Blockchain.ts
+ * @subpackage  Tests
+ * @author      re:Software S.L. <devs@resoftware.es>
+ * @license     LGPL-3.0
+ */
+// external dependencies
+import { expect } from "chai";
+import { createHash, randomBytes } from "crypto";
+
+// internal dependencies
+import { Hashes } from "../../src/hashes/Hashes";
+import type { HashFunction } from "../../src/types/HashFunction";
+
+const hex = (data: Uint8Array): string => Buffer.from(data).toString("hex");
+const abc = Buffer.from("abc");
+const empty = new Uint8Array();
+
+describe("Hashes", () => {
+  describe("hash functions", () => {
+    const vectors: [string, HashFunction, Uint8Array, string][] = [
+      [
+        "sha256",
+        Hashes.sha256,
+        abc,
+        "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+      ],
+      [
+        "sha256d",
+        Hashes.sha256d,
+        empty,
+        "5df6e0e2761359d30a8275058e299fcc0381534545f55cf43e41983f5d4c9456",
+      ],
+      [
+        "ripemd160",
+        Hashes.ripemd160,
+        abc,
+        "8eb208f7e05d987a9b044a8e98c6b087f15a0bfc",
+      ],
+      [
+        "hash160",
+        Hashes.hash160,
+        // compressed public key of the private key 1
+        Buffer.from(
+          "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798",
+          "hex",
+        ),
+        "751e76e8199196d454941c45d1b3a323f1433bd6",
+      ],
+      [
+        "keccak256",
+        Hashes.keccak256,
+        abc,
+        "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45",
+      ],
+      [
+        "sha3_256",
+        Hashes.sha3_256,
+        abc,
+        "3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532",
+      ],
+      [
+        "blake2b",
+        Hashes.blake2b,
+        abc,
+        "ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1" +
+          "7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923",
+      ],
+    ];
+
+    vectors.forEach(([name, hash, data, expected]) => {
+      it(`should compute ${name} hashes`, () => {
+        expect(hex(hash(data))).to.equal(expected);
+      });
+    });
+  });
+
+  describe("blake2b()", () => {
+    it("should match Node's crypto across block boundaries", () => {
+      [0, 1, 127, 128, 129, 256, 1000].forEach((size) => {
+        const data = randomBytes(size);
+        expect(hex(Hashes.blake2b(data))).to.equal(
+          createHash("blake2b512").update(data).digest("hex"),
+        );
+      });
+    });
+
+    it("should support output lengths and keys", () => {
+      expect(hex(Hashes.blake2b(empty, 32))).to.equal(
+        "0e5751c026e543b2e8ab2eb06099daa1d1e5df47778f7787faab45cdf12fe3a8",
+      );
+
+      // first vector of the reference implementation (blake2b-kat.txt)
+      const key = Uint8Array.from({ length: 64 }, (_, i) => i);
+      expect(hex(Hashes.blake2b(empty, 64, key))).to.equal(
+        "10ebb67700b1868efb4417987acf4690ae9d972fb7a590c2f02871799aaa4786" +
+          "b5e996e8f0f4eb981fc214b005f42d2ff4233499391653df7aefcbc13fc51568",
+      );
+    });
+
+    it("should reject invalid output lengths and keys", () => {
+      expect(() => Hashes.blake2b(empty, 0)).to.throw(RangeError);
+      expect(() => Hashes.blake2b(empty, 65)).to.throw(RangeError);
+      expect(() => Hashes.blake2b(empty, 32, new Uint8Array(65))).to.throw(
+        RangeError,
+      );
+    });
+  });
+
+  describe("registry", () => {
+    it("should provide hash functions by name", () => {
+      expect(Hashes.get("sha256d")).to.equal(Hashes.sha256d);
+      expect(hex(Hashes.get("blake2b-256")(empty))).to.equal(
+        hex(Hashes.blake2b(empty, 32)),
+      );
+      expect(Hashes.names()).to.include.members([
+        "sha256",
+        "sha256d",
+        "ripemd160",
+        "hash160",
+        "sha3-256",
+        "keccak256",
+        "blake2b",
+      ]);
+    });
+
+    it("should register custom hash functions", () => {
+      const blake2b224: HashFunction = (d) => Hashes.blake2b(d, 28);
+      expect(Hashes.has("blake2b-224")).to.equal(false);
+
+      Hashes.register("blake2b-224", blake2b224);
+      expect(Hashes.has("blake2b-224")).to.equal(true);
+      expect(Hashes.resolve("blake2b-224")(abc)).to.have.length(28);
+    });
+
+    it("should throw RangeError given names that are registered", () => {
+      const hash: HashFunction = (d) => d;
+      expect(() => Hashes.register("sha256d", hash)).to.throw(RangeError);
+      expect(() => Hashes.register("sha256d", hash, true)).to.throw(RangeError);
+      expect(Hashes.get("sha256d")).to.equal(Hashes.sha256d);
+
+      Hashes.register("identity", hash);
+      expect(() => Hashes.register("identity", hash)).to.throw(RangeError);
+      Hashes.register("identity", Hashes.sha256, true);
+      expect(Hashes.get("identity")).to.equal(Hashes.sha256);
+    });
+
+    it("should resolve hash functions as is", () => {
+      expect(Hashes.resolve(Hashes.sha256)).to.equal(Hashes.sha256);
+      expect(() => Hashes.get("md5")).to.throw(RangeError);
+    });
+  });
+});